@@ -0,0 +1,89 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: golden.mjs
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Runs the golden-image regression harness of the compiled build in Node.
+ *
+ *     tsc -p . && node scripts/golden.mjs [--record] [scene ...]
+ *
+ *   References are the PNG files in source/engine/golden/references. Without arguments
+ *   every scene in scenes.ts is run; scene names restrict the run to those scenes.
+ *   --record re-renders the references instead of comparing – review the changed PNGs
+ *   before committing them.
+ *
+ *   A failing frame writes "<name>.diff.png" next to its reference. Exits with code 1 if
+ *   any frame fails or has no reference.
+ */
+import { existsSync } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import zlib from "zlib";
+import { fileURLToPath, pathToFileURL } from "url";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const build = path.join(root, "build");
+const references = path.join(root, "source/engine/golden/references");
+
+const args = process.argv.slice(2);
+const record = args.indexOf("--record") !== -1;
+const names = args.filter((arg) => arg !== "--record");
+
+/**
+ * Imports a module of the compiled build.
+ */
+function load(module) {
+    return import(pathToFileURL(path.join(build, module)).href);
+}
+
+if (!existsSync(build)) {
+    console.error("No build found – compile with tsc -p . first");
+    process.exit(1);
+}
+
+const { runGolden } = await load("engine/golden/harness.js");
+const { scenes } = await load("engine/golden/scenes.js");
+const { FileGoldenStore } = await load("engine/golden/file-store.js");
+
+const unknown = names.filter((name) => !scenes.some((scene) => scene.name === name));
+
+if (unknown.length > 0) {
+    console.error(`Unknown scene(s): ${unknown.join(", ")}`);
+    process.exit(1);
+}
+
+const files = {
+    async readFile(file) {
+        try {
+            return new Uint8Array(await fs.readFile(file));
+        } catch (error) {
+            if (error.code === "ENOENT") return null;
+            throw error;
+        }
+    },
+
+    async writeFile(file, data) {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, data);
+    }
+};
+
+// Compressed references keep the repository small; the harness decodes either kind
+const store = new FileGoldenStore(references, files, (data) => zlib.deflateSync(data, { level: 9 }));
+const selected = names.length > 0 ? scenes.filter((scene) => names.indexOf(scene.name) !== -1) : scenes;
+const results = await runGolden(selected, store, record);
+
+let failed = 0;
+
+for (const result of results) {
+    const ok = result.status === "passed" || result.status === "recorded";
+
+    if (!ok) failed++;
+
+    console.log(`  ${ok ? "ok  " : "FAIL"}  ${result.name}  ${result.status}${result.mismatched > 0 ? ` (${result.mismatched} pixels)` : ""}`);
+}
+
+console.log(`\n${results.length - failed} ${record ? "recorded" : "passed"}, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,58 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: test.mjs
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Runs the unit tests of the compiled build in Node.
+ *
+ *     tsc -p . && node scripts/test.mjs
+ *
+ *   Every build/**\/*.test.js module exports "tests": an object of named functions that
+ *   throw on failure. Exits with code 1 if any test fails.
+ */
+import fs from "fs";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+
+const build = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../build");
+
+/**
+ * Returns all test modules below a directory.
+ */
+function findTests(directory) {
+    return fs.readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+        const file = path.join(directory, entry.name);
+
+        if (entry.isDirectory()) return findTests(file);
+
+        return entry.name.endsWith(".test.js") ? [file] : [];
+    });
+}
+
+if (!fs.existsSync(build)) {
+    console.error("No build found – compile with tsc -p . first");
+    process.exit(1);
+}
+
+let failed = 0;
+let passed = 0;
+
+for (const file of findTests(build).sort()) {
+    const { tests } = await import(pathToFileURL(file).href);
+
+    for (const [name, test] of Object.entries(tests)) {
+        try {
+            test();
+            passed++;
+            console.log(`  ok    ${name}`);
+        } catch (error) {
+            failed++;
+            console.log(`  FAIL  ${name}\n        ${error.message.replace(/\n/g, "\n        ")}`);
+        }
+    }
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
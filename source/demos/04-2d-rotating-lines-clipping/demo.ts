@@ -53,6 +53,9 @@ export function initialize(blitter: Blitter): void {
     centerX = blitter.width / 2;
     centerY = blitter.height / 2;
 
+    // Keyboard input is only available in the browser (not in headless runs)
+    if (typeof document === "undefined") return;
+
     document.addEventListener("keydown", function (event: KeyboardEvent) {
         if (event.code === "KeyB") {
             useDDA = false;
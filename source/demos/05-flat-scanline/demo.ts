@@ -14,15 +14,24 @@
  *     - DDA-based line drawing for triangle outlines
  *     - Real-time rotation of each triangle around its own centroid
  *
+ *   Keyboard controls:
+ *     P → Cycle sub-pixel precision (float → fixed4 → fixed8)
+ *
  *   Notes:
  *     - The demo verifies scanline correctness, fill coverage, and rotation robustness
  *     - Visual artefacts (e.g. gaps between fill and outline) may occur due to rasterisation edge rounding
- *     - These gaps are a known challenge in software rendering and will be handled later with shared interpolation logic
+ *     - With floating-point edge stepping slowly rotating edges can jitter; the fixed-point
+ *       modes snap to a sub-pixel grid and step the edges with integers instead
+ *     - These gaps are a known challenge in software rendering; demo 06-flat-edge-function compares this
+ *       rasteriser with fillFlatEdge(), which applies a strict top-left fill rule on a sub-pixel grid
  */
 import { Blitter } from "../../engine/blitter.js";
 import { Color4 } from "../../engine/color/color4.js";
 import { Point2D } from "../../engine/geometry/point2d.js";
 import { Triangle2D } from "../../engine/geometry/triangle2d.js";
+import { SubpixelPrecision } from "../../engine/rasteriser/scanline.js";
+
+const precisions: SubpixelPrecision[] = ["float", "fixed4", "fixed8"];
 
 let triangles: { 
     triangle: Triangle2D,
@@ -33,6 +42,7 @@ let triangles: {
 /**
  * Initializes four triangles arranged in a 2×2 grid around the canvas center.
  * Each triangle is defined in local space and stored with fill and line colour.
+ * Also registers the key binding for the sub-pixel precision.
  *
  * @param blitter - Provides canvas dimensions for centering the grid
  */
@@ -79,6 +89,16 @@ export function initialize(blitter: Blitter) {
             line: Color4.red
         }
     ];
+
+    if (typeof document === "undefined") return;
+
+    document.addEventListener("keydown", function (event: KeyboardEvent) {
+        if (event.code === "KeyP") {
+            const next: number = (precisions.indexOf(blitter.precision) + 1) % precisions.length;
+            blitter.precision = precisions[next];
+            console.log(`Sub-pixel precision: ${blitter.precision}`);
+        }
+    });
 }
 
 /**
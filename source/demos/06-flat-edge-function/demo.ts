@@ -0,0 +1,149 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: demo.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Demo 06-flat-edge-function – compares the scanline rasteriser with the edge-function
+ *   rasteriser on a mesh of adjacent triangles.
+ *
+ *   A rotating fan of triangles (a polygon split around its centre) shares every inner edge
+ *   between two triangles. With the overdraw view enabled, every pixel shows how often it
+ *   was written:
+ *     - Grey  → drawn exactly once (correct)
+ *     - Red   → drawn twice or more (double-draw along a shared edge)
+ *     - White → a gap inside the fan (never drawn)
+ *
+ *   Keyboard controls:
+ *     S → Use scanline rasterisation (fillFlatScanline)
+ *     E → Use edge-function rasterisation (fillFlatEdge)
+ *     O → Toggle overdraw view on/off
+ *
+ *   Demonstrates:
+ *     - Edge functions with bounding-box traversal
+ *     - The strict top-left fill rule on a sub-pixel grid (no double-draws, no gaps)
+ */
+import { Blitter } from "../../engine/blitter.js";
+import { Color4 } from "../../engine/color/color4.js";
+import { Point2D } from "../../engine/geometry/point2d.js";
+import { Triangle2D } from "../../engine/geometry/triangle2d.js";
+
+const segments: number = 12;
+const radius: number = 200;
+
+const colors: Color4[] = [Color4.green, Color4.blue, Color4.black];
+
+const once: Color4 = new Color4({ red: 160, green: 160, blue: 160 });
+const twice: Color4 = Color4.red;
+
+let triangles: Triangle2D[] = [];
+
+let useEdgeFunction: boolean = false;
+let showOverdraw: boolean = true;
+
+// Scratch buffer for a single triangle and the per-pixel write count
+let scratch!: Uint32Array;
+let coverage!: Uint8Array;
+
+/**
+ * Builds the triangle fan around the canvas centre and registers key bindings.
+ *
+ * @param blitter - Provides canvas dimensions for centering the fan
+ */
+export function initialize(blitter: Blitter) {
+    const center: Point2D = new Point2D(blitter.width / 2, blitter.height / 2);
+
+    triangles = [];
+
+    for (let i: number = 0; i < segments; i++) {
+        // Slightly irregular rim, so the shared edges get arbitrary slopes
+        const r0: number = radius * (i % 2 === 0 ? 1 : 0.8);
+        const r1: number = radius * ((i + 1) % 2 === 0 ? 1 : 0.8);
+
+        const a0: number = (i / segments) * Math.PI * 2;
+        const a1: number = ((i + 1) / segments) * Math.PI * 2;
+
+        triangles.push(new Triangle2D(
+            center,
+            new Point2D(center.x + Math.cos(a0) * r0, center.y + Math.sin(a0) * r0),
+            new Point2D(center.x + Math.cos(a1) * r1, center.y + Math.sin(a1) * r1)
+        ));
+    }
+
+    scratch = new Uint32Array(blitter.width * blitter.height);
+    coverage = new Uint8Array(blitter.width * blitter.height);
+
+    if (typeof document === "undefined") return;
+
+    document.addEventListener("keydown", function (event: KeyboardEvent) {
+        if (event.code === "KeyS") {
+            useEdgeFunction = false;
+            console.log("Rasteriser: scanline");
+        }
+
+        if (event.code === "KeyE") {
+            useEdgeFunction = true;
+            console.log("Rasteriser: edge function");
+        }
+
+        if (event.code === "KeyO") {
+            showOverdraw = !showOverdraw;
+            console.log(`Overdraw view: ${showOverdraw ? "on" : "off"}`);
+        }
+    });
+}
+
+/**
+ * Called once per frame to render the scene.
+ * The fan is rotated around the canvas centre and filled with the selected rasteriser.
+ *
+ * @param blitter - Engine abstraction for pixel drawing
+ * @param elapsedTime - Total time since demo started (in seconds)
+ * @param deltaTime - Time since last frame (in seconds)
+ */
+export function render(blitter: Blitter, elapsedTime: number, deltaTime: number) {
+    blitter.clear(Color4.white);
+
+    const angle: number = elapsedTime * 0.25; // radians
+    const center: Point2D = new Point2D(blitter.width / 2, blitter.height / 2);
+
+    if (!showOverdraw) {
+        for (let i: number = 0; i < triangles.length; i++) {
+            fill(blitter, triangles[i].rotate(angle, center), colors[i % colors.length], blitter.backbuffer);
+        }
+        return;
+    }
+
+    // Draw each triangle on its own and count the writes per pixel
+    coverage.fill(0);
+
+    for (let i: number = 0; i < triangles.length; i++) {
+        scratch.fill(0);
+        fill(blitter, triangles[i].rotate(angle, center), Color4.white, scratch);
+
+        for (let p: number = 0; p < scratch.length; p++) {
+            if (scratch[p] !== 0) coverage[p]++;
+        }
+    }
+
+    const backbuffer: Uint32Array = blitter.backbuffer;
+    const onceUnpacked: number = once.toAABBGGRR();
+    const twiceUnpacked: number = twice.toAABBGGRR();
+
+    for (let p: number = 0; p < coverage.length; p++) {
+        if (coverage[p] === 1) backbuffer[p] = onceUnpacked;
+        else if (coverage[p] > 1) backbuffer[p] = twiceUnpacked;
+    }
+}
+
+/**
+ * Fills a triangle with the currently selected rasteriser.
+ */
+function fill(blitter: Blitter, triangle: Triangle2D, color: Color4, backbuffer: Uint32Array) {
+    if (useEdgeFunction) {
+        blitter.fillFlatEdge(triangle, color, false, backbuffer);
+    } else {
+        blitter.fillFlatScanline(triangle, color, false, backbuffer);
+    }
+}
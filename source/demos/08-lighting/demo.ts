@@ -0,0 +1,166 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: demo.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Demo 08-lighting – three low-poly spheres lit by ambient, directional, point and spot lights.
+ *
+ *   Each frame every triangle is lit on the CPU (Lambert diffuse + Blinn-Phong specular),
+ *   either once per face (flat shading), once per vertex (Gouraud shading) or once per
+ *   pixel (Phong shading, which keeps the highlights round on the low-poly spheres).
+ *
+ *   Keyboard controls:
+ *     M     → Cycle per-face / per-vertex / per-pixel lighting
+ *     1 – 4 → Toggle the ambient, directional, point and spot light
+ *     Drag, arrow keys, wheel → Orbit camera
+ *
+ *   Demonstrates:
+ *     - All four light types, point light attenuation and spot light cone falloff
+ *     - Flat (fillFlatScanline), Gouraud (fillGouraudScanline) and Phong (fillPhongScanline)
+ *       shading of lit geometry
+ */
+import { Blitter } from "../../engine/blitter.js";
+import { Camera } from "../../engine/camera/camera.js";
+import { OrbitController } from "../../engine/camera/orbit-controller.js";
+import { Color4 } from "../../engine/color/color4.js";
+import { Triangle2D } from "../../engine/geometry/triangle2d.js";
+import { Triangle3D } from "../../engine/geometry/triangle3d.js";
+import { Input } from "../../engine/input/input.js";
+import { AmbientLight, DirectionalLight, Light, PointLight, SpotLight } from "../../engine/lighting/light.js";
+import { Lighting, LitMaterial } from "../../engine/lighting/lighting.js";
+import { Matrix4 } from "../../engine/math/matrix4.js";
+import { Vector3 } from "../../engine/math/vector3.js";
+import { createSphere } from "../../engine/mesh/primitives.js";
+import { Pipeline } from "../../engine/pipeline/pipeline.js";
+import { colorsOf } from "../../engine/pipeline/vertex.js";
+
+const objects: { position: Vector3, material: LitMaterial }[] = [
+    { position: new Vector3(-2.6, 0, 0), material: { diffuse: new Color4({ red: 220, green: 60, blue: 50 }), specular: Color4.black, shininess: 1 } },
+    { position: new Vector3(0, 0, 0),    material: { diffuse: new Color4({ red: 70, green: 110, blue: 230 }), specular: Color4.white, shininess: 48 } },
+    { position: new Vector3(2.6, 0, 0),  material: { diffuse: new Color4({ red: 80, green: 190, blue: 90 }), specular: new Color4({ red: 120, green: 120, blue: 120 }), shininess: 12 } }
+];
+
+let triangles: Triangle3D[] = [];
+let pipeline!: Pipeline;
+let camera!: Camera;
+let orbit!: OrbitController;
+let lighting!: Lighting;
+
+let lights: Light[] = [];
+let enabled: boolean[] = [];
+let point!: PointLight;
+
+// Where the lighting equation is evaluated
+type Shading = "face" | "vertex" | "pixel";
+
+const shadings: Shading[] = ["face", "vertex", "pixel"];
+
+let shading: Shading = "pixel";
+
+/**
+ * Sets up the sphere mesh, lights, pipeline and camera, and registers key bindings.
+ *
+ * @param blitter - Provides canvas dimensions for the viewport
+ */
+export function initialize(blitter: Blitter) {
+    triangles = createSphere(1, 14, 8).toTriangles();
+
+    pipeline = new Pipeline({ x: 0, y: 0, width: blitter.width, height: blitter.height });
+
+    camera = new Camera({ near: 0.5, far: 50 });
+    orbit = new OrbitController(camera, { distance: 8, pitch: -0.3 });
+
+    point = new PointLight(new Vector3(0, 1.5, 2.5), { color: new Color4({ red: 255, green: 200, blue: 140 }), linear: 0.05, quadratic: 0.02 });
+
+    lights = [
+        new AmbientLight({ intensity: 0.25 }),
+        new DirectionalLight(new Vector3(1, -1, -1), { intensity: 0.9 }),
+        point,
+        new SpotLight(new Vector3(0, 5, 0), new Vector3(0, -1, 0), 0.15, 0.3, { color: new Color4({ red: 160, green: 255, blue: 160 }) })
+    ];
+    enabled = [true, true, true, true];
+
+    lighting = new Lighting();
+    shading = "pixel";
+
+    blitter.depth.enabled = true;
+    blitter.cull = "cw";
+    blitter.precision = "fixed8";
+
+    if (typeof document === "undefined") return;
+
+    document.addEventListener("keydown", function (event: KeyboardEvent) {
+        if (event.code === "KeyM") {
+            shading = shadings[(shadings.indexOf(shading) + 1) % shadings.length];
+            console.log(`Lighting: per ${shading}`);
+        }
+
+        const digit: number = ["Digit1", "Digit2", "Digit3", "Digit4"].indexOf(event.code);
+
+        if (digit >= 0) {
+            enabled[digit] = !enabled[digit];
+            console.log(`Light ${digit + 1}: ${enabled[digit] ? "on" : "off"}`);
+        }
+    });
+}
+
+/**
+ * Called once per frame to render the scene.
+ * Moves the point light around the spheres, then lights and fills every triangle.
+ *
+ * @param blitter - Engine abstraction for pixel drawing
+ * @param elapsedTime - Total time since demo started (in seconds)
+ * @param deltaTime - Time since last frame (in seconds)
+ */
+export function render(blitter: Blitter, elapsedTime: number, deltaTime: number) {
+    blitter.clear(Color4.black);
+    blitter.clearDepth();
+
+    orbit.update(Input.getInstance(), deltaTime);
+    camera.apply(pipeline);
+
+    // The point light circles the row of spheres
+    point.position.set(Math.sin(elapsedTime) * 4, 1.5, Math.cos(elapsedTime) * 2.5);
+
+    // Only per-pixel lighting needs world-space positions and normals
+    pipeline.worldAttributes = shading === "pixel";
+
+    lighting.lights = lights.filter((light, i) => enabled[i]);
+    lighting.eye = camera.position;
+
+    for (const object of objects) {
+        const model: Matrix4 = Matrix4.translation(object.position.x, object.position.y, object.position.z);
+        model.multiply(Matrix4.rotationY(elapsedTime * 0.3), model);
+        pipeline.model = model;
+
+        for (const triangle of triangles) {
+            if (shading === "pixel") {
+                for (const screen of pipeline.transformTriangle(triangle)) {
+                    blitter.fillPhongScanline(screen, lighting, object.material);
+                }
+                continue;
+            }
+
+            const lit: Triangle3D = lighting.lightTriangle(triangle, model, object.material, shading);
+
+            for (const screen of pipeline.transformTriangle(lit)) {
+                draw(blitter, screen);
+            }
+        }
+    }
+}
+
+/**
+ * Fills a lit screen-space triangle with the rasteriser matching the shading.
+ */
+function draw(blitter: Blitter, triangle: Triangle2D) {
+    const colors: [Color4, Color4, Color4] = colorsOf(triangle);
+
+    if (shading === "face") {
+        blitter.fillFlatScanline(triangle, colors[0]);
+    } else {
+        blitter.fillGouraudScanline(triangle, colors);
+    }
+}
@@ -0,0 +1,158 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: demo.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Demo 09-blend – shows the six blend modes side by side.
+ *
+ *   The canvas is split into six panels, one per blend mode. Each panel has the same
+ *   striped, Gouraud-shaded background, and draws the same content over it:
+ *     - Three overlapping translucent triangles (red, green, blue) rotating around the centre
+ *     - A translucent Gouraud triangle fading from opaque to fully transparent
+ *     - A fan of translucent lines and a swirl of particle pixels
+ *
+ *   Panels (left to right, top to bottom):
+ *     replace, alpha, additive, multiply, screen, premultiplied
+ *
+ *   Demonstrates:
+ *     - Blitter.blend for pixels, lines and triangles
+ *     - Integer blending on packed AABBGGRR values (see blitter/blend.ts)
+ *     - Clipping each panel to its own region
+ */
+import { Blitter } from "../../engine/blitter.js";
+import { BlendMode } from "../../engine/blitter/blend.js";
+import { Clipping } from "../../engine/blitter/clipping.js";
+import { Color4 } from "../../engine/color/color4.js";
+import { Point2D } from "../../engine/geometry/point2d.js";
+import { Triangle2D } from "../../engine/geometry/triangle2d.js";
+
+const modes: BlendMode[] = ["replace", "alpha", "additive", "multiply", "screen", "premultiplied"];
+
+const columns: number = 3;
+const rows: number = 2;
+
+// Translucent primaries (the premultiplied panel gets premultiplied copies; its lines, particles
+// and fade are left straight, so they show how unpremultiplied input over-brightens)
+const translucent: Color4[] = [
+    new Color4({ alpha: 160, red: 255, green: 40,  blue: 40  }),
+    new Color4({ alpha: 160, red: 40,  green: 255, blue: 40  }),
+    new Color4({ alpha: 160, red: 40,  green: 40,  blue: 255 })
+];
+
+const premultiplied: Color4[] = translucent.map((color) => new Color4({
+    alpha: color.alpha,
+    red: Math.round(color.red * color.alpha / 255),
+    green: Math.round(color.green * color.alpha / 255),
+    blue: Math.round(color.blue * color.alpha / 255)
+}));
+
+const fade: [Color4, Color4, Color4] = [
+    new Color4({ alpha: 255, red: 255, green: 220, blue: 0 }),
+    new Color4({ alpha: 128, red: 255, green: 0,   blue: 200 }),
+    new Color4({ alpha: 0,   red: 0,   green: 200, blue: 255 })
+];
+
+const lineColor: Color4 = new Color4({ alpha: 96, red: 255, green: 255, blue: 255 });
+const particleColor: Color4 = new Color4({ alpha: 128, red: 255, green: 160, blue: 40 });
+
+const stripeDark: Color4 = new Color4({ red: 40, green: 40, blue: 60 });
+const stripeLight: Color4 = new Color4({ red: 200, green: 200, blue: 210 });
+
+/**
+ * One-time setup (nothing to prepare, all content is derived from the elapsed time).
+ *
+ * @param blitter - The active Blitter instance
+ */
+export function initialize(blitter: Blitter) {
+}
+
+/**
+ * Called once per frame to render the scene.
+ *
+ * @param blitter - Engine abstraction for pixel drawing
+ * @param elapsedTime - Total time since demo started (in seconds)
+ * @param deltaTime - Time since last frame (in seconds)
+ */
+export function render(blitter: Blitter, elapsedTime: number, deltaTime: number) {
+    blitter.clear(Color4.black);
+
+    const canvas: Clipping = blitter.clipping;
+    const panelWidth: number = Math.floor(blitter.width / columns);
+    const panelHeight: number = Math.floor(blitter.height / rows);
+
+    for (let i: number = 0; i < modes.length; i++) {
+        const left: number = (i % columns) * panelWidth;
+        const top: number = Math.floor(i / columns) * panelHeight;
+
+        blitter.clipping = new Clipping(left, top, left + panelWidth, top + panelHeight);
+
+        drawBackground(blitter, left, top, panelWidth, panelHeight);
+
+        blitter.blend = modes[i];
+        drawContent(blitter, new Point2D(left + panelWidth / 2, top + panelHeight / 2), elapsedTime, modes[i] === "premultiplied" ? premultiplied : translucent);
+        blitter.blend = "replace";
+    }
+
+    blitter.clipping = canvas;
+}
+
+/**
+ * Draws the opaque panel background: dark and light stripes under a vertical colour ramp.
+ */
+function drawBackground(blitter: Blitter, left: number, top: number, width: number, height: number) {
+    const stripes: number = 6;
+    const stripeWidth: number = width / stripes;
+
+    for (let s: number = 0; s < stripes; s++) {
+        const x0: number = left + s * stripeWidth;
+        const x1: number = x0 + stripeWidth;
+        const color: Color4 = s % 2 === 0 ? stripeDark : stripeLight;
+
+        blitter.fillFlatScanline(new Triangle2D(new Point2D(x0, top), new Point2D(x1, top), new Point2D(x1, top + height)), color, true);
+        blitter.fillFlatScanline(new Triangle2D(new Point2D(x0, top), new Point2D(x1, top + height), new Point2D(x0, top + height)), color, true);
+    }
+}
+
+/**
+ * Draws the blended content of a panel around its centre.
+ */
+function drawContent(blitter: Blitter, center: Point2D, time: number, colors: Color4[]) {
+    const radius: number = 60;
+
+    // Three overlapping triangles
+    for (let i: number = 0; i < colors.length; i++) {
+        const angle: number = time * 0.6 + (i / colors.length) * Math.PI * 2;
+        const offset: Point2D = new Point2D(center.x + Math.cos(angle) * 22, center.y + Math.sin(angle) * 22);
+
+        blitter.fillFlatScanline(new Triangle2D(
+            new Point2D(offset.x, offset.y - radius),
+            new Point2D(offset.x + radius * 0.87, offset.y + radius * 0.5),
+            new Point2D(offset.x - radius * 0.87, offset.y + radius * 0.5)
+        ), colors[i], true);
+    }
+
+    // Alpha fading across a Gouraud triangle
+    blitter.fillGouraudScanline(new Triangle2D(
+        new Point2D(center.x - 100, center.y + 100),
+        new Point2D(center.x + 100, center.y + 100),
+        new Point2D(center.x + 100, center.y + 60)
+    ), fade, true);
+
+    // Line fan
+    for (let i: number = 0; i < 16; i++) {
+        const angle: number = -time * 0.3 + (i / 16) * Math.PI * 2;
+        const end: Point2D = new Point2D(center.x + Math.cos(angle) * 110, center.y + Math.sin(angle) * 110);
+
+        blitter.drawLineBresenham(center, end, lineColor, true);
+    }
+
+    // Particle swirl
+    for (let i: number = 0; i < 400; i++) {
+        const angle: number = i * 0.37 + time;
+        const distance: number = 10 + (i % 100);
+
+        blitter.setPixel(center.x + Math.cos(angle) * distance, center.y - 80 + Math.sin(angle) * distance * 0.3, particleColor, true);
+    }
+}
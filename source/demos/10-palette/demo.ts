@@ -0,0 +1,134 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: demo.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Demo 10-palette – a classic palette-cycling plasma in the indexed (8-bit) mode.
+ *
+ *   The plasma indices are computed once in initialize() and never redrawn: all motion
+ *   comes from the palette. Every frame the base palette is cycled by the elapsed time
+ *   and blit() expands the indices through it.
+ *
+ *   Palette layout:
+ *     0–191   → plasma colours (blue, cyan, white, magenta), cycling forwards
+ *     192–255 → fire ramp for the band at the bottom, cycling backwards
+ *
+ *   The frame fades in from black at the start, and fades to white while F is held.
+ *
+ *   Keyboard controls:
+ *     C → Toggle palette cycling on/off
+ *     F → Hold to fade to white
+ *
+ *   Demonstrates:
+ *     - Blitter.enableIndexed() and the Uint8Array index framebuffer
+ *     - Palette.ramp(), Palette.cycle() and Palette.fade()
+ */
+import { Blitter } from "../../engine/blitter.js";
+import { Color4 } from "../../engine/color/color4.js";
+import { CycleRange, Palette } from "../../engine/color/palette.js";
+
+const PLASMA_COLORS: number = 192;
+const FIRE_START: number = 192;
+const FIRE_COLORS: number = 64;
+
+const ranges: CycleRange[] = [
+    { start: 0, end: PLASMA_COLORS - 1, rate: 40 },
+    { start: FIRE_START, end: FIRE_START + FIRE_COLORS - 1, rate: -30 }
+];
+
+// Seconds to fade in from black
+const fadeInTime: number = 1.5;
+
+let base!: Palette;
+
+// Scratch palettes reused every frame
+const cycled: Palette = new Palette();
+const faded: Palette = new Palette();
+
+let cycling: boolean = true;
+let fading: boolean = false;
+
+/**
+ * Builds the base palette, switches to indexed mode and draws the plasma indices.
+ *
+ * @param blitter - The active Blitter instance
+ */
+export function initialize(blitter: Blitter) {
+    const blue: Color4 = new Color4({ red: 10, green: 20, blue: 120 });
+    const cyan: Color4 = new Color4({ red: 0, green: 200, blue: 255 });
+    const magenta: Color4 = new Color4({ red: 200, green: 0, blue: 160 });
+
+    // Plasma: four ramps that end where the next starts, so cycling has no seams
+    base = new Palette()
+        .ramp(0, 47, blue, cyan)
+        .ramp(48, 95, cyan, Color4.white)
+        .ramp(96, 143, Color4.white, magenta)
+        .ramp(144, 191, magenta, blue)
+        .ramp(FIRE_START, FIRE_START + 31, new Color4({ red: 80 }), new Color4({ red: 255, green: 200 }))
+        .ramp(FIRE_START + 32, FIRE_START + 63, new Color4({ red: 255, green: 200 }), new Color4({ red: 80 }));
+
+    blitter.enableIndexed(base);
+
+    const indices: Uint8Array = blitter.indexed!;
+    const width: number = blitter.width;
+    const height: number = blitter.height;
+    const band: number = height - 48;
+
+    for (let y: number = 0; y < height; y++) {
+        for (let x: number = 0; x < width; x++) {
+            let index: number;
+
+            if (y < band) {
+                // Sum of sines in 0..4, mapped to the plasma range
+                const value: number =
+                    Math.sin(x / 37) +
+                    Math.sin(y / 23) +
+                    Math.sin((x + y) / 41) +
+                    Math.sin(Math.hypot(x - width / 2, y - height / 2) / 19);
+
+                index = Math.floor((value + 4) / 8 * PLASMA_COLORS) % PLASMA_COLORS;
+            } else {
+                // Diagonal stripes through the fire ramp
+                index = FIRE_START + Math.floor((x + y) / 2) % FIRE_COLORS;
+            }
+
+            indices[y * width + x] = index;
+        }
+    }
+
+    if (typeof document === "undefined") return;
+
+    document.addEventListener("keydown", function (event: KeyboardEvent) {
+        if (event.code === "KeyC") {
+            cycling = !cycling;
+            console.log(`Palette cycling: ${cycling ? "on" : "off"}`);
+        }
+
+        if (event.code === "KeyF") fading = true;
+    });
+
+    document.addEventListener("keyup", function (event: KeyboardEvent) {
+        if (event.code === "KeyF") fading = false;
+    });
+}
+
+/**
+ * Called once per frame: derives this frame's palette. The indices stay untouched.
+ *
+ * @param blitter - Engine abstraction for pixel drawing
+ * @param elapsedTime - Total time since demo started (in seconds)
+ * @param deltaTime - Time since last frame (in seconds)
+ */
+export function render(blitter: Blitter, elapsedTime: number, deltaTime: number) {
+    const palette: Palette = cycling ? base.cycle(ranges, elapsedTime, cycled) : base.copy(cycled);
+
+    if (elapsedTime < fadeInTime) {
+        blitter.palette = palette.fade(Color4.black, 1 - elapsedTime / fadeInTime, faded);
+    } else if (fading) {
+        blitter.palette = palette.fade(Color4.white, 0.75, faded);
+    } else {
+        blitter.palette = palette;
+    }
+}
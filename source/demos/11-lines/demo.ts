@@ -0,0 +1,130 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: demo.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Demo 11-lines – anti-aliased and thick lines.
+ *
+ *   Top row: the same rotating wire star drawn twice, aliased with Bresenham on the left
+ *   and anti-aliased with Xiaolin Wu on the right.
+ *
+ *   Bottom row: three translucent zig-zag polylines, one per join style (miter, bevel,
+ *   round), with the selected cap style. A thin line marks each centre line.
+ *
+ *   Keyboard controls:
+ *     C → Cycle cap style (butt, round, square)
+ *     W → Cycle stroke width (8, 16, 24)
+ *
+ *   Demonstrates:
+ *     - drawLineWu() with coverage blended against the background
+ *     - drawPolyline() with caps and joins; each pixel is written once, so the translucent
+ *       strokes have no seams where segments overlap
+ */
+import { Blitter } from "../../engine/blitter.js";
+import { LineCap, LineJoin } from "../../engine/blitter/stroke.js";
+import { Color4 } from "../../engine/color/color4.js";
+import { Point2D } from "../../engine/geometry/point2d.js";
+
+const caps: LineCap[] = ["butt", "round", "square"];
+const joins: LineJoin[] = ["miter", "bevel", "round"];
+const widths: number[] = [8, 16, 24];
+
+const background: Color4 = new Color4({ red: 24, green: 28, blue: 40 });
+const wire: Color4 = new Color4({ red: 230, green: 230, blue: 255 });
+const centreLine: Color4 = new Color4({ alpha: 200, red: 255, green: 255, blue: 255 });
+
+const strokes: Color4[] = [
+    new Color4({ alpha: 170, red: 255, green: 90,  blue: 60  }),
+    new Color4({ alpha: 170, red: 80,  green: 220, blue: 90  }),
+    new Color4({ alpha: 170, red: 70,  green: 140, blue: 255 })
+];
+
+let cap: number = 1;
+let width: number = 1;
+
+/**
+ * Registers the key bindings.
+ *
+ * @param blitter - The active Blitter instance
+ */
+export function initialize(blitter: Blitter) {
+    if (typeof document === "undefined") return;
+
+    document.addEventListener("keydown", function (event: KeyboardEvent) {
+        if (event.code === "KeyC") {
+            cap = (cap + 1) % caps.length;
+            console.log(`Cap: ${caps[cap]}`);
+        }
+
+        if (event.code === "KeyW") {
+            width = (width + 1) % widths.length;
+            console.log(`Width: ${widths[width]}`);
+        }
+    });
+}
+
+/**
+ * Called once per frame to render the scene.
+ *
+ * @param blitter - Engine abstraction for pixel drawing
+ * @param elapsedTime - Total time since demo started (in seconds)
+ * @param deltaTime - Time since last frame (in seconds)
+ */
+export function render(blitter: Blitter, elapsedTime: number, deltaTime: number) {
+    blitter.clear(background);
+
+    // Wire stars: aliased left, anti-aliased right
+    const angle: number = elapsedTime * 0.3;
+    const top: number = blitter.height / 4;
+
+    drawStar(blitter, new Point2D(blitter.width / 4, top), angle, false);
+    drawStar(blitter, new Point2D(blitter.width * 3 / 4, top), angle, true);
+
+    // Zig-zag polylines, one per join style
+    const columnWidth: number = blitter.width / joins.length;
+    const wobble: number = Math.sin(elapsedTime) * 20;
+
+    for (let i: number = 0; i < joins.length; i++) {
+        const left: number = i * columnWidth + 30;
+        const right: number = (i + 1) * columnWidth - 30;
+        const middle: number = (left + right) / 2;
+
+        const points: Point2D[] = [
+            new Point2D(left, blitter.height - 60),
+            new Point2D(left + 30, blitter.height / 2 + 40 + wobble),
+            new Point2D(middle, blitter.height - 90),
+            new Point2D(right - 20, blitter.height / 2 + 20 - wobble),
+            new Point2D(right, blitter.height - 40)
+        ];
+
+        blitter.blend = "alpha";
+        blitter.drawPolyline(points, strokes[i], { width: widths[width], cap: caps[cap], join: joins[i] }, false, true);
+
+        for (let p: number = 0; p < points.length - 1; p++) {
+            blitter.drawLineWu(points[p], points[p + 1], centreLine, true);
+        }
+
+        blitter.blend = "replace";
+    }
+}
+
+/**
+ * Draws a rotating star of lines from the centre, either aliased or anti-aliased.
+ */
+function drawStar(blitter: Blitter, center: Point2D, angle: number, antialiased: boolean) {
+    const spokes: number = 24;
+    const radius: number = blitter.height / 4 - 10;
+
+    for (let i: number = 0; i < spokes; i++) {
+        const a: number = angle + (i / spokes) * Math.PI * 2;
+        const end: Point2D = new Point2D(center.x + Math.cos(a) * radius, center.y + Math.sin(a) * radius);
+
+        if (antialiased) {
+            blitter.drawLineWu(center, end, wire, true);
+        } else {
+            blitter.drawLineBresenham(center, end, wire, true);
+        }
+    }
+}
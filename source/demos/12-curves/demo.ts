@@ -0,0 +1,144 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: demo.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Demo 12-curves – circles, ellipses, arcs and Bézier curves.
+ *
+ *   Left: filled circles and ellipses with outlines, orbiting the centre of a clipping
+ *   rectangle (drawn as a frame) so they are cut at its edges.
+ *   Right: a spinning progress arc, and quadratic and cubic Bézier curves whose control
+ *   points move over time (control polygons drawn in grey).
+ *
+ *   Keyboard controls:
+ *     A → Toggle anti-aliased curves (Wu) / aliased (Bresenham)
+ *
+ *   Demonstrates:
+ *     - Midpoint circle and ellipse algorithms, outline and filled
+ *     - Arcs with start and end angles
+ *     - Adaptive subdivision of Bézier curves into the line drawers
+ *     - Clipping of all primitives against blitter.clipping
+ */
+import { Blitter } from "../../engine/blitter.js";
+import { LineAlgorithm } from "../../engine/blitter/bezier.js";
+import { Clipping } from "../../engine/blitter/clipping.js";
+import { Color4 } from "../../engine/color/color4.js";
+import { Point2D } from "../../engine/geometry/point2d.js";
+
+const background: Color4 = new Color4({ red: 245, green: 240, blue: 230 });
+const frame: Color4 = new Color4({ red: 120, green: 120, blue: 120 });
+const outline: Color4 = new Color4({ red: 30, green: 30, blue: 40 });
+const guide: Color4 = new Color4({ red: 180, green: 180, blue: 180 });
+const curve: Color4 = new Color4({ red: 200, green: 40, blue: 60 });
+const ring: Color4 = new Color4({ red: 40, green: 120, blue: 220 });
+
+const fills: Color4[] = [
+    new Color4({ alpha: 190, red: 250, green: 170, blue: 40 }),
+    new Color4({ alpha: 190, red: 70,  green: 190, blue: 120 }),
+    new Color4({ alpha: 190, red: 120, green: 90,  blue: 220 })
+];
+
+let algorithm: LineAlgorithm = "wu";
+
+/**
+ * Registers the key bindings.
+ *
+ * @param blitter - The active Blitter instance
+ */
+export function initialize(blitter: Blitter) {
+    if (typeof document === "undefined") return;
+
+    document.addEventListener("keydown", function (event: KeyboardEvent) {
+        if (event.code === "KeyA") {
+            algorithm = algorithm === "wu" ? "bresenham" : "wu";
+            console.log(`Curves: ${algorithm}`);
+        }
+    });
+}
+
+/**
+ * Called once per frame to render the scene.
+ *
+ * @param blitter - Engine abstraction for pixel drawing
+ * @param elapsedTime - Total time since demo started (in seconds)
+ * @param deltaTime - Time since last frame (in seconds)
+ */
+export function render(blitter: Blitter, elapsedTime: number, deltaTime: number) {
+    blitter.clear(background);
+
+    drawShapes(blitter, elapsedTime);
+    drawCurves(blitter, elapsedTime);
+}
+
+/**
+ * Orbiting circles and ellipses, clipped to a rectangle on the left half.
+ */
+function drawShapes(blitter: Blitter, time: number) {
+    const canvas: Clipping = blitter.clipping;
+    const region: Clipping = new Clipping(40, 60, 280, 420);
+
+    // Frame just outside the clipping region
+    const corners: Point2D[] = [new Point2D(39, 59), new Point2D(280, 59), new Point2D(280, 420), new Point2D(39, 420)];
+
+    for (let i: number = 0; i < corners.length; i++) {
+        blitter.drawLineBresenham(corners[i], corners[(i + 1) % corners.length], frame);
+    }
+
+    blitter.clipping = region;
+    blitter.blend = "alpha";
+
+    const center: Point2D = new Point2D(160, 240);
+
+    for (let i: number = 0; i < fills.length; i++) {
+        const angle: number = time * 0.8 + (i / fills.length) * Math.PI * 2;
+        const position: Point2D = new Point2D(center.x + Math.cos(angle) * 110, center.y + Math.sin(angle) * 130);
+
+        if (i % 2 === 0) {
+            blitter.fillCircle(position, 55, fills[i], true);
+            blitter.drawCircle(position, 55, outline, true);
+        } else {
+            blitter.fillEllipse(position, 80, 40, fills[i], true);
+            blitter.drawEllipse(position, 80, 40, outline, true);
+        }
+    }
+
+    blitter.blend = "replace";
+    blitter.clipping = canvas;
+}
+
+/**
+ * Progress arc and animated Bézier curves on the right half.
+ */
+function drawCurves(blitter: Blitter, time: number) {
+    // Progress ring: track, a growing arc that starts at the top, and a dot at its head
+    const ringCenter: Point2D = new Point2D(470, 110);
+    const start: number = -Math.PI / 2;
+    const end: number = start + ((time * 0.35) % 1) * Math.PI * 2;
+
+    blitter.drawCircle(ringCenter, 64, guide);
+    blitter.drawCircle(ringCenter, 56, guide);
+    blitter.drawArc(ringCenter, 60, start, end, ring);
+    blitter.fillCircle(new Point2D(ringCenter.x + Math.cos(end) * 60, ringCenter.y + Math.sin(end) * 60), 4, ring);
+
+    // Quadratic curve with a swinging control point
+    const q0: Point2D = new Point2D(330, 300);
+    const q1: Point2D = new Point2D(470 + Math.sin(time * 1.3) * 120, 200);
+    const q2: Point2D = new Point2D(610, 300);
+
+    blitter.drawLineBresenham(q0, q1, guide);
+    blitter.drawLineBresenham(q1, q2, guide);
+    blitter.drawQuadraticBezier(q0, q1, q2, curve, algorithm);
+
+    // Cubic S-curve with control points moving in opposite directions
+    const c0: Point2D = new Point2D(330, 450);
+    const c1: Point2D = new Point2D(380 + Math.cos(time) * 40, 330);
+    const c2: Point2D = new Point2D(560 - Math.cos(time) * 40, 470);
+    const c3: Point2D = new Point2D(610, 350);
+
+    blitter.drawLineBresenham(c0, c1, guide);
+    blitter.drawLineBresenham(c1, c2, guide);
+    blitter.drawLineBresenham(c2, c3, guide);
+    blitter.drawCubicBezier(c0, c1, c2, c3, curve, algorithm);
+}
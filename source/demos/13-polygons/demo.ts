@@ -0,0 +1,131 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: demo.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Demo 13-polygons – general polygon filling with the even-odd and non-zero fill rules.
+ *
+ *   Three rotating shapes, each filled twice: with even-odd on the top row and non-zero
+ *   on the bottom row.
+ *     - Pentagram: a single self-intersecting contour. Even-odd leaves the centre empty,
+ *       non-zero fills it (the outline winds around it twice)
+ *     - Frame: an outer square with a square hole wound the opposite way. Both rules
+ *       leave the hole empty
+ *     - Double ring: two overlapping circles with the same winding. Even-odd cuts out the
+ *       overlap, non-zero fills it
+ *
+ *   Keyboard controls:
+ *     O → Toggle outlines of the contours
+ *
+ *   Demonstrates:
+ *     - Polygon2D with multiple contours
+ *     - The active-edge-table filler (fillPolygonScanline) with concave, self-intersecting
+ *       polygons and holes
+ */
+import { Blitter } from "../../engine/blitter.js";
+import { Color4 } from "../../engine/color/color4.js";
+import { FillRule, Polygon2D } from "../../engine/geometry/polygon2d.js";
+import { Point2D } from "../../engine/geometry/point2d.js";
+
+const rules: FillRule[] = ["even-odd", "non-zero"];
+
+const background: Color4 = new Color4({ red: 250, green: 250, blue: 245 });
+const outline: Color4 = new Color4({ red: 40, green: 40, blue: 40 });
+
+const colors: Color4[] = [
+    new Color4({ red: 230, green: 80,  blue: 60  }),
+    new Color4({ red: 60,  green: 150, blue: 90  }),
+    new Color4({ red: 60,  green: 110, blue: 220 })
+];
+
+let shapes: Polygon2D[] = [];
+let showOutlines: boolean = true;
+
+/**
+ * Builds the three shapes around the origin and registers key bindings.
+ *
+ * @param blitter - The active Blitter instance
+ */
+export function initialize(blitter: Blitter) {
+    const radius: number = 80;
+
+    // Pentagram: every second corner of a pentagon
+    const star: Point2D[] = [];
+
+    for (let i: number = 0; i < 5; i++) {
+        const angle: number = (i * 2 / 5) * Math.PI * 2 - Math.PI / 2;
+        star.push(new Point2D(Math.cos(angle) * radius, Math.sin(angle) * radius));
+    }
+
+    // Frame: clockwise outer square, counter-clockwise inner square
+    const outer: Point2D[] = [new Point2D(-70, -70), new Point2D(70, -70), new Point2D(70, 70), new Point2D(-70, 70)];
+    const inner: Point2D[] = [new Point2D(-35, -35), new Point2D(-35, 35), new Point2D(35, 35), new Point2D(35, -35)];
+
+    shapes = [
+        Polygon2D.fromPoints(star),
+        new Polygon2D([outer, inner]),
+        new Polygon2D([circle(-25, 0, 55), circle(25, 0, 55)])
+    ];
+
+    if (typeof document === "undefined") return;
+
+    document.addEventListener("keydown", function (event: KeyboardEvent) {
+        if (event.code === "KeyO") {
+            showOutlines = !showOutlines;
+            console.log(`Outlines: ${showOutlines ? "on" : "off"}`);
+        }
+    });
+}
+
+/**
+ * Called once per frame to render the scene.
+ *
+ * @param blitter - Engine abstraction for pixel drawing
+ * @param elapsedTime - Total time since demo started (in seconds)
+ * @param deltaTime - Time since last frame (in seconds)
+ */
+export function render(blitter: Blitter, elapsedTime: number, deltaTime: number) {
+    blitter.clear(background);
+
+    const columnWidth: number = blitter.width / shapes.length;
+    const rowHeight: number = blitter.height / rules.length;
+
+    for (let row: number = 0; row < rules.length; row++) {
+        for (let column: number = 0; column < shapes.length; column++) {
+            const center: Point2D = new Point2D((column + 0.5) * columnWidth, (row + 0.5) * rowHeight);
+            const polygon: Polygon2D = shapes[column].rotate(elapsedTime * 0.4, new Point2D(0, 0)).translate(center.x, center.y);
+
+            blitter.fillPolygonScanline(polygon, colors[column], rules[row], true);
+
+            if (showOutlines) drawOutline(blitter, polygon);
+        }
+    }
+}
+
+/**
+ * Draws every contour of a polygon as a closed line loop.
+ */
+function drawOutline(blitter: Blitter, polygon: Polygon2D) {
+    for (const contour of polygon.contours) {
+        for (let i: number = 0; i < contour.length; i++) {
+            blitter.drawLineWu(contour[i], contour[(i + 1) % contour.length], outline, true);
+        }
+    }
+}
+
+/**
+ * Returns a clockwise circle contour.
+ */
+function circle(x: number, y: number, radius: number): Point2D[] {
+    const points: Point2D[] = [];
+    const segments: number = 48;
+
+    for (let i: number = 0; i < segments; i++) {
+        const angle: number = (i / segments) * Math.PI * 2;
+        points.push(new Point2D(x + Math.cos(angle) * radius, y + Math.sin(angle) * radius));
+    }
+
+    return points;
+}
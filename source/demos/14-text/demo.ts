@@ -0,0 +1,261 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: demo.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Demo 14-text – bitmap font text rendering.
+ *
+ *   Panels:
+ *     - Title and FPS counter in the built-in 8×8 font, scaled and aligned
+ *     - Left, centre and right alignment around a guide line
+ *     - A multi-line paragraph in a grid font with soft (partial coverage) edges
+ *     - A proportional font described in the BMFont format, with a kerning pair
+ *     - Translucent text over coloured bars
+ *     - A scrolling marquee clipped to its box
+ *
+ *   Both extra fonts are generated from the built-in glyphs at start-up, so the demo
+ *   needs no asset files.
+ *
+ *   Keyboard controls:
+ *     A → Cycle the alignment of the paragraph
+ *
+ *   Demonstrates:
+ *     - drawText() with colour, transparency, multi-line layout, alignment and clipping
+ *     - BitmapFont.fromGrid() and BitmapFont.fromBMFont() with parseBMFont()
+ *     - measureText() for layout
+ */
+import { Blitter } from "../../engine/blitter.js";
+import { Clipping } from "../../engine/blitter/clipping.js";
+import { measureText, TextAlign, TextMetrics } from "../../engine/blitter/text.js";
+import { Color4 } from "../../engine/color/color4.js";
+import { Point2D } from "../../engine/geometry/point2d.js";
+import { Triangle2D } from "../../engine/geometry/triangle2d.js";
+import { BitmapFont, FontPage, Glyph, PRINTABLE_ASCII } from "../../engine/text/bitmap-font.js";
+import { parseBMFont } from "../../engine/text/bmfont.js";
+import { builtinFont } from "../../engine/text/builtin-font.js";
+import { Texture } from "../../engine/texture/texture.js";
+
+const aligns: TextAlign[] = ["left", "center", "right"];
+
+const background: Color4 = new Color4({ red: 24, green: 26, blue: 36 });
+const panel: Color4 = new Color4({ red: 40, green: 44, blue: 60 });
+const guide: Color4 = new Color4({ red: 90, green: 96, blue: 120 });
+const text: Color4 = new Color4({ red: 230, green: 232, blue: 240 });
+const accent: Color4 = new Color4({ red: 255, green: 200, blue: 80 });
+const translucent: Color4 = new Color4({ alpha: 128, red: 255, green: 255, blue: 255 });
+
+const bars: Color4[] = [
+    new Color4({ red: 200, green: 60,  blue: 60  }),
+    new Color4({ red: 60,  green: 170, blue: 90  }),
+    new Color4({ red: 60,  green: 110, blue: 210 })
+];
+
+const paragraph: string = "Bitmap fonts are\nsmall, fast and\nalways pixel-sharp.";
+const marquee: string = "This marquee scrolls through a clipped box ... ";
+
+let glowFont: BitmapFont;
+let proportionalFont: BitmapFont;
+let paragraphAlign: number = 0;
+let fps: number = 0;
+
+/**
+ * Builds the generated fonts and registers key bindings.
+ *
+ * @param blitter - The active Blitter instance
+ */
+export function initialize(blitter: Blitter) {
+    // Start every run from the same state, so captures depend only on the timestamps
+    paragraphAlign = 0;
+    fps = 0;
+
+    glowFont = BitmapFont.fromGrid(createGlowAtlas(), 10, 10);
+    proportionalFont = BitmapFont.fromBMFont(parseBMFont(createProportionalDescriptor()), [createBuiltinAtlas()]);
+
+    if (typeof document === "undefined") return;
+
+    document.addEventListener("keydown", function (event: KeyboardEvent) {
+        if (event.code === "KeyA") {
+            paragraphAlign = (paragraphAlign + 1) % aligns.length;
+            console.log(`Paragraph alignment: ${aligns[paragraphAlign]}`);
+        }
+    });
+}
+
+/**
+ * Called once per frame to render the scene.
+ *
+ * @param blitter - Engine abstraction for pixel drawing
+ * @param elapsedTime - Total time since demo started (in seconds)
+ * @param deltaTime - Time since last frame (in seconds)
+ */
+export function render(blitter: Blitter, elapsedTime: number, deltaTime: number) {
+    blitter.clear(background);
+
+    // Smoothed frame rate
+    if (deltaTime > 0) fps = fps === 0 ? 1 / deltaTime : fps * 0.9 + 0.1 / deltaTime;
+
+    // Title and FPS counter
+    const hue: number = (elapsedTime * 60) % 360;
+    blitter.drawText("Bitmap Fonts", new Point2D(blitter.width / 2, 16), Color4.fromHSV(hue, 0.5, 1), { scale: 4, align: "center" });
+    blitter.drawText(`${fps.toFixed(1)} fps`, new Point2D(blitter.width - 8, 8), accent, { align: "right" });
+
+    // Alignment around a guide line
+    fillRect(blitter, 16, 72, 304, 208, panel);
+    blitter.drawLineBresenham(new Point2D(168, 80), new Point2D(168, 136), guide);
+
+    aligns.forEach((align, i) => {
+        blitter.drawText(`align: ${align}`, new Point2D(168, 84 + i * 18), text, { align: align });
+    });
+
+    // Multi-line paragraph in the glow font, aligned inside the panel
+    const anchor: number = [24, 168, 312][paragraphAlign];
+    blitter.drawText(paragraph, new Point2D(anchor, 148), accent, { font: glowFont, align: aligns[paragraphAlign], lineHeight: 12 });
+
+    // Proportional BMFont against the fixed built-in font, with measured underlines
+    fillRect(blitter, 336, 72, 624, 208, panel);
+
+    const sample: string = "AVATAR Wave";
+    const fixed: TextMetrics = measureText(sample, { scale: 2 });
+    const proportional: TextMetrics = measureText(sample, { font: proportionalFont, scale: 2 });
+
+    blitter.drawText(sample, new Point2D(344, 84), text, { scale: 2 });
+    blitter.drawLineBresenham(new Point2D(344, 104), new Point2D(344 + fixed.width - 1, 104), guide);
+
+    blitter.drawText(sample, new Point2D(344, 124), text, { font: proportionalFont, scale: 2 });
+    blitter.drawLineBresenham(new Point2D(344, 144), new Point2D(344 + proportional.width - 1, 144), guide);
+
+    blitter.drawText(`fixed ${fixed.width} px\nproportional ${proportional.width} px`, new Point2D(344, 164), guide, { lineHeight: 12 });
+
+    // Translucent text over coloured bars
+    bars.forEach((color, i) => fillRect(blitter, 16 + i * 100, 232, 116 + i * 100, 312, color));
+
+    blitter.drawText("TRANSLUCENT", new Point2D(166, 260), translucent, { scale: 3, align: "center" });
+
+    // Marquee clipped to its box
+    const box: Clipping = new Clipping(336, 240, 624, 304);
+    fillRect(blitter, box.minX, box.minY, box.maxX, box.maxY, panel);
+
+    const width: number = measureText(marquee, { scale: 3 }).width;
+    const offset: number = (elapsedTime * 120) % width;
+    const canvas: Clipping = blitter.clipping;
+
+    blitter.clipping = box;
+
+    for (let x: number = box.minX - offset; x < box.maxX; x += width) {
+        blitter.drawText(marquee, new Point2D(x, 260), accent, { scale: 3 }, true);
+    }
+
+    blitter.clipping = canvas;
+
+    // Character set of the built-in font
+    const rows: string[] = [];
+
+    for (let i: number = 0; i < PRINTABLE_ASCII.length; i += 32) {
+        rows.push(PRINTABLE_ASCII.substr(i, 32));
+    }
+
+    blitter.drawText(rows.join("\n"), new Point2D(blitter.width / 2, 344), text, { scale: 2, align: "center", lineHeight: 12 });
+}
+
+/**
+ * Fills the rectangle [x0, x1) × [y0, y1) with two triangles.
+ */
+function fillRect(blitter: Blitter, x0: number, y0: number, x1: number, y1: number, color: Color4) {
+    blitter.fillFlatEdge(new Triangle2D(new Point2D(x0, y0), new Point2D(x1, y0), new Point2D(x1, y1)), color, true);
+    blitter.fillFlatEdge(new Triangle2D(new Point2D(x0, y0), new Point2D(x1, y1), new Point2D(x0, y1)), color, true);
+}
+
+/**
+ * Copies the built-in font page into a white texture with the coverage as alpha.
+ */
+function createBuiltinAtlas(): Texture {
+    const page: FontPage = builtinFont().pages[0];
+    const texels: Uint32Array = new Uint32Array(page.width * page.height);
+
+    for (let i: number = 0; i < texels.length; i++) {
+        texels[i] = ((page.coverage[i] << 24) | 0xffffff) >>> 0;
+    }
+
+    return new Texture(page.width, page.height, texels, "clamp");
+}
+
+/**
+ * Creates a 10×10 grid atlas of the built-in glyphs with a faint one-pixel halo.
+ */
+function createGlowAtlas(): Texture {
+    const font: BitmapFont = builtinFont();
+    const page: FontPage = font.pages[0];
+
+    const columns: number = 16;
+    const width: number = columns * 10;
+    const height: number = Math.ceil(PRINTABLE_ASCII.length / columns) * 10;
+    const alpha: Uint8Array = new Uint8Array(width * height);
+
+    for (let i: number = 0; i < PRINTABLE_ASCII.length; i++) {
+        const glyph: Glyph = font.glyph(PRINTABLE_ASCII.charCodeAt(i)) as Glyph;
+        const left: number = (i % columns) * 10 + 1;
+        const top: number = Math.floor(i / columns) * 10 + 1;
+
+        for (let y: number = 0; y < glyph.height; y++) {
+            for (let x: number = 0; x < glyph.width; x++) {
+                if (page.coverage[(glyph.y + y) * page.width + glyph.x + x] === 0) continue;
+
+                // Halo around the pixel first, then the pixel itself at full coverage
+                for (let dy: number = -1; dy <= 1; dy++) {
+                    for (let dx: number = -1; dx <= 1; dx++) {
+                        const position: number = (top + y + dy) * width + left + x + dx;
+                        alpha[position] = Math.max(alpha[position], 64);
+                    }
+                }
+
+                alpha[(top + y) * width + left + x] = 255;
+            }
+        }
+    }
+
+    return new Texture(width, height, Uint32Array.from(alpha, (a) => ((a << 24) | 0xffffff) >>> 0), "clamp");
+}
+
+/**
+ * Writes a BMFont descriptor for the built-in page, with every glyph trimmed to its ink.
+ */
+function createProportionalDescriptor(): string {
+    const font: BitmapFont = builtinFont();
+    const page: FontPage = font.pages[0];
+
+    const lines: string[] = [
+        "info face=\"Builtin Proportional\" size=8",
+        "common lineHeight=8 base=7 scaleW=" + page.width + " scaleH=" + page.height + " pages=1",
+        "page id=0 file=\"builtin.png\"",
+        "chars count=" + PRINTABLE_ASCII.length
+    ];
+
+    for (let i: number = 0; i < PRINTABLE_ASCII.length; i++) {
+        const code: number = PRINTABLE_ASCII.charCodeAt(i);
+        const glyph: Glyph = font.glyph(code) as Glyph;
+
+        // Columns that contain ink
+        let first: number = glyph.width, last: number = -1;
+
+        for (let x: number = 0; x < glyph.width; x++) {
+            for (let y: number = 0; y < glyph.height; y++) {
+                if (page.coverage[(glyph.y + y) * page.width + glyph.x + x] === 0) continue;
+
+                first = Math.min(first, x);
+                last = Math.max(last, x);
+            }
+        }
+
+        // Space has no ink and keeps a narrower advance
+        const ink: number = last < first ? 0 : last - first + 1;
+        const x: number = glyph.x + (ink === 0 ? 0 : first);
+
+        lines.push(`char id=${code} x=${x} y=0 width=${ink} height=8 xoffset=0 yoffset=0 xadvance=${ink === 0 ? 4 : ink + 1} page=0 chnl=15`);
+    }
+
+    lines.push("kernings count=2", "kerning first=65 second=86 amount=-1", "kerning first=86 second=65 amount=-1");
+
+    return lines.join("\n");
+}
@@ -6,33 +6,77 @@
  * 
  * Description:
  *   The Blitter singleton class manages all low-level rendering operations.
- *   It abstracts canvas creation, manages backbuffers, handles clipping,
+ *   It abstracts the presentation surface, manages the backbuffer, handles clipping,
  *   and provides pixel-level read/write operations via helper functions.
  * 
  *   Responsibilities:
- *     - Creating and configuring the HTML5 canvas
- *     - Setting up ImageData-based backbuffers for fast pixel access
+ *     - Creating and configuring the presentation surface (canvas, offscreen or memory)
+ *     - Exposing the surface's 32-bit backbuffer for fast pixel access
  *     - Providing a clear interface for drawing pixels and clearing the screen
  *     - Supporting optional clipping, background color, and singleton access
  * 
- *   Uses two buffers:
- *     - backbuffer8: ImageData for browser rendering
- *     - backbuffer32: Uint32Array for fast 32-bit ARGB color writes
+ *   The surface owns the backbuffer:
+ *     - backbuffer32: Uint32Array for fast 32-bit AABBGGRR color writes
+ *     - The surface decides how (or whether) the buffer is shown, see surface/
+ * 
+ *   The blitter owns the depth buffer:
+ *     - depth: Float32Array z-buffer with compare function and write enable, see blitter/depth.ts
+ * 
+ *   Triangle fill methods share a screen-space cull test and per-frame counters:
+ *     - cull: "none", "cw" or "ccw", see blitter/cull.ts
+ *     - statistics: submitted / culled / drawn triangles, see blitter/statistics.ts
+ * 
+ *   Pixel, line, triangle and fill writes combine with the backbuffer through a blend mode:
+ *     - blend: "replace" (default), "alpha", "additive", "multiply", "screen" or "premultiplied",
+ *       see blitter/blend.ts
+ * 
+ *   Indexed (8-bit) mode, enabled with enableIndexed():
+ *     - indexed: Uint8Array of palette indices that demos draw into
+ *     - blit() expands the indices through palette (256 Color4 entries) into backbuffer32,
+ *       so palette fades and cycling recolour the frame, see color/palette.ts
+ * 
+ *   Text is drawn with bitmap fonts by drawText():
+ *     - The built-in 8×8 font, grid atlases and BMFont descriptors, see text/
+ *     - Layout, alignment and measureText(), see blitter/text.ts
  */
 
+import { BlendFunction, blendFunctionOf, BlendMode } from "./blitter/blend.js";
 import { Clipping } from "./blitter/clipping.js";
+import { DepthBuffer } from "./blitter/depth.js";
+import { CullMode, isCulled } from "./blitter/cull.js";
+import { DrawStatistics } from "./blitter/statistics.js";
 import { Color4 } from "./color/color4.js";
+import { Palette } from "./color/palette.js";
 import { Point2D } from "./geometry/point2d.js";
 
 import { getPixel, setPixel } from './blitter/pixel.js';
-import { drawLineBresenham, drawLineDDA } from "./blitter/line.js";
+import { drawLineBresenham, drawLineDDA, drawLineWu } from "./blitter/line.js";
+import { drawPolyline, drawThickLine, StrokeStyle } from "./blitter/stroke.js";
+import { drawArc, drawCircle, drawEllipse, fillCircle, fillEllipse } from "./blitter/circle.js";
+import { drawCubicBezier, drawQuadraticBezier, LineAlgorithm } from "./blitter/bezier.js";
+import { drawText, TextStyle } from "./blitter/text.js";
 import { fillFlatScanline } from "./rasteriser/flat-scanline.js";
+import { fillFlatEdge } from "./rasteriser/flat-edge.js";
+import { fillGouraudScanline } from "./rasteriser/gouraud-scanline.js";
+import { fillPhongScanline } from "./rasteriser/phong-scanline.js";
+import { fillPolygonScanline } from "./rasteriser/polygon-scanline.js";
+import { fillTextureScanline, TextureMapping } from "./rasteriser/texture-scanline.js";
+import { SubpixelPrecision } from "./rasteriser/scanline.js";
+import { Texture, TextureCoordinate } from "./texture/texture.js";
+import { Lighting, LitMaterial } from "./lighting/lighting.js";
 import { Triangle2D } from "./geometry/triangle2d.js";
+import { FillRule, Polygon2D } from "./geometry/polygon2d.js";
+import { Surface, SurfaceTarget } from "./surface/surface.interface.js";
+import { createSurface } from "./surface/surface.js";
+import { encodeIndexedPNG, encodePNG } from "./image/png.js";
+import { encodePPM } from "./image/ppm.js";
+import { encodeBMP, encodeIndexedBMP } from "./image/bmp.js";
 
 interface CanvasParameters {
     width: number,
     height: number,
-    background?: Color4
+    background?: Color4,
+    target?: SurfaceTarget
 }
 
 export class Blitter {
@@ -43,11 +87,28 @@ export class Blitter {
     public background!: Color4;
 
     public clipping!: Clipping;
+    public depth!: DepthBuffer;
+
+    // Sub-pixel precision of the scanline rasterisers ("float", "fixed4" or "fixed8")
+    public precision: SubpixelPrecision = "float";
+
+    // Screen-space face culling of the triangle fill methods
+    public cull: CullMode = "none";
 
-    private canvas!: HTMLCanvasElement;
-    private context!: CanvasRenderingContext2D;
+    // How pixel, line, triangle and fill writes combine with the backbuffer
+    public blend: BlendMode = "replace";
+
+    // Triangle counters, reset by the engine loop before each frame
+    public statistics: DrawStatistics = new DrawStatistics();
+
+    // Palette indices of the indexed mode (null while the mode is off)
+    public indexed: Uint8Array | null = null;
+
+    // Palette that blit() expands the indices through in indexed mode
+    public palette: Palette = Palette.grayscale();
+
+    private output!: Surface;
 
-    private backbuffer8!: ImageData;
     private backbuffer32!: Uint32Array;
 
     // Use Blitter.getInstance() to access the singleton
@@ -66,14 +127,15 @@ export class Blitter {
     }
 
     /**
-     * Initializes the canvas, backbuffer, and clipping region.
+     * Initializes the surface, backbuffer, and clipping region.
      * Called once during setup.
      *
      * @param width - Canvas width in pixels
      * @param height - Canvas height in pixels
      * @param background - Optional background color (default: white)
+     * @param target - Optional presentation target (default: "canvas")
      */
-    public create({width, height, background = Color4.white}: CanvasParameters): void {
+    public create({width, height, background = Color4.white, target = "canvas"}: CanvasParameters): void {
         this.width = Math.floor(width);
         this.height = Math.floor(height);
         this.background = background;
@@ -81,52 +143,106 @@ export class Blitter {
         // Initialize the clipping region to match the canvas dimensions
         this.clipping = new Clipping(0, 0, this.width, this.height);
 
-        // Create and configure the canvas element
-        this.canvas = document.createElement('canvas');
-        this.canvas.width = this.width;
-        this.canvas.height = this.height;
+        // Depth buffer matching the canvas (depth testing disabled until enabled by the demo)
+        this.depth = new DepthBuffer(this.width, this.height);
 
-        // Retrieve the 2D rendering context
-        this.context = this.canvas.getContext('2d')!;
+        // Rasterisation state back to its defaults
+        this.precision = "float";
+        this.cull = "none";
+        this.blend = "replace";
+        this.statistics.reset();
 
-        // Initialize the backbuffer for rendering
-        this.backbuffer8 = this.context.getImageData(0, 0, this.width, this.height);
-        this.backbuffer32 = new Uint32Array(this.backbuffer8.data.buffer);
+        // Indexed mode off until enabled by the demo
+        this.indexed = null;
+        this.palette = Palette.grayscale();
+
+        // Create the presentation surface and grab its backbuffer
+        this.output = createSurface(target, this.width, this.height);
+        this.backbuffer32 = this.output.backbuffer;
     }
 
     /**
-     * Appends the canvas element to the DOM.
-     * Typically called once during setup.
+     * Makes the surface visible (e.g. appends the canvas element to the DOM).
+     * Typically called once during setup. Headless surfaces ignore it.
      */
     public present(): void {
-        document.body.appendChild(this.canvas);
+        this.output.present();
     }
 
     /**
-     * Copies the contents of the backbuffer to the visible canvas.
-     * Called once per frame.
+     * Copies the contents of the backbuffer to the presentation surface.
+     * Called once per frame. In indexed mode the indices are expanded through the palette first.
      */
     public blit(): void {
-        this.context.putImageData(this.backbuffer8, 0, 0);
+        if (this.indexed) {
+            this.palette.expand(this.indexed, this.backbuffer32);
+        }
+
+        this.output.blit();
+    }
+
+    /**
+     * Switches to indexed (8-bit) mode: allocates this.indexed (all zeros) and sets the palette.
+     * Truecolour drawing into the backbuffer is overwritten by the expansion in blit().
+     *
+     * @param palette - Optional palette (default: the current palette)
+     */
+    public enableIndexed(palette: Palette = this.palette): void {
+        this.indexed = new Uint8Array(this.width * this.height);
+        this.palette = palette;
+    }
+
+    /**
+     * Switches back to truecolour mode.
+     */
+    public disableIndexed(): void {
+        this.indexed = null;
+    }
+
+    /**
+     * Returns the active presentation surface.
+     */
+    public get surface(): Surface {
+        return this.output;
     }
     
     /**
      * Clears the screen using a specified or default background color.
+     * Clearing always replaces the backbuffer, whatever this.blend is.
      *
      * @param color - Optional color to clear with (defaults to this.background)
      */
     public clear(color: Color4 = this.background): void {
-        this.fill(color.toAABBGGRR());
+        this.backbuffer32.fill(color.toAABBGGRR());
     }
 
     /**
-     * Fills the entire backbuffer with a 32-bit color value.
+     * Clears the depth buffer.
+     *
+     * @param value - Optional depth to clear with (defaults to this.depth.clearValue)
+     */
+    public clearDepth(value: number = this.depth.clearValue): void {
+        this.depth.clear(value);
+    }
+
+    /**
+     * Fills the entire backbuffer with a 32-bit color value, blended according to this.blend
+     * (e.g. a translucent black fill with "alpha" fades the previous frame).
      *
      * @param color - Color in AABBGGRR format (fast write)
      * @param backbuffer - Optional override for custom buffer
      */
     public fill(color: number, backbuffer: Uint32Array = this.backbuffer32): void {
-        backbuffer.fill(color);
+        const blend: BlendFunction | null = blendFunctionOf(this.blend);
+
+        if (!blend) {
+            backbuffer.fill(color);
+            return;
+        }
+
+        for (let i: number = 0; i < backbuffer.length; i++) {
+            backbuffer[i] = blend(color, backbuffer[i]);
+        }
     }
 
     /**
@@ -196,17 +312,374 @@ export class Blitter {
         return drawLineDDA(this, a, b, color, clip, backbuffer);
     }
 
+    /**
+     * Draws an anti-aliased line between two points using Xiaolin Wu's algorithm.
+     * 
+     * This method wraps the global drawLineWu() function and passes the current Blitter instance.
+     * Coverage is blended against the destination, see blitter/line.ts.
+     * 
+     * @param a - Start point (Point2D)
+     * @param b - End point (Point2D)
+     * @param color - Line colour (its alpha is multiplied with the coverage)
+     * @param clip - Whether to apply clipping using this Blitter's clip region (default: false)
+     * @param backbuffer - Optional target buffer (default: this.backbuffer32)
+     */
+    public drawLineWu(a: Point2D, b: Point2D, color: Color4, clip: boolean = false, backbuffer: Uint32Array = this.backbuffer32): void {
+        return drawLineWu(this, a, b, color, clip, backbuffer);
+    }
+
+    /**
+     * Draws a thick line between two points with butt, round or square caps.
+     * 
+     * This method wraps the global drawThickLine() function and passes the current Blitter instance.
+     * 
+     * @param a - Start point (Point2D)
+     * @param b - End point (Point2D)
+     * @param color - Line colour
+     * @param style - Width and cap, see blitter/stroke.ts
+     * @param clip - Whether to apply clipping using this Blitter's clip region (default: false)
+     * @param backbuffer - Optional target buffer (default: this.backbuffer32)
+     */
+    public drawThickLine(a: Point2D, b: Point2D, color: Color4, style: StrokeStyle, clip: boolean = false, backbuffer: Uint32Array = this.backbuffer32): void {
+        return drawThickLine(this, a, b, color, style, clip, backbuffer);
+    }
+
+    /**
+     * Draws a thick polyline with caps and miter, bevel or round joins.
+     * 
+     * This method wraps the global drawPolyline() function and passes the current Blitter instance.
+     * Every covered pixel is written once, so translucent strokes have no seams at the joins.
+     * 
+     * @param points - Polyline vertices
+     * @param color - Line colour
+     * @param style - Width, caps, joins and miter limit, see blitter/stroke.ts
+     * @param closed - Whether to connect the last point back to the first (default: false)
+     * @param clip - Whether to apply clipping using this Blitter's clip region (default: false)
+     * @param backbuffer - Optional target buffer (default: this.backbuffer32)
+     */
+    public drawPolyline(points: Point2D[], color: Color4, style: StrokeStyle, closed: boolean = false, clip: boolean = false, backbuffer: Uint32Array = this.backbuffer32): void {
+        return drawPolyline(this, points, color, style, closed, clip, backbuffer);
+    }
+
+    /**
+     * Draws a circle outline using the midpoint circle algorithm.
+     * 
+     * This method wraps the global drawCircle() function and passes the current Blitter instance.
+     * 
+     * @param center - Circle centre
+     * @param radius - Radius in pixels
+     * @param color - Outline colour
+     * @param clip - Whether to apply clipping using this Blitter's clip region (default: false)
+     * @param backbuffer - Optional target buffer (default: this.backbuffer32)
+     */
+    public drawCircle(center: Point2D, radius: number, color: Color4, clip: boolean = false, backbuffer: Uint32Array = this.backbuffer32): void {
+        return drawCircle(this, center, radius, color, clip, backbuffer);
+    }
+
+    /**
+     * Fills a circle, one span per row.
+     * 
+     * This method wraps the global fillCircle() function and passes the current Blitter instance.
+     * 
+     * @param center - Circle centre
+     * @param radius - Radius in pixels
+     * @param color - Fill colour
+     * @param clip - Whether to apply clipping using this Blitter's clip region (default: false)
+     * @param backbuffer - Optional target buffer (default: this.backbuffer32)
+     */
+    public fillCircle(center: Point2D, radius: number, color: Color4, clip: boolean = false, backbuffer: Uint32Array = this.backbuffer32): void {
+        return fillCircle(this, center, radius, color, clip, backbuffer);
+    }
+
+    /**
+     * Draws an arc of a circle outline, clockwise on screen from start to end (radians from +x).
+     * 
+     * This method wraps the global drawArc() function and passes the current Blitter instance.
+     * 
+     * @param center - Circle centre
+     * @param radius - Radius in pixels
+     * @param start - Start angle in radians
+     * @param end - End angle in radians
+     * @param color - Outline colour
+     * @param clip - Whether to apply clipping using this Blitter's clip region (default: false)
+     * @param backbuffer - Optional target buffer (default: this.backbuffer32)
+     */
+    public drawArc(center: Point2D, radius: number, start: number, end: number, color: Color4, clip: boolean = false, backbuffer: Uint32Array = this.backbuffer32): void {
+        return drawArc(this, center, radius, start, end, color, clip, backbuffer);
+    }
+
+    /**
+     * Draws an axis-aligned ellipse outline using the midpoint ellipse algorithm.
+     * 
+     * This method wraps the global drawEllipse() function and passes the current Blitter instance.
+     * 
+     * @param center - Ellipse centre
+     * @param radiusX - Horizontal radius in pixels
+     * @param radiusY - Vertical radius in pixels
+     * @param color - Outline colour
+     * @param clip - Whether to apply clipping using this Blitter's clip region (default: false)
+     * @param backbuffer - Optional target buffer (default: this.backbuffer32)
+     */
+    public drawEllipse(center: Point2D, radiusX: number, radiusY: number, color: Color4, clip: boolean = false, backbuffer: Uint32Array = this.backbuffer32): void {
+        return drawEllipse(this, center, radiusX, radiusY, color, clip, backbuffer);
+    }
+
+    /**
+     * Fills an axis-aligned ellipse, one span per row.
+     * 
+     * This method wraps the global fillEllipse() function and passes the current Blitter instance.
+     * 
+     * @param center - Ellipse centre
+     * @param radiusX - Horizontal radius in pixels
+     * @param radiusY - Vertical radius in pixels
+     * @param color - Fill colour
+     * @param clip - Whether to apply clipping using this Blitter's clip region (default: false)
+     * @param backbuffer - Optional target buffer (default: this.backbuffer32)
+     */
+    public fillEllipse(center: Point2D, radiusX: number, radiusY: number, color: Color4, clip: boolean = false, backbuffer: Uint32Array = this.backbuffer32): void {
+        return fillEllipse(this, center, radiusX, radiusY, color, clip, backbuffer);
+    }
+
+    /**
+     * Draws a quadratic Bézier curve by adaptive subdivision into line segments.
+     * 
+     * This method wraps the global drawQuadraticBezier() function and passes the current Blitter instance.
+     * 
+     * @param p0 - Start point
+     * @param p1 - Control point
+     * @param p2 - End point
+     * @param color - Curve colour
+     * @param algorithm - Line drawer for the segments (default: "bresenham")
+     * @param clip - Whether to apply clipping using this Blitter's clip region (default: false)
+     * @param backbuffer - Optional target buffer (default: this.backbuffer32)
+     */
+    public drawQuadraticBezier(p0: Point2D, p1: Point2D, p2: Point2D, color: Color4, algorithm: LineAlgorithm = "bresenham", clip: boolean = false, backbuffer: Uint32Array = this.backbuffer32): void {
+        return drawQuadraticBezier(this, p0, p1, p2, color, algorithm, clip, backbuffer);
+    }
+
+    /**
+     * Draws a cubic Bézier curve by adaptive subdivision into line segments.
+     * 
+     * This method wraps the global drawCubicBezier() function and passes the current Blitter instance.
+     * 
+     * @param p0 - Start point
+     * @param p1 - First control point
+     * @param p2 - Second control point
+     * @param p3 - End point
+     * @param color - Curve colour
+     * @param algorithm - Line drawer for the segments (default: "bresenham")
+     * @param clip - Whether to apply clipping using this Blitter's clip region (default: false)
+     * @param backbuffer - Optional target buffer (default: this.backbuffer32)
+     */
+    public drawCubicBezier(p0: Point2D, p1: Point2D, p2: Point2D, p3: Point2D, color: Color4, algorithm: LineAlgorithm = "bresenham", clip: boolean = false, backbuffer: Uint32Array = this.backbuffer32): void {
+        return drawCubicBezier(this, p0, p1, p2, p3, color, algorithm, clip, backbuffer);
+    }
+
+    /**
+     * Draws text with a bitmap font (the built-in 8×8 font unless style.font is set).
+     * 
+     * This method wraps the global drawText() function and passes the current Blitter instance.
+     * Lines are separated by "\n"; measureText() in blitter/text.ts returns the laid out size.
+     * 
+     * @param text - Text to draw
+     * @param position - Top of the first line; left edge, centre or right edge by style.align
+     * @param color - Text colour (its alpha is multiplied with the glyph coverage)
+     * @param style - Optional font, alignment, scale and line height
+     * @param clip - Whether to apply clipping using this Blitter's clip region (default: false)
+     * @param backbuffer - Optional target buffer (default: this.backbuffer32)
+     */
+    public drawText(text: string, position: Point2D, color: Color4, style: TextStyle = {}, clip: boolean = false, backbuffer: Uint32Array = this.backbuffer32): void {
+        return drawText(this, text, position, color, style, clip, backbuffer);
+    }
+
     /**
      * Fills a 2D triangle using scanline rasterisation and solid flat shading.
      * 
      * This method wraps the global fillFlatScanline() function and passes the current Blitter instance.
-     * It assumes that the triangle is in screen space and does not perform clipping.
+     * It assumes that the triangle is in screen space. Spans are always kept inside the canvas;
+     * with clip enabled they are also restricted to the current clip region.
+     * 
+     * When depth testing is enabled (this.depth.enabled) and the vertices are ScreenVertex
+     * instances from the vertex pipeline, z is interpolated and tested per pixel.
+     * Triangles are skipped according to this.cull and counted in this.statistics.
      * 
+     * Edge precision follows this.precision: "fixed4" and "fixed8" snap the vertices to a
+     * sub-pixel grid and step the edges with integer arithmetic for jitter-free coverage.
+     * 
+     * @param triangle - Triangle to rasterise (screen space)
+     * @param color - Fill colour (solid flat shading)
+     * @param clip - Whether to apply clipping using this Blitter's clip region (default: false)
+     * @param backbuffer - Optional target buffer (default: this.backbuffer32)
+     */
+    public fillFlatScanline(triangle: Triangle2D, color: Color4, clip: boolean = false, backbuffer: Uint32Array = this.backbuffer32): void {
+        if (!this.accept(triangle)) return;
+
+        return fillFlatScanline(this, triangle, color, clip, backbuffer);
+    }
+
+    /**
+     * Fills a 2D triangle using edge functions (bounding-box traversal) and solid flat shading.
+     *
+     * This method wraps the global fillFlatEdge() function and passes the current Blitter instance.
+     * It applies a strict top-left fill rule on a sub-pixel grid, so triangles sharing an edge
+     * never draw a pixel twice and never leave a gap between them.
+     * Clipping, depth testing and culling behave as in fillFlatScanline().
+     *
      * @param triangle - Triangle to rasterise (screen space)
      * @param color - Fill colour (solid flat shading)
+     * @param clip - Whether to apply clipping using this Blitter's clip region (default: false)
+     * @param backbuffer - Optional target buffer (default: this.backbuffer32)
+     */
+    public fillFlatEdge(triangle: Triangle2D, color: Color4, clip: boolean = false, backbuffer: Uint32Array = this.backbuffer32): void {
+        if (!this.accept(triangle)) return;
+
+        return fillFlatEdge(this, triangle, color, clip, backbuffer);
+    }
+
+    /**
+     * Fills a 2D triangle using scanline rasterisation and Gouraud shading.
+     * 
+     * This method wraps the global fillGouraudScanline() function and passes the current Blitter instance.
+     * Red, green, blue and alpha are interpolated smoothly between the three vertex colours.
+     * Clipping, depth testing, culling and edge precision behave as in fillFlatScanline().
+     * 
+     * @param triangle - Triangle to rasterise (screen space)
+     * @param colors - Vertex colours, in the order of triangle.a, triangle.b and triangle.c
+     * @param clip - Whether to apply clipping using this Blitter's clip region (default: false)
+     * @param backbuffer - Optional target buffer (default: this.backbuffer32)
+     */
+    public fillGouraudScanline(triangle: Triangle2D, colors: [Color4, Color4, Color4], clip: boolean = false, backbuffer: Uint32Array = this.backbuffer32): void {
+        if (!this.accept(triangle)) return;
+
+        return fillGouraudScanline(this, triangle, colors, clip, backbuffer);
+    }
+
+    /**
+     * Fills a 2D triangle using scanline rasterisation and per-pixel (Phong) lighting.
+     * 
+     * This method wraps the global fillPhongScanline() function and passes the current Blitter instance.
+     * World-space positions and normals are interpolated from the ScreenVertex inputs of the vertex
+     * pipeline (with pipeline.worldAttributes enabled) and lit per pixel; triangles without them are skipped.
+     * Clipping, depth testing, culling and edge precision behave as in fillFlatScanline().
+     * 
+     * @param triangle - Triangle to rasterise (from Pipeline.transformTriangle())
+     * @param lighting - Lights and eye position
+     * @param material - Surface reflectance
+     * @param clip - Whether to apply clipping using this Blitter's clip region (default: false)
+     * @param backbuffer - Optional target buffer (default: this.backbuffer32)
+     */
+    public fillPhongScanline(triangle: Triangle2D, lighting: Lighting, material: LitMaterial, clip: boolean = false, backbuffer: Uint32Array = this.backbuffer32): void {
+        if (!this.accept(triangle)) return;
+
+        return fillPhongScanline(this, triangle, lighting, material, clip, backbuffer);
+    }
+
+    /**
+     * Fills a 2D triangle using scanline rasterisation and texture mapping.
+     * 
+     * This method wraps the global fillTextureScanline() function and passes the current Blitter instance.
+     * Perspective-correct mapping needs ScreenVertex inputs (1/w); for plain 2D points both modes match.
+     * Clipping, depth testing, culling and edge precision behave as in fillFlatScanline().
+     * 
+     * @param triangle - Triangle to rasterise (screen space)
+     * @param texture - Texture to sample (wrap mode is taken from the texture)
+     * @param uvs - Texture coordinates, in the order of triangle.a, triangle.b and triangle.c
+     * @param mapping - "affine" or "perspective" (default: "perspective")
+     * @param clip - Whether to apply clipping using this Blitter's clip region (default: false)
      * @param backbuffer - Optional target buffer (default: this.backbuffer32)
      */
-    public fillFlatScanline(triangle: Triangle2D, color: Color4, backbuffer: Uint32Array = this.backbuffer32): void {
-        return fillFlatScanline(this, triangle, color, backbuffer);
+    public fillTextureScanline(triangle: Triangle2D, texture: Texture, uvs: [TextureCoordinate, TextureCoordinate, TextureCoordinate], mapping: TextureMapping = "perspective", clip: boolean = false, backbuffer: Uint32Array = this.backbuffer32): void {
+        if (!this.accept(triangle)) return;
+
+        return fillTextureScanline(this, triangle, texture, uvs, mapping, clip, backbuffer);
+    }
+
+    /**
+     * Fills a polygon (one or more contours) using an active edge table and a flat colour.
+     * 
+     * This method wraps the global fillPolygonScanline() function and passes the current Blitter instance.
+     * Concave polygons, self-intersections and holes are handled by the fill rule.
+     * Clipping and blending behave as in fillFlatScanline(); there is no depth test or culling.
+     * 
+     * @param polygon - Polygon to fill
+     * @param color - Fill colour
+     * @param rule - Fill rule: "even-odd" or "non-zero" (default: "non-zero")
+     * @param clip - Whether to apply clipping using this Blitter's clip region (default: false)
+     * @param backbuffer - Optional target buffer (default: this.backbuffer32)
+     */
+    public fillPolygonScanline(polygon: Polygon2D, color: Color4, rule: FillRule = "non-zero", clip: boolean = false, backbuffer: Uint32Array = this.backbuffer32): void {
+        return fillPolygonScanline(this, polygon, color, rule, clip, backbuffer);
+    }
+
+    /**
+     * Applies the cull mode to a triangle and updates the draw statistics.
+     *
+     * @param triangle - Triangle in screen space
+     * @returns True if the triangle should be rasterised
+     */
+    private accept(triangle: Triangle2D): boolean {
+        this.statistics.submitted++;
+
+        if (isCulled(triangle, this.cull)) {
+            this.statistics.culled++;
+            return false;
+        }
+
+        this.statistics.drawn++;
+        return true;
+    }
+
+    /**
+     * Serialises the backbuffer to a PNG file (8-bit RGBA, alpha preserved).
+     * 
+     * Self-contained encoder – works without a DOM, e.g. on the memory surface.
+     * 
+     * @param backbuffer - Optional source buffer (default: this.backbuffer32)
+     * @returns The PNG file contents
+     */
+    public toPNG(backbuffer: Uint32Array = this.backbuffer32): Uint8Array {
+        return encodePNG(this.width, this.height, backbuffer);
+    }
+
+    /**
+     * Serialises the backbuffer to a binary PPM (P6) file. Alpha is discarded.
+     * 
+     * @param backbuffer - Optional source buffer (default: this.backbuffer32)
+     * @returns The PPM file contents
+     */
+    public toPPM(backbuffer: Uint32Array = this.backbuffer32): Uint8Array {
+        return encodePPM(this.width, this.height, backbuffer);
+    }
+
+    /**
+     * Serialises the backbuffer to an uncompressed 32-bit BMP file (alpha preserved).
+     * 
+     * @param backbuffer - Optional source buffer (default: this.backbuffer32)
+     * @returns The BMP file contents
+     */
+    public toBMP(backbuffer: Uint32Array = this.backbuffer32): Uint8Array {
+        return encodeBMP(this.width, this.height, backbuffer);
+    }
+
+    /**
+     * Serialises the indexed framebuffer and palette to an 8-bit palettised PNG file.
+     * 
+     * @returns The PNG file contents
+     */
+    public toIndexedPNG(): Uint8Array {
+        if (!this.indexed) throw new Error("Blitter: indexed mode is not enabled");
+
+        return encodeIndexedPNG(this.width, this.height, this.indexed, this.palette.toAABBGGRR());
+    }
+
+    /**
+     * Serialises the indexed framebuffer and palette to an 8-bit BMP file (palette alpha is lost).
+     * 
+     * @returns The BMP file contents
+     */
+    public toIndexedBMP(): Uint8Array {
+        if (!this.indexed) throw new Error("Blitter: indexed mode is not enabled");
+
+        return encodeIndexedBMP(this.width, this.height, this.indexed, this.palette.toAABBGGRR());
     }
 }
\ No newline at end of file
@@ -0,0 +1,178 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: bezier.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Provides quadratic and cubic Bézier curves, rasterised by adaptive subdivision into
+ *   the line drawers of line.ts.
+ *
+ *   Adaptive subdivision (de Casteljau):
+ *     - A curve is flat enough when every control point lies within FLATNESS pixels of
+ *       the chord between its end points; it is then drawn as that chord
+ *     - Otherwise it is split at t = 1/2 into two halves, each of which is tested again
+ *     - Tight bends get many short segments, straight stretches a single long one
+ *
+ *   The segments are drawn with the selected line algorithm ("bresenham", "dda" or "wu"):
+ *     - Bresenham and DDA segments are clipped with clipLineLiangBarsky() and walked with
+ *       walkLineBresenham() / walkLineDDA(); a pixel shared by two consecutive segments
+ *       is written once, so translucent curves have no darker joints
+ *     - Wu segments go through drawLineWu(), which weights its end pixels by how much of
+ *       them the segment covers (segments shorter than a pixel by their length), so the
+ *       pieces meeting in a joint pixel add up to one pixel
+ *
+ *   Pixels are always limited to the canvas; with clip enabled also to blitter.clipping.
+ *   Writes go through blitter.blend.
+ */
+import { Blitter } from "../blitter.js";
+import { Color4 } from "../color/color4.js";
+import { clipLineLiangBarsky } from "../geometry/clip.js";
+import { Point2D } from "../geometry/point2d.js";
+import { BlendFunction, blendFunctionOf } from "./blend.js";
+import { Clipping } from "./clipping.js";
+import { drawLineWu, PixelVisitor, walkLineBresenham, walkLineDDA } from "./line.js";
+
+/**
+ * Line drawers available for curves.
+ */
+export type LineAlgorithm = "bresenham" | "dda" | "wu";
+
+// Largest distance (in pixels) of a control point from the chord of a flat piece
+const FLATNESS: number = 0.25;
+
+// Subdivision depth limit (at most 2^MAX_DEPTH segments per curve)
+const MAX_DEPTH: number = 12;
+
+/**
+ * Draws a quadratic Bézier curve.
+ *
+ * @param blitter - The drawing surface
+ * @param p0 - Start point
+ * @param p1 - Control point
+ * @param p2 - End point
+ * @param color - Curve colour
+ * @param algorithm - Line drawer for the segments
+ * @param clip - Whether to apply clipping using the blitter's clip region
+ * @param backbuffer - The 32-bit backbuffer to write to
+ */
+export function drawQuadraticBezier(blitter: Blitter, p0: Point2D, p1: Point2D, p2: Point2D, color: Color4, algorithm: LineAlgorithm, clip: boolean, backbuffer: Uint32Array): void {
+    // A quadratic curve is the cubic with control points 2/3 of the way to its control point
+    const c1: Point2D = new Point2D(p0.x + (p1.x - p0.x) * 2 / 3, p0.y + (p1.y - p0.y) * 2 / 3);
+    const c2: Point2D = new Point2D(p2.x + (p1.x - p2.x) * 2 / 3, p2.y + (p1.y - p2.y) * 2 / 3);
+
+    drawCubicBezier(blitter, p0, c1, c2, p2, color, algorithm, clip, backbuffer);
+}
+
+/**
+ * Draws a cubic Bézier curve.
+ *
+ * @param blitter - The drawing surface
+ * @param p0 - Start point
+ * @param p1 - First control point
+ * @param p2 - Second control point
+ * @param p3 - End point
+ * @param color - Curve colour
+ * @param algorithm - Line drawer for the segments
+ * @param clip - Whether to apply clipping using the blitter's clip region
+ * @param backbuffer - The 32-bit backbuffer to write to
+ */
+export function drawCubicBezier(blitter: Blitter, p0: Point2D, p1: Point2D, p2: Point2D, p3: Point2D, color: Color4, algorithm: LineAlgorithm, clip: boolean, backbuffer: Uint32Array): void {
+    const points: Point2D[] = [p0];
+
+    subdivide(p0, p1, p2, p3, 0, points);
+
+    if (algorithm === "wu") {
+        for (let i: number = 0; i < points.length - 1; i++) {
+            drawLineWu(blitter, points[i], points[i + 1], color, clip, backbuffer);
+        }
+        return;
+    }
+
+    const walk: (a: Point2D, b: Point2D, visit: PixelVisitor) => void = algorithm === "dda" ? walkLineDDA : walkLineBresenham;
+
+    // Visible region (max exclusive): the canvas, narrowed to blitter.clipping when clip is set
+    const minX: number = clip ? Math.max(0, blitter.clipping.minX) : 0;
+    const minY: number = clip ? Math.max(0, blitter.clipping.minY) : 0;
+    const maxX: number = clip ? Math.min(blitter.width, blitter.clipping.maxX) : blitter.width;
+    const maxY: number = clip ? Math.min(blitter.height, blitter.clipping.maxY) : blitter.height;
+    const visible: Clipping = new Clipping(minX, minY, maxX, maxY);
+
+    const blend: BlendFunction | null = blendFunctionOf(blitter.blend);
+    const packed: number = color.toAABBGGRR();
+
+    // Last pixel of the previous segment, skipped when the next segment starts on it
+    let lastX: number = NaN, lastY: number = NaN;
+    let first: boolean = true;
+
+    const visit: PixelVisitor = (x, y) => {
+        const joint: boolean = first && x === lastX && y === lastY;
+        first = false;
+        lastX = x;
+        lastY = y;
+
+        // Rounding in the clipped end points can still land a pixel just outside
+        if (joint || x < minX || x >= maxX || y < minY || y >= maxY) return;
+
+        const position: number = y * blitter.width + x;
+        backbuffer[position] = blend ? blend(packed, backbuffer[position]) : packed;
+    };
+
+    for (let i: number = 0; i < points.length - 1; i++) {
+        const clipped: { a: Point2D; b: Point2D } | null = clipLineLiangBarsky(points[i], points[i + 1], visible);
+
+        // Segment entirely outside
+        if (!clipped) continue;
+
+        first = true;
+        walk(clipped.a, clipped.b, visit);
+    }
+}
+
+/**
+ * Appends the end points of the flat pieces of a cubic curve (the start point excluded).
+ */
+function subdivide(p0: Point2D, p1: Point2D, p2: Point2D, p3: Point2D, depth: number, points: Point2D[]): void {
+    if (depth >= MAX_DEPTH || isFlat(p0, p1, p2, p3)) {
+        points.push(p3);
+        return;
+    }
+
+    // de Casteljau at t = 1/2
+    const p01: Point2D = midpoint(p0, p1);
+    const p12: Point2D = midpoint(p1, p2);
+    const p23: Point2D = midpoint(p2, p3);
+    const p012: Point2D = midpoint(p01, p12);
+    const p123: Point2D = midpoint(p12, p23);
+    const center: Point2D = midpoint(p012, p123);
+
+    subdivide(p0, p01, p012, center, depth + 1, points);
+    subdivide(center, p123, p23, p3, depth + 1, points);
+}
+
+/**
+ * Checks whether both control points lie within FLATNESS of the chord p0 → p3.
+ */
+function isFlat(p0: Point2D, p1: Point2D, p2: Point2D, p3: Point2D): boolean {
+    const dx: number = p3.x - p0.x;
+    const dy: number = p3.y - p0.y;
+    const length: number = Math.hypot(dx, dy);
+
+    // Closed loop or point: measure the distance to p0 instead
+    if (length < 1e-9) {
+        return Math.hypot(p1.x - p0.x, p1.y - p0.y) <= FLATNESS && Math.hypot(p2.x - p0.x, p2.y - p0.y) <= FLATNESS;
+    }
+
+    // Distance to the chord's line: |cross(chord, p - p0)| / |chord|
+    const d1: number = Math.abs(dx * (p1.y - p0.y) - dy * (p1.x - p0.x));
+    const d2: number = Math.abs(dx * (p2.y - p0.y) - dy * (p2.x - p0.x));
+
+    return Math.max(d1, d2) <= FLATNESS * length;
+}
+
+/**
+ * Returns the point halfway between a and b.
+ */
+function midpoint(a: Point2D, b: Point2D): Point2D {
+    return new Point2D((a.x + b.x) / 2, (a.y + b.y) / 2);
+}
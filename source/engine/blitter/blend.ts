@@ -0,0 +1,160 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: blend.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Blend modes for pixel writes. Every function combines a source colour with the colour
+ *   already in the backbuffer, both packed as 32-bit AABBGGRR, using integer arithmetic only.
+ *
+ *   Modes (s = source, d = destination, a = source alpha / 255, per channel):
+ *     - replace:       s                              (no blending, the default)
+ *     - alpha:         s · a + d · (1 - a)            (source-over)
+ *     - premultiplied: s + d · (1 - a)                (source colour already multiplied by alpha)
+ *     - additive:      d + s · a                      (saturating; glows, particles)
+ *     - multiply:      d · s, mixed in by a           (darkens; shadows, tinted glass)
+ *     - screen:        1 - (1 - d) · (1 - s), mixed in by a   (lightens)
+ *
+ *   Resulting alpha is a + d_alpha · (1 - a) for all modes except replace and additive
+ *   (which saturates d_alpha + a).
+ *
+ *   Division by 255 uses the exact rounding identity
+ *     x / 255 ≈ (x + 128 + ((x + 128) >> 8)) >> 8   for x in [0, 255 · 255]
+ *   and source-over blends red and blue in parallel (16 bits apart in one integer).
+ */
+
+/**
+ * Blend modes for pixels, lines and triangles.
+ */
+export type BlendMode = "replace" | "alpha" | "additive" | "multiply" | "screen" | "premultiplied";
+
+/**
+ * Combines a packed source colour with a packed destination colour.
+ */
+export type BlendFunction = (source: number, destination: number) => number;
+
+/**
+ * Returns the blend function of a mode, or null for "replace" (plain writes are faster).
+ *
+ * @param mode - Blend mode
+ */
+export function blendFunctionOf(mode: BlendMode): BlendFunction | null {
+    switch (mode) {
+        case "alpha": return blendAlpha;
+        case "additive": return blendAdditive;
+        case "multiply": return blendMultiply;
+        case "screen": return blendScreen;
+        case "premultiplied": return blendPremultiplied;
+        default: return null;
+    }
+}
+
+/**
+ * Source-over blending: s · a + d · (1 - a).
+ */
+export function blendAlpha(source: number, destination: number): number {
+    const alpha: number = source >>> 24;
+
+    if (alpha === 255) return source >>> 0;
+    if (alpha === 0) return destination >>> 0;
+
+    const inverse: number = 255 - alpha;
+
+    // Red and blue in parallel: each channel sum stays below 2^16, so no carries cross over
+    let redBlue: number = (source & 0xff00ff) * alpha + (destination & 0xff00ff) * inverse + 0x800080;
+    redBlue = ((redBlue + ((redBlue >>> 8) & 0xff00ff)) >>> 8) & 0xff00ff;
+
+    const green: number = divide255(((source >>> 8) & 0xff) * alpha + ((destination >>> 8) & 0xff) * inverse);
+    const outAlpha: number = alpha + divide255((destination >>> 24) * inverse);
+
+    return ((outAlpha << 24) | (green << 8) | redBlue) >>> 0;
+}
+
+/**
+ * Premultiplied source-over blending: s + d · (1 - a), saturating.
+ */
+export function blendPremultiplied(source: number, destination: number): number {
+    const inverse: number = 255 - (source >>> 24);
+
+    return combine(source, destination, (s, d) => Math.min(255, s + divide255(d * inverse)), true);
+}
+
+/**
+ * Additive blending: d + s · a, saturating. Alpha saturates as d_alpha + a.
+ */
+export function blendAdditive(source: number, destination: number): number {
+    const alpha: number = source >>> 24;
+
+    const red: number = Math.min(255, (destination & 0xff) + divide255((source & 0xff) * alpha));
+    const green: number = Math.min(255, ((destination >>> 8) & 0xff) + divide255(((source >>> 8) & 0xff) * alpha));
+    const blue: number = Math.min(255, ((destination >>> 16) & 0xff) + divide255(((source >>> 16) & 0xff) * alpha));
+    const outAlpha: number = Math.min(255, (destination >>> 24) + alpha);
+
+    return ((outAlpha << 24) | (blue << 16) | (green << 8) | red) >>> 0;
+}
+
+/**
+ * Multiply blending: d · s, mixed into the destination by the source alpha.
+ */
+export function blendMultiply(source: number, destination: number): number {
+    return mix(source, destination, (s, d) => divide255(s * d));
+}
+
+/**
+ * Screen blending: 1 - (1 - d) · (1 - s), mixed into the destination by the source alpha.
+ */
+export function blendScreen(source: number, destination: number): number {
+    return mix(source, destination, (s, d) => 255 - divide255((255 - s) * (255 - d)));
+}
+
+/**
+ * Scales a packed colour by a coverage in 0–1: the alpha only, or all channels for
+ * premultiplied colours.
+ */
+export function scaleCoverage(color: number, coverage: number, premultiplied: boolean): number {
+    const weight: number = Math.round(coverage * 256);
+
+    if (!premultiplied) {
+        return (((((color >>> 24) * weight) >> 8) << 24) | (color & 0xffffff)) >>> 0;
+    }
+
+    const redBlue: number = (((color & 0xff00ff) * weight) >>> 8) & 0xff00ff;
+    const greenAlpha: number = (((color >>> 8) & 0xff00ff) * weight) & 0xff00ff00;
+
+    return (redBlue | greenAlpha) >>> 0;
+}
+
+/**
+ * Divides x in [0, 255 · 255] by 255 with rounding, without a division.
+ */
+function divide255(x: number): number {
+    x += 128;
+    return (x + (x >> 8)) >> 8;
+}
+
+/**
+ * Applies a channel operation to a blended colour and mixes it over the destination
+ * by the source alpha (source-over of the blended colour).
+ */
+function mix(source: number, destination: number, operation: (s: number, d: number) => number): number {
+    const alpha: number = source >>> 24;
+    const inverse: number = 255 - alpha;
+
+    return combine(source, destination, (s, d) => divide255(operation(s, d) * alpha + d * inverse), false);
+}
+
+/**
+ * Runs a channel operation over red, green and blue (and alpha when requested; otherwise
+ * the alpha of source-over is used).
+ */
+function combine(source: number, destination: number, operation: (s: number, d: number) => number, alphaChannel: boolean): number {
+    const alpha: number = source >>> 24;
+
+    const red: number = operation(source & 0xff, destination & 0xff);
+    const green: number = operation((source >>> 8) & 0xff, (destination >>> 8) & 0xff);
+    const blue: number = operation((source >>> 16) & 0xff, (destination >>> 16) & 0xff);
+    const outAlpha: number = alphaChannel ? operation(alpha, destination >>> 24) : alpha + divide255((destination >>> 24) * (255 - alpha));
+
+    return ((outAlpha << 24) | (blue << 16) | (green << 8) | red) >>> 0;
+}
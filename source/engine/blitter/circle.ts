@@ -0,0 +1,322 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: circle.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Provides circle, ellipse and arc rasterisation using the midpoint algorithms.
+ *
+ *   Midpoint circle:
+ *     - Walks one octant with an integer decision variable, stepping x every pixel and
+ *       y whenever the midpoint between the two candidate pixels falls outside the circle
+ *     - The other seven octants follow by symmetry
+ *
+ *   Midpoint ellipse:
+ *     - Two regions: where the slope is shallower than -1, x steps every pixel; beyond it,
+ *       y steps every pixel. Decision variables are integers for integer radii
+ *     - The other three quadrants follow by symmetry
+ *
+ *   Arcs are the circle outline restricted to an angle range. Angles are in radians from
+ *   the +x axis and grow clockwise on screen (y points down), as Math.atan2(y, x) does.
+ *
+ *   Centres and radii are rounded to whole pixels. Every pixel is written exactly once
+ *   (symmetric points on the axes and diagonals are not duplicated, filled shapes are
+ *   written one span per row), so translucent blend modes give an even result.
+ *
+ *   Pixels are always limited to the canvas; with clip enabled also to blitter.clipping.
+ *   Writes go through blitter.blend.
+ */
+import { Blitter } from "../blitter.js";
+import { Color4 } from "../color/color4.js";
+import { Point2D } from "../geometry/point2d.js";
+import { BlendFunction, blendFunctionOf } from "./blend.js";
+
+/**
+ * Writes single pixels or horizontal spans inside the visible region.
+ */
+class Plotter {
+    private minX: number;
+    private minY: number;
+    private maxX: number;
+    private maxY: number;
+
+    private width: number;
+    private packed: number;
+    private blend: BlendFunction | null;
+    private backbuffer: Uint32Array;
+
+    public constructor(blitter: Blitter, color: Color4, clip: boolean, backbuffer: Uint32Array) {
+        this.minX = clip ? Math.max(0, blitter.clipping.minX) : 0;
+        this.minY = clip ? Math.max(0, blitter.clipping.minY) : 0;
+        this.maxX = clip ? Math.min(blitter.width, blitter.clipping.maxX) : blitter.width;
+        this.maxY = clip ? Math.min(blitter.height, blitter.clipping.maxY) : blitter.height;
+
+        this.width = blitter.width;
+        this.packed = color.toAABBGGRR();
+        this.blend = blendFunctionOf(blitter.blend);
+        this.backbuffer = backbuffer;
+    }
+
+    /**
+     * Writes the pixel at (x, y) if it is visible.
+     */
+    public pixel(x: number, y: number): void {
+        if (x < this.minX || x >= this.maxX || y < this.minY || y >= this.maxY) return;
+
+        const position: number = y * this.width + x;
+        this.backbuffer[position] = this.blend ? this.blend(this.packed, this.backbuffer[position]) : this.packed;
+    }
+
+    /**
+     * Writes the visible part of the span x0..x1 (inclusive) on row y.
+     */
+    public span(x0: number, x1: number, y: number): void {
+        if (y < this.minY || y >= this.maxY) return;
+
+        const start: number = y * this.width + Math.max(this.minX, x0);
+        const end: number = y * this.width + Math.min(this.maxX - 1, x1) + 1;
+
+        if (!this.blend) {
+            if (start < end) this.backbuffer.fill(this.packed, start, end);
+            return;
+        }
+
+        for (let position: number = start; position < end; position++) {
+            this.backbuffer[position] = this.blend(this.packed, this.backbuffer[position]);
+        }
+    }
+}
+
+/**
+ * Draws a circle outline using the midpoint circle algorithm.
+ *
+ * @param blitter - The drawing surface
+ * @param center - Circle centre (rounded to whole pixels)
+ * @param radius - Radius in pixels (rounded)
+ * @param color - Outline colour
+ * @param clip - Whether to apply clipping using the blitter's clip region
+ * @param backbuffer - The 32-bit backbuffer to write to
+ */
+export function drawCircle(blitter: Blitter, center: Point2D, radius: number, color: Color4, clip: boolean, backbuffer: Uint32Array): void {
+    const plotter: Plotter = new Plotter(blitter, color, clip, backbuffer);
+    const cx: number = Math.round(center.x);
+    const cy: number = Math.round(center.y);
+
+    walkCircle(Math.round(radius), (x, y) => plotter.pixel(cx + x, cy + y));
+}
+
+/**
+ * Draws an arc of a circle outline between two angles.
+ *
+ * @param blitter - The drawing surface
+ * @param center - Circle centre (rounded to whole pixels)
+ * @param radius - Radius in pixels (rounded)
+ * @param start - Start angle in radians (clockwise on screen from +x)
+ * @param end - End angle in radians; the arc runs clockwise from start to end
+ * @param color - Outline colour
+ * @param clip - Whether to apply clipping using the blitter's clip region
+ * @param backbuffer - The 32-bit backbuffer to write to
+ */
+export function drawArc(blitter: Blitter, center: Point2D, radius: number, start: number, end: number, color: Color4, clip: boolean, backbuffer: Uint32Array): void {
+    const plotter: Plotter = new Plotter(blitter, color, clip, backbuffer);
+    const cx: number = Math.round(center.x);
+    const cy: number = Math.round(center.y);
+
+    const full: number = Math.PI * 2;
+
+    // A sweep of a full turn or more is the whole circle
+    const sweep: number = end - start >= full ? full : ((end - start) % full + full) % full;
+    const origin: number = (start % full + full) % full;
+
+    walkCircle(Math.round(radius), (x, y) => {
+        const offset: number = ((Math.atan2(y, x) - origin) % full + full) % full;
+
+        if (offset <= sweep) plotter.pixel(cx + x, cy + y);
+    });
+}
+
+/**
+ * Fills a circle, one span per row.
+ *
+ * @param blitter - The drawing surface
+ * @param center - Circle centre (rounded to whole pixels)
+ * @param radius - Radius in pixels (rounded)
+ * @param color - Fill colour
+ * @param clip - Whether to apply clipping using the blitter's clip region
+ * @param backbuffer - The 32-bit backbuffer to write to
+ */
+export function fillCircle(blitter: Blitter, center: Point2D, radius: number, color: Color4, clip: boolean, backbuffer: Uint32Array): void {
+    const r: number = Math.round(radius);
+
+    if (r < 0) return;
+
+    // Half-width of every row, taken from the outline
+    const extents: Int32Array = new Int32Array(r + 1).fill(-1);
+
+    walkCircle(r, (x, y) => {
+        if (y >= 0 && x >= 0) extents[y] = Math.max(extents[y], x);
+    });
+
+    fillExtents(new Plotter(blitter, color, clip, backbuffer), Math.round(center.x), Math.round(center.y), extents);
+}
+
+/**
+ * Draws an axis-aligned ellipse outline using the midpoint ellipse algorithm.
+ *
+ * @param blitter - The drawing surface
+ * @param center - Ellipse centre (rounded to whole pixels)
+ * @param radiusX - Horizontal radius in pixels (rounded)
+ * @param radiusY - Vertical radius in pixels (rounded)
+ * @param color - Outline colour
+ * @param clip - Whether to apply clipping using the blitter's clip region
+ * @param backbuffer - The 32-bit backbuffer to write to
+ */
+export function drawEllipse(blitter: Blitter, center: Point2D, radiusX: number, radiusY: number, color: Color4, clip: boolean, backbuffer: Uint32Array): void {
+    const plotter: Plotter = new Plotter(blitter, color, clip, backbuffer);
+    const cx: number = Math.round(center.x);
+    const cy: number = Math.round(center.y);
+
+    walkEllipse(Math.round(radiusX), Math.round(radiusY), (x, y) => plotter.pixel(cx + x, cy + y));
+}
+
+/**
+ * Fills an axis-aligned ellipse, one span per row.
+ *
+ * @param blitter - The drawing surface
+ * @param center - Ellipse centre (rounded to whole pixels)
+ * @param radiusX - Horizontal radius in pixels (rounded)
+ * @param radiusY - Vertical radius in pixels (rounded)
+ * @param color - Fill colour
+ * @param clip - Whether to apply clipping using the blitter's clip region
+ * @param backbuffer - The 32-bit backbuffer to write to
+ */
+export function fillEllipse(blitter: Blitter, center: Point2D, radiusX: number, radiusY: number, color: Color4, clip: boolean, backbuffer: Uint32Array): void {
+    const rx: number = Math.round(radiusX);
+    const ry: number = Math.round(radiusY);
+
+    if (rx < 0 || ry < 0) return;
+
+    const extents: Int32Array = new Int32Array(ry + 1).fill(-1);
+
+    walkEllipse(rx, ry, (x, y) => {
+        if (y >= 0 && x >= 0) extents[y] = Math.max(extents[y], x);
+    });
+
+    fillExtents(new Plotter(blitter, color, clip, backbuffer), Math.round(center.x), Math.round(center.y), extents);
+}
+
+/**
+ * Visits every outline point of a circle around the origin exactly once.
+ */
+function walkCircle(radius: number, visit: (x: number, y: number) => void): void {
+    if (radius < 0) return;
+
+    if (radius === 0) {
+        visit(0, 0);
+        return;
+    }
+
+    let x: number = 0;
+    let y: number = radius;
+
+    // Decision variable: sign of the circle function at the next midpoint (scaled to integers)
+    let decision: number = 1 - radius;
+
+    while (x <= y) {
+        visitOctants(x, y, visit);
+
+        x++;
+
+        if (decision < 0) {
+            decision += 2 * x + 1;
+        } else {
+            y--;
+            decision += 2 * (x - y) + 1;
+        }
+    }
+}
+
+/**
+ * Visits the eight symmetric points of (x, y), skipping duplicates on the axes and diagonals.
+ */
+function visitOctants(x: number, y: number, visit: (x: number, y: number) => void): void {
+    visitQuadrants(x, y, visit);
+
+    if (x !== y) visitQuadrants(y, x, visit);
+}
+
+/**
+ * Visits the four symmetric points of (x, y), skipping duplicates on the axes.
+ */
+function visitQuadrants(x: number, y: number, visit: (x: number, y: number) => void): void {
+    visit(x, y);
+    if (x !== 0) visit(-x, y);
+    if (y !== 0) visit(x, -y);
+    if (x !== 0 && y !== 0) visit(-x, -y);
+}
+
+/**
+ * Visits every outline point of an ellipse around the origin exactly once.
+ */
+function walkEllipse(rx: number, ry: number, visit: (x: number, y: number) => void): void {
+    if (rx < 0 || ry < 0) return;
+
+    // Degenerate ellipses are lines along an axis
+    if (rx === 0 || ry === 0) {
+        for (let x: number = -rx; x <= rx; x++) {
+            for (let y: number = -ry; y <= ry; y++) visit(x, y);
+        }
+        return;
+    }
+
+    const rx2: number = rx * rx;
+    const ry2: number = ry * ry;
+
+    let x: number = 0;
+    let y: number = ry;
+
+    // Region 1: slope above -1, step x. Decision scaled by 4 to stay integer.
+    let decision: number = 4 * ry2 - 4 * rx2 * ry + rx2;
+
+    while (ry2 * x < rx2 * y) {
+        visitQuadrants(x, y, visit);
+
+        if (decision >= 0) {
+            y--;
+            decision -= 8 * rx2 * y;
+        }
+
+        x++;
+        decision += 4 * ry2 * (2 * x + 1);
+    }
+
+    // Region 2: slope below -1, step y. Decision at the midpoint (x + 1/2, y - 1), scaled by 4.
+    decision = ry2 * (2 * x + 1) * (2 * x + 1) + 4 * rx2 * (y - 1) * (y - 1) - 4 * rx2 * ry2;
+
+    while (y >= 0) {
+        visitQuadrants(x, y, visit);
+
+        if (decision <= 0) {
+            x++;
+            decision += 8 * ry2 * x;
+        }
+
+        y--;
+        decision += 4 * rx2 * (1 - 2 * y);
+    }
+}
+
+/**
+ * Fills the rows cy - n .. cy + n from the half-width of each row offset.
+ */
+function fillExtents(plotter: Plotter, cx: number, cy: number, extents: Int32Array): void {
+    for (let dy: number = 0; dy < extents.length; dy++) {
+        const half: number = extents[dy];
+
+        if (half < 0) continue;
+
+        plotter.span(cx - half, cx + half, cy + dy);
+        if (dy !== 0) plotter.span(cx - half, cx + half, cy - dy);
+    }
+}
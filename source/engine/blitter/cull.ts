@@ -0,0 +1,39 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: cull.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Screen-space face culling for the Blitter's triangle rasterisers.
+ *
+ *   The test runs on the projected triangle, so it works for any projection:
+ *     - "none" draws every triangle
+ *     - "cw" skips triangles that run clockwise on screen
+ *     - "ccw" skips triangles that run counter-clockwise on screen
+ *
+ *   Projection keeps the winding as seen by the viewer: meshes with counter-clockwise front
+ *   faces (OBJ, OpenGL convention) stay counter-clockwise on screen, so their back faces
+ *   are culled with "cw".
+ *   With culling enabled, degenerate (zero-area) triangles are skipped as well.
+ */
+import { Triangle2D, Winding } from "../geometry/triangle2d.js";
+
+/**
+ * Which screen-space winding to skip.
+ */
+export type CullMode = "none" | "cw" | "ccw";
+
+/**
+ * Checks whether a triangle is culled by the given mode.
+ *
+ * @param triangle - Triangle in screen space
+ * @param mode - Cull mode
+ */
+export function isCulled(triangle: Triangle2D, mode: CullMode): boolean {
+    if (mode === "none") return false;
+
+    const winding: Winding = triangle.winding();
+
+    return winding === mode || winding === "degenerate";
+}
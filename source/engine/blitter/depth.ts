@@ -0,0 +1,91 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: depth.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Defines the DepthBuffer class (z-buffer) owned by the Blitter.
+ *
+ *   Stores one Float32 depth value per pixel, in the same linear layout as the
+ *   colour backbuffer (index = y * width + x). Depth values come from the screen-space
+ *   z of the vertex pipeline, where 0 is the near plane and 1 is the far plane.
+ *
+ *   Rasterisers call test() once per pixel. It compares the incoming depth with the
+ *   stored one using the configured compare function and, if the test passes and depth
+ *   writes are enabled, stores the new value.
+ *
+ *   Depth testing is disabled by default so 2D drawing is unaffected.
+ */
+
+/**
+ * Depth compare functions (incoming compared against stored).
+ */
+export type DepthCompare = "less" | "lequal" | "greater" | "always";
+
+interface DepthBufferParameters {
+    enabled?: boolean;        // Whether rasterisers perform depth testing (default: false)
+    compare?: DepthCompare;   // Compare function (default: "less")
+    write?: boolean;          // Whether passing fragments write their depth (default: true)
+    clearValue?: number;      // Value used by clear() (default: 1, the far plane)
+}
+
+export class DepthBuffer {
+    public buffer: Float32Array;
+
+    public enabled: boolean;
+    public compare: DepthCompare;
+    public write: boolean;
+    public clearValue: number;
+
+    /**
+     * Allocates a depth buffer and fills it with the clear value.
+     *
+     * @param width - Buffer width in pixels
+     * @param height - Buffer height in pixels
+     * @param params - Optional depth state
+     */
+    public constructor(width: number, height: number, { enabled = false, compare = "less", write = true, clearValue = 1 }: DepthBufferParameters = {}) {
+        this.buffer = new Float32Array(width * height);
+        this.enabled = enabled;
+        this.compare = compare;
+        this.write = write;
+        this.clearValue = clearValue;
+
+        this.clear();
+    }
+
+    /**
+     * Fills the depth buffer with a value.
+     *
+     * @param value - Optional depth to clear with (defaults to this.clearValue)
+     */
+    public clear(value: number = this.clearValue): void {
+        this.buffer.fill(value);
+    }
+
+    /**
+     * Performs the depth test for one pixel and writes the depth if it passes.
+     *
+     * @param index - Linear pixel index (y * width + x)
+     * @param z - Incoming depth
+     * @returns true if the pixel should be drawn
+     */
+    public test(index: number, z: number): boolean {
+        const stored: number = this.buffer[index];
+        let passed: boolean;
+
+        switch (this.compare) {
+            case "less":    passed = z < stored;  break;
+            case "lequal":  passed = z <= stored; break;
+            case "greater": passed = z > stored;  break;
+            case "always":  passed = true;        break;
+        }
+
+        if (passed && this.write) {
+            this.buffer[index] = z;
+        }
+
+        return passed;
+    }
+}
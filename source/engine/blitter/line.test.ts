@@ -0,0 +1,92 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: line.test.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Unit tests for the anti-aliased line drawer.
+ *
+ *   Lines are drawn into an in-memory blitter. The backbuffer is wrapped in a Proxy that
+ *   counts writes per pixel, so double blending shows up even where colours would hide it.
+ *   Run with scripts/test.mjs after compiling.
+ */
+import { Blitter } from "../blitter.js";
+import { Color4 } from "../color/color4.js";
+import { Point2D } from "../geometry/point2d.js";
+import { drawLineWu } from "./line.js";
+
+const WIDTH: number = 16;
+const HEIGHT: number = 16;
+
+/**
+ * Named test functions; each throws an Error on failure.
+ */
+export const tests: { [name: string]: () => void } = {
+    "drawLineWu sub-pixel segment": () => {
+        const { blitter, backbuffer, writes } = setup();
+
+        // Both ends round to column 5: one pixel, covered 0.2 (not 0.4 + 0.8)
+        drawLineWu(blitter, new Point2D(5.1, 8), new Point2D(5.3, 8), Color4.white, false, backbuffer);
+
+        expect(writes[8 * WIDTH + 5] === 1, `pixel (5, 8) blended ${writes[8 * WIDTH + 5]} times`);
+        expectWritesAtMostOnce(writes);
+
+        const alpha: number = backbuffer[8 * WIDTH + 5] >>> 24;
+        expect(Math.abs(alpha - 0.2 * 255) <= 1, `expected alpha of about 51, got ${alpha}`);
+    },
+
+    "drawLineWu steep sub-pixel segment": () => {
+        const { blitter, backbuffer, writes } = setup();
+
+        drawLineWu(blitter, new Point2D(8, 3.2), new Point2D(8, 3.4), Color4.white, false, backbuffer);
+
+        expect(writes[3 * WIDTH + 8] === 1, `pixel (8, 3) blended ${writes[3 * WIDTH + 8]} times`);
+        expectWritesAtMostOnce(writes);
+    },
+
+    "drawLineWu long segment": () => {
+        const { blitter, backbuffer, writes } = setup();
+
+        drawLineWu(blitter, new Point2D(1.5, 2.25), new Point2D(12.5, 6.75), Color4.white, false, backbuffer);
+
+        expectWritesAtMostOnce(writes);
+    }
+};
+
+/**
+ * Creates a cleared in-memory blitter and a write-counting view of its backbuffer.
+ */
+function setup(): { blitter: Blitter, backbuffer: Uint32Array, writes: Uint8Array } {
+    const blitter: Blitter = Blitter.getInstance();
+    blitter.create({ width: WIDTH, height: HEIGHT, target: "memory" });
+    blitter.blend = "replace";
+    blitter.backbuffer.fill(0);
+
+    const writes: Uint8Array = new Uint8Array(WIDTH * HEIGHT);
+    const backbuffer: Uint32Array = new Proxy(blitter.backbuffer, {
+        set: (target: Uint32Array, key: PropertyKey, value: number): boolean => {
+            writes[Number(key)]++;
+            target[Number(key)] = value;
+            return true;
+        }
+    });
+
+    return { blitter, backbuffer, writes };
+}
+
+/**
+ * Throws unless the condition holds.
+ */
+function expect(condition: boolean, message: string): void {
+    if (!condition) throw new Error(message);
+}
+
+/**
+ * Throws when any pixel was written more than once.
+ */
+function expectWritesAtMostOnce(writes: Uint8Array): void {
+    for (let i: number = 0; i < writes.length; i++) {
+        expect(writes[i] <= 1, `pixel (${i % WIDTH}, ${Math.floor(i / WIDTH)}) blended ${writes[i]} times`);
+    }
+}
@@ -18,6 +18,15 @@
  *     - More efficient and precise for exact pixel rendering
  *     - Handles all octants and line directions
  *
+ *   Xiaolin Wu:
+ *     - Anti-aliased: two pixels per step, weighted by the distance to the ideal line
+ *     - Coverage is blended against the destination (source-over under "replace", or the
+ *       active blitter.blend mode with the alpha scaled by coverage)
+ *     - Thick lines with caps and joins are in stroke.ts
+ *
+ *   walkLineBresenham() and walkLineDDA() produce the pixel sequence of the first two
+ *   through a callback, for callers that write pixels themselves (see bezier.ts).
+ *
  *   These implementations serve as a foundation for future features such as:
  *     - Line clipping (Liang-Barsky, Cohen-Sutherland)
  *     - Triangle rasterisation
@@ -25,6 +34,7 @@
  */
 import { Blitter } from "../blitter.js";
 import { Color4 } from "../color/color4.js";
+import { blendAlpha, BlendFunction, blendFunctionOf, scaleCoverage } from "./blend.js";
 import { clipLineLiangBarsky } from "../geometry/clip.js";
 import { Point2D } from "../geometry/point2d.js";
 
@@ -52,6 +62,160 @@ export function drawLineBresenham(blitter: Blitter, a: Point2D, b: Point2D, colo
         b = clipped.b;
     }
 
+    walkLineBresenham(a, b, (x, y) => blitter.setPixel(x, y, color, false, backbuffer));
+}
+
+/**
+ * Draws a line between two points using the DDA (Digital Differential Analyzer) algorithm.
+ * 
+ * This algorithm works by determining the axis with the greatest distance (dx or dy),
+ * calculating how many steps are needed to traverse from point A to point B, and then
+ * incrementing the position along both axes by a small delta per step.
+ * 
+ * Example:
+ *   If dx = 100 and dy = 50, then 100 steps are used.
+ *   Each step moves x by 1.0 and y by 0.5.
+ * 
+ * @param blitter - The drawing surface
+ * @param a - Start point (Point2D)
+ * @param b - End point (Point2D)
+ * @param color - Colour to draw the line
+ * @param clip - Whether to apply clipping using the blitter's clip region
+ * @param backbuffer - Optional backbuffer to draw into (defaults to blitter's internal buffer)
+ */
+export function drawLineDDA(blitter: Blitter, a: Point2D, b: Point2D, color: Color4, clip: boolean, backbuffer: Uint32Array): void {
+    if (clip) {
+        const clipped: { a: Point2D; b: Point2D } | null = clipLineLiangBarsky(a, b, blitter.clipping);
+
+        // Check if line is completelly outside
+        if (!clipped) return;
+
+        a = clipped.a;
+        b = clipped.b;
+    }
+
+    walkLineDDA(a, b, (x, y) => blitter.setPixel(x, y, color, false, backbuffer));
+}
+
+/**
+ * Draws an anti-aliased line between two points using Xiaolin Wu's algorithm.
+ * 
+ * The line is walked along its major axis; at every step the two pixels straddling the
+ * ideal line share the coverage according to their distance from it. The end points are
+ * weighted by how much of their pixel the line covers, so sub-pixel positions are visible;
+ * a line shorter than a pixel (both ends in one column) gets one end pixel, weighted by its
+ * length. Pixel centres are at integer coordinates.
+ * 
+ * @param blitter - The drawing surface
+ * @param a - Start point (Point2D)
+ * @param b - End point (Point2D)
+ * @param color - Colour to draw the line (its alpha is multiplied with the coverage)
+ * @param clip - Whether to apply clipping using the blitter's clip region
+ * @param backbuffer - Optional backbuffer to draw into (defaults to blitter's internal buffer)
+ */
+export function drawLineWu(blitter: Blitter, a: Point2D, b: Point2D, color: Color4, clip: boolean, backbuffer: Uint32Array): void {
+    if (clip) {
+        const clipped: { a: Point2D; b: Point2D } | null = clipLineLiangBarsky(a, b, blitter.clipping);
+
+        // Check if line is completelly outside
+        if (!clipped) return;
+
+        a = clipped.a;
+        b = clipped.b;
+    }
+
+    // The neighbouring pixel may fall outside the clipped line, so pixels are tested as well
+    const bounds: Bounds = {
+        minX: clip ? Math.max(0, blitter.clipping.minX) : 0,
+        minY: clip ? Math.max(0, blitter.clipping.minY) : 0,
+        maxX: clip ? Math.min(blitter.width, blitter.clipping.maxX) : blitter.width,
+        maxY: clip ? Math.min(blitter.height, blitter.clipping.maxY) : blitter.height
+    };
+
+    const blend: BlendFunction = blendFunctionOf(blitter.blend) ?? blendAlpha;
+    const premultiplied: boolean = blitter.blend === "premultiplied";
+    const packed: number = color.toAABBGGRR();
+
+    let x0: number = a.x, y0: number = a.y;
+    let x1: number = b.x, y1: number = b.y;
+
+    // Walk along x; steep lines are handled with x and y swapped
+    const steep: boolean = Math.abs(y1 - y0) > Math.abs(x1 - x0);
+
+    if (steep) {
+        [x0, y0] = [y0, x0];
+        [x1, y1] = [y1, x1];
+    }
+
+    if (x0 > x1) {
+        [x0, x1] = [x1, x0];
+        [y0, y1] = [y1, y0];
+    }
+
+    const gradient: number = x1 - x0 === 0 ? 1 : (y1 - y0) / (x1 - x0);
+
+    const plot = (x: number, y: number, coverage: number): void => {
+        if (steep) [x, y] = [y, x];
+
+        if (coverage <= 0 || x < bounds.minX || x >= bounds.maxX || y < bounds.minY || y >= bounds.maxY) return;
+
+        const position: number = y * blitter.width + x;
+        backbuffer[position] = blend(scaleCoverage(packed, coverage, premultiplied), backbuffer[position]);
+    };
+
+    // Both end points in one column: a single end pixel, weighted by the segment's length
+    if (Math.round(x0) === Math.round(x1)) {
+        const y: number = y0 + gradient * (Math.round(x0) - x0);
+
+        plot(Math.round(x0), Math.floor(y), (1 - fraction(y)) * (x1 - x0));
+        plot(Math.round(x0), Math.floor(y) + 1, fraction(y) * (x1 - x0));
+        return;
+    }
+
+    // First end point
+    let xEnd: number = Math.round(x0);
+    let yEnd: number = y0 + gradient * (xEnd - x0);
+    let xGap: number = 1 - fraction(x0 + 0.5);
+
+    const xStart: number = xEnd;
+    plot(xStart, Math.floor(yEnd), (1 - fraction(yEnd)) * xGap);
+    plot(xStart, Math.floor(yEnd) + 1, fraction(yEnd) * xGap);
+
+    let intersectY: number = yEnd + gradient;
+
+    // Second end point
+    xEnd = Math.round(x1);
+    yEnd = y1 + gradient * (xEnd - x1);
+    xGap = fraction(x1 + 0.5);
+
+    const xStop: number = xEnd;
+    plot(xStop, Math.floor(yEnd), (1 - fraction(yEnd)) * xGap);
+    plot(xStop, Math.floor(yEnd) + 1, fraction(yEnd) * xGap);
+
+    // Pixels in between: two per column
+    for (let x: number = xStart + 1; x < xStop; x++) {
+        plot(x, Math.floor(intersectY), 1 - fraction(intersectY));
+        plot(x, Math.floor(intersectY) + 1, fraction(intersectY));
+        intersectY += gradient;
+    }
+}
+
+/**
+ * Receives the pixels of a line, in drawing order.
+ */
+export type PixelVisitor = (x: number, y: number) => void;
+
+/**
+ * Visits the pixels of a line in the order the Bresenham line algorithm plots them.
+ *
+ * Shared by drawLineBresenham() and callers that write pixels themselves (e.g. curves).
+ * The end points are not clipped.
+ *
+ * @param a - Start point (Point2D)
+ * @param b - End point (Point2D)
+ * @param visit - Called with the integer coordinates of every pixel
+ */
+export function walkLineBresenham(a: Point2D, b: Point2D, visit: PixelVisitor): void {
     // Floor input coordinates to ensure pixel alignment
     let x0: number = Math.floor(a.x);
     let y0: number = Math.floor(a.y);
@@ -71,7 +235,7 @@ export function drawLineBresenham(blitter: Blitter, a: Point2D, b: Point2D, colo
 
     // Main loop: continue plotting until end point is reached
     while (true) {
-        blitter.setPixel(x0, y0, color, false, backbuffer);
+        visit(x0, y0);
 
         // Exit condition: end of line reached
         if (x0 === x1 && y0 === y1) break;
@@ -94,34 +258,16 @@ export function drawLineBresenham(blitter: Blitter, a: Point2D, b: Point2D, colo
 }
 
 /**
- * Draws a line between two points using the DDA (Digital Differential Analyzer) algorithm.
- * 
- * This algorithm works by determining the axis with the greatest distance (dx or dy),
- * calculating how many steps are needed to traverse from point A to point B, and then
- * incrementing the position along both axes by a small delta per step.
- * 
- * Example:
- *   If dx = 100 and dy = 50, then 100 steps are used.
- *   Each step moves x by 1.0 and y by 0.5.
- * 
- * @param blitter - The drawing surface
+ * Visits the pixels of a line in the order the DDA algorithm plots them.
+ *
+ * Shared by drawLineDDA() and callers that write pixels themselves (e.g. curves).
+ * The end points are not clipped.
+ *
  * @param a - Start point (Point2D)
  * @param b - End point (Point2D)
- * @param color - Colour to draw the line
- * @param clip - Whether to apply clipping using the blitter's clip region
- * @param backbuffer - Optional backbuffer to draw into (defaults to blitter's internal buffer)
+ * @param visit - Called with the integer coordinates of every pixel
  */
-export function drawLineDDA(blitter: Blitter, a: Point2D, b: Point2D, color: Color4, clip: boolean, backbuffer: Uint32Array): void {
-    if (clip) {
-        const clipped: { a: Point2D; b: Point2D } | null = clipLineLiangBarsky(a, b, blitter.clipping);
-
-        // Check if line is completelly outside
-        if (!clipped) return;
-
-        a = clipped.a;
-        b = clipped.b;
-    }
-
+export function walkLineDDA(a: Point2D, b: Point2D, visit: PixelVisitor): void {
     // Calculate differences in x and y
     const deltaX: number = b.x - a.x;
     const deltaY: number = b.y - a.y;
@@ -131,7 +277,7 @@ export function drawLineDDA(blitter: Blitter, a: Point2D, b: Point2D, color: Col
 
     // If both points are the same, plot a single pixel
     if (steps === 0) {
-        blitter.setPixel(a.x, a.y, color, clip, backbuffer);
+        visit(Math.floor(a.x), Math.floor(a.y));
         return;
     }
 
@@ -145,8 +291,25 @@ export function drawLineDDA(blitter: Blitter, a: Point2D, b: Point2D, color: Col
 
     // Incrementally plot each step along the line
     for (let i: number = 0; i <= steps; i++) {
-        blitter.setPixel(x, y, color, false, backbuffer);
+        visit(Math.floor(x), Math.floor(y));
         x += stepX;
         y += stepY;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Visible pixel rectangle (max exclusive).
+ */
+interface Bounds {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+/**
+ * Returns the fractional part of a number.
+ */
+function fraction(value: number): number {
+    return value - Math.floor(value);
+}
@@ -10,12 +10,15 @@
  * 
  *   Coordinates are validated against the clipping region if clip is set to true.
  *   Colors are written and read using packed 32-bit AABBGGRR format for performance.
+ *   Writes are combined with the backbuffer according to blitter.blend.
  */
 import { Blitter } from "../blitter.js";
 import { Color4 } from "../color/color4.js";
+import { BlendFunction, blendFunctionOf } from "./blend.js";
 
 /**
- * Writes a pixel at (x, y) to the given backbuffer using a 32-bit packed color.
+ * Writes a pixel at (x, y) to the given backbuffer using a 32-bit packed color,
+ * blended with the existing pixel according to blitter.blend.
  * 
  * @param blitter - The active Blitter instance (used for width and clipping)
  * @param x - X coordinate of the pixel
@@ -33,7 +36,10 @@ export function setPixel(blitter: Blitter, x: number, y: number, color: Color4,
         }
     }
 
-    backbuffer[y * blitter.width + x] = color.toAABBGGRR();
+    const position: number = y * blitter.width + x;
+    const blend: BlendFunction | null = blendFunctionOf(blitter.blend);
+
+    backbuffer[position] = blend ? blend(color.toAABBGGRR(), backbuffer[position]) : color.toAABBGGRR();
 }
 
 /**
@@ -0,0 +1,33 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: statistics.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Defines the DrawStatistics class: per-frame counters of the Blitter's triangle rasterisation.
+ *
+ *   The engine loop resets the counters before each frame, so after render() they describe
+ *   the frame just drawn (e.g. how many triangles back-face culling saved).
+ */
+export class DrawStatistics {
+    public submitted: number = 0;    // Triangles passed to a fill method
+    public culled: number = 0;       // Triangles skipped by the cull mode
+    public drawn: number = 0;        // Triangles handed to a rasteriser
+
+    /**
+     * Resets all counters to zero.
+     */
+    public reset(): void {
+        this.submitted = 0;
+        this.culled = 0;
+        this.drawn = 0;
+    }
+
+    /**
+     * Returns a string representation of the counters.
+     */
+    public toString(): string {
+        return `DrawStatistics(submitted: ${this.submitted}, culled: ${this.culled}, drawn: ${this.drawn})`;
+    }
+}
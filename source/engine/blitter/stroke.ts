@@ -0,0 +1,291 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: stroke.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Provides thick line drawing: single lines with caps, and polylines with caps and joins.
+ *
+ *   A stroke is built from triangles:
+ *     - Every segment is a rectangle of the stroke width (two triangles)
+ *     - Caps:  butt (none), square (rectangle extended by half the width), round (circle fan)
+ *     - Joins: miter (outer corners extended to their intersection, bevel beyond the miter
+ *              limit), bevel (triangle across the outer corners), round (circle fan)
+ *
+ *   The triangles overlap at joins and caps, so they are first rasterised into a coverage
+ *   mask with fillFlatEdge() and then written once per pixel through blitter.blend. Translucent
+ *   strokes therefore have no darker seams where the pieces meet.
+ *
+ *   Clipping:
+ *     - With clip enabled, segments that cannot touch the clipping region (tested with
+ *       clipLineLiangBarsky on the region grown by the stroke's reach) are skipped
+ *     - Everything else is clipped per pixel by the rasteriser
+ *
+ *   Strokes are 2D overlays: depth testing and face culling do not apply to them.
+ */
+import { Blitter } from "../blitter.js";
+import { Color4 } from "../color/color4.js";
+import { clipLineLiangBarsky } from "../geometry/clip.js";
+import { Point2D } from "../geometry/point2d.js";
+import { Triangle2D } from "../geometry/triangle2d.js";
+import { fillFlatEdge } from "../rasteriser/flat-edge.js";
+import { BlendFunction, blendFunctionOf, BlendMode } from "./blend.js";
+import { Clipping } from "./clipping.js";
+
+export type LineCap = "butt" | "round" | "square";
+export type LineJoin = "miter" | "bevel" | "round";
+
+/**
+ * Appearance of a thick line.
+ */
+export interface StrokeStyle {
+    width: number;          // Stroke width in pixels
+    cap?: LineCap;          // End caps (default: "butt")
+    join?: LineJoin;        // Joins between polyline segments (default: "miter")
+    miterLimit?: number;    // Longest miter as a multiple of the width before it is bevelled (default: 4)
+}
+
+// Any non-zero value marks a covered pixel in the mask
+const MARK: Color4 = new Color4({ red: 255 });
+
+// Coverage mask, shared by all strokes and cleared while compositing
+let mask: Uint32Array = new Uint32Array(0);
+
+/**
+ * Draws a thick line between two points.
+ *
+ * @param blitter - The drawing surface
+ * @param a - Start point
+ * @param b - End point
+ * @param color - Stroke colour
+ * @param style - Width and cap (the join is not used)
+ * @param clip - Whether to apply clipping using the blitter's clip region
+ * @param backbuffer - The 32-bit backbuffer to write to
+ */
+export function drawThickLine(blitter: Blitter, a: Point2D, b: Point2D, color: Color4, style: StrokeStyle, clip: boolean, backbuffer: Uint32Array): void {
+    drawPolyline(blitter, [a, b], color, style, false, clip, backbuffer);
+}
+
+/**
+ * Draws a thick polyline through a list of points.
+ *
+ * @param blitter - The drawing surface
+ * @param points - Polyline vertices (consecutive duplicates are ignored)
+ * @param color - Stroke colour
+ * @param style - Width, caps, joins and miter limit
+ * @param closed - Whether to connect the last point back to the first (no caps then)
+ * @param clip - Whether to apply clipping using the blitter's clip region
+ * @param backbuffer - The 32-bit backbuffer to write to
+ */
+export function drawPolyline(blitter: Blitter, points: Point2D[], color: Color4, style: StrokeStyle, closed: boolean, clip: boolean, backbuffer: Uint32Array): void {
+    const path: Point2D[] = points.filter((p, i) => i === 0 || p.x !== points[i - 1].x || p.y !== points[i - 1].y);
+
+    if (closed && path.length > 2 && path[0].x === path[path.length - 1].x && path[0].y === path[path.length - 1].y) path.pop();
+
+    const half: number = style.width / 2;
+
+    if (path.length === 0 || half <= 0) return;
+
+    const cap: LineCap = style.cap ?? "butt";
+    const join: LineJoin = style.join ?? "miter";
+    const miterLimit: number = style.miterLimit ?? 4;
+
+    const triangles: Triangle2D[] = [];
+
+    // A single point only shows with round or square caps
+    if (path.length === 1) {
+        if (cap === "round") addDisc(triangles, path[0], half);
+        if (cap === "square") addQuad(triangles, new Point2D(path[0].x - half, path[0].y - half), new Point2D(path[0].x + half, path[0].y - half), new Point2D(path[0].x + half, path[0].y + half), new Point2D(path[0].x - half, path[0].y + half));
+    } else {
+        const segments: number = closed && path.length > 2 ? path.length : path.length - 1;
+
+        // Reach of a segment beyond its centre line (miters are the furthest)
+        const reach: number = half * Math.max(join === "miter" ? miterLimit : 1, Math.SQRT2) + 1;
+        // Clipping stores Int16 bounds, so the grown region is clamped rather than left to wrap around
+        const region: Clipping | null = clip ? new Clipping(
+            clampInt16(blitter.clipping.minX - reach), clampInt16(blitter.clipping.minY - reach),
+            clampInt16(blitter.clipping.maxX + reach), clampInt16(blitter.clipping.maxY + reach)
+        ) : null;
+
+        for (let i: number = 0; i < segments; i++) {
+            const p0: Point2D = path[i];
+            const p1: Point2D = path[(i + 1) % path.length];
+
+            if (region && !clipLineLiangBarsky(p0, p1, region)) continue;
+
+            addSegment(triangles, p0, p1, half, cap, i === 0 && !closed, i === segments - 1 && !closed);
+
+            // Join at the end of this segment
+            if (i < segments - 1 || closed) {
+                addJoin(triangles, p0, p1, path[(i + 2) % path.length], half, join, miterLimit);
+            }
+        }
+    }
+
+    composite(blitter, triangles, color, clip, backbuffer);
+}
+
+/**
+ * Adds the rectangle of a segment, extended at the ends that get square caps, plus round caps.
+ */
+function addSegment(triangles: Triangle2D[], p0: Point2D, p1: Point2D, half: number, cap: LineCap, first: boolean, last: boolean): void {
+    const length: number = Math.hypot(p1.x - p0.x, p1.y - p0.y);
+
+    // Unit direction and normal scaled to half the width
+    const dx: number = (p1.x - p0.x) / length * half;
+    const dy: number = (p1.y - p0.y) / length * half;
+
+    const start: number = first && cap === "square" ? 1 : 0;
+    const end: number = last && cap === "square" ? 1 : 0;
+
+    const x0: number = p0.x - dx * start, y0: number = p0.y - dy * start;
+    const x1: number = p1.x + dx * end, y1: number = p1.y + dy * end;
+
+    addQuad(triangles,
+        new Point2D(x0 - dy, y0 + dx),
+        new Point2D(x1 - dy, y1 + dx),
+        new Point2D(x1 + dy, y1 - dx),
+        new Point2D(x0 + dy, y0 - dx)
+    );
+
+    if (cap === "round") {
+        if (first) addDisc(triangles, p0, half);
+        if (last) addDisc(triangles, p1, half);
+    }
+}
+
+/**
+ * Adds the join at p1 between the segments p0 → p1 and p1 → p2.
+ */
+function addJoin(triangles: Triangle2D[], p0: Point2D, p1: Point2D, p2: Point2D, half: number, join: LineJoin, miterLimit: number): void {
+    if (join === "round") {
+        addDisc(triangles, p1, half);
+        return;
+    }
+
+    const length0: number = Math.hypot(p1.x - p0.x, p1.y - p0.y);
+    const length1: number = Math.hypot(p2.x - p1.x, p2.y - p1.y);
+
+    // Unit directions of both segments
+    const ux0: number = (p1.x - p0.x) / length0, uy0: number = (p1.y - p0.y) / length0;
+    const ux1: number = (p2.x - p1.x) / length1, uy1: number = (p2.y - p1.y) / length1;
+
+    // Outer side: opposite the turn direction (sign of the cross product)
+    const turn: number = ux0 * uy1 - uy0 * ux1;
+
+    if (turn === 0 && ux0 * ux1 + uy0 * uy1 > 0) return; // Straight on, nothing to fill
+
+    const side: number = turn > 0 ? 1 : -1;
+
+    // Outer corners of both segments at p1 (normals point to the outer side)
+    const a: Point2D = new Point2D(p1.x + uy0 * half * side, p1.y - ux0 * half * side);
+    const b: Point2D = new Point2D(p1.x + uy1 * half * side, p1.y - ux1 * half * side);
+
+    triangles.push(new Triangle2D(p1, a, b));
+
+    if (join !== "miter") return;
+
+    // Miter length relative to the width: 1 / sin(θ / 2), θ the angle between the segments
+    const cosine: number = -(ux0 * ux1 + uy0 * uy1);
+    const ratio: number = 1 / Math.sqrt(Math.max(1e-12, (1 - cosine) / 2));
+
+    if (ratio > miterLimit) return; // Bevel instead
+
+    // Miter tip: along the bisector of both outer normals
+    const nx: number = uy0 + uy1, ny: number = -(ux0 + ux1);
+    const scale: number = half * ratio / Math.hypot(nx, ny);
+    const tip: Point2D = new Point2D(p1.x + nx * scale * side, p1.y + ny * scale * side);
+
+    triangles.push(new Triangle2D(a, tip, b));
+}
+
+/**
+ * Adds a quad a → b → c → d as two triangles.
+ */
+function addQuad(triangles: Triangle2D[], a: Point2D, b: Point2D, c: Point2D, d: Point2D): void {
+    triangles.push(new Triangle2D(a, b, c), new Triangle2D(a, c, d));
+}
+
+/**
+ * Adds a filled circle as a triangle fan, with enough segments for a smooth outline.
+ */
+function addDisc(triangles: Triangle2D[], center: Point2D, radius: number): void {
+    const segments: number = Math.min(64, Math.max(8, Math.ceil(radius * 2)));
+
+    for (let i: number = 0; i < segments; i++) {
+        const a0: number = (i / segments) * Math.PI * 2;
+        const a1: number = ((i + 1) / segments) * Math.PI * 2;
+
+        triangles.push(new Triangle2D(
+            center,
+            new Point2D(center.x + Math.cos(a0) * radius, center.y + Math.sin(a0) * radius),
+            new Point2D(center.x + Math.cos(a1) * radius, center.y + Math.sin(a1) * radius)
+        ));
+    }
+}
+
+/**
+ * Rasterises the triangles into the coverage mask and writes every covered pixel once.
+ */
+function composite(blitter: Blitter, triangles: Triangle2D[], color: Color4, clip: boolean, backbuffer: Uint32Array): void {
+    if (triangles.length === 0) return;
+
+    const width: number = blitter.width;
+
+    if (mask.length !== width * blitter.height) mask = new Uint32Array(width * blitter.height);
+
+    // Bounding box of all triangles, clamped to the canvas
+    let minX: number = Infinity, minY: number = Infinity, maxX: number = -Infinity, maxY: number = -Infinity;
+
+    for (const triangle of triangles) {
+        for (const p of [triangle.a, triangle.b, triangle.c]) {
+            minX = Math.min(minX, p.x); minY = Math.min(minY, p.y);
+            maxX = Math.max(maxX, p.x); maxY = Math.max(maxY, p.y);
+        }
+    }
+
+    minX = Math.max(0, Math.floor(minX));
+    minY = Math.max(0, Math.floor(minY));
+    maxX = Math.min(width - 1, Math.ceil(maxX));
+    maxY = Math.min(blitter.height - 1, Math.ceil(maxY));
+
+    if (minX > maxX || minY > maxY) return;
+
+    // The mask is plain coverage: no depth test and no blending while it is filled
+    const depth: boolean = blitter.depth.enabled;
+    const blendMode: BlendMode = blitter.blend;
+
+    blitter.depth.enabled = false;
+    blitter.blend = "replace";
+
+    try {
+        for (const triangle of triangles) {
+            fillFlatEdge(blitter, triangle, MARK, clip, mask);
+        }
+    } finally {
+        blitter.depth.enabled = depth;
+        blitter.blend = blendMode;
+    }
+
+    const blend: BlendFunction | null = blendFunctionOf(blendMode);
+    const packed: number = color.toAABBGGRR();
+
+    for (let y: number = minY; y <= maxY; y++) {
+        const position: number = y * width;
+
+        for (let x: number = minX; x <= maxX; x++) {
+            if (mask[position + x] === 0) continue;
+
+            mask[position + x] = 0;
+            backbuffer[position + x] = blend ? blend(packed, backbuffer[position + x]) : packed;
+        }
+    }
+}
+
+/**
+ * Clamps a coordinate to the range of an Int16Array entry.
+ */
+function clampInt16(value: number): number {
+    return Math.max(-32768, Math.min(32767, value));
+}
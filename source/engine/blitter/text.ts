@@ -0,0 +1,194 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: text.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Provides text rendering with bitmap fonts (see text/bitmap-font.ts).
+ *
+ *   Layout:
+ *     - Lines are separated by "\n" and stacked by the font's line height (or style.lineHeight)
+ *     - The position is the top of the first line; horizontally it is the left edge, the
+ *       centre or the right edge of every line, depending on style.align
+ *     - Glyphs advance by their own widths plus the font's kerning pairs
+ *     - Characters the font lacks are drawn with its fallback glyph ("?")
+ *     - style.scale enlarges the text by whole pixels, keeping the pixel-art look
+ *
+ *   Glyph coverage works like the coverage of anti-aliased lines: it scales the colour's
+ *   alpha and is blended against the destination (source-over under "replace", or the
+ *   active blitter.blend mode). Translucent colours give translucent text.
+ *
+ *   Pixels are always limited to the canvas; with clip enabled also to blitter.clipping.
+ */
+import { Blitter } from "../blitter.js";
+import { Color4 } from "../color/color4.js";
+import { Point2D } from "../geometry/point2d.js";
+import { BitmapFont, FontPage, Glyph } from "../text/bitmap-font.js";
+import { builtinFont } from "../text/builtin-font.js";
+import { blendAlpha, BlendFunction, blendFunctionOf, scaleCoverage } from "./blend.js";
+
+export type TextAlign = "left" | "center" | "right";
+
+/**
+ * Appearance and layout of drawn text.
+ */
+export interface TextStyle {
+    font?: BitmapFont;      // Font (default: the built-in 8×8 font)
+    align?: TextAlign;      // Horizontal alignment of every line (default: "left")
+    scale?: number;         // Whole-pixel magnification (default: 1)
+    lineHeight?: number;    // Distance between lines in font pixels (default: font.lineHeight)
+}
+
+/**
+ * Size of laid out text in pixels.
+ */
+export interface TextMetrics {
+    width: number;          // Width of the widest line
+    height: number;         // Height of all lines
+    lines: number[];        // Width of every line
+}
+
+/**
+ * Measures text as drawText() would lay it out.
+ *
+ * @param text - Text to measure (lines separated by "\n")
+ * @param style - Font, scale and line height (the alignment does not change the size)
+ */
+export function measureText(text: string, style: TextStyle = {}): TextMetrics {
+    const font: BitmapFont = style.font ?? builtinFont();
+    const scale: number = Math.max(1, Math.floor(style.scale ?? 1));
+    const lineHeight: number = style.lineHeight ?? font.lineHeight;
+
+    const lines: number[] = splitLines(text).map((line) => measureLine(font, line) * scale);
+
+    return {
+        width: Math.max(0, ...lines),
+        height: lines.length * lineHeight * scale,
+        lines: lines
+    };
+}
+
+/**
+ * Draws text with a bitmap font.
+ *
+ * @param blitter - The drawing surface
+ * @param text - Text to draw (lines separated by "\n")
+ * @param position - Top of the first line; left edge, centre or right edge by style.align
+ * @param color - Text colour (its alpha is multiplied with the glyph coverage)
+ * @param style - Font, alignment, scale and line height
+ * @param clip - Whether to apply clipping using the blitter's clip region
+ * @param backbuffer - The 32-bit backbuffer to write to
+ */
+export function drawText(blitter: Blitter, text: string, position: Point2D, color: Color4, style: TextStyle, clip: boolean, backbuffer: Uint32Array): void {
+    const font: BitmapFont = style.font ?? builtinFont();
+    const align: TextAlign = style.align ?? "left";
+    const scale: number = Math.max(1, Math.floor(style.scale ?? 1));
+    const lineHeight: number = (style.lineHeight ?? font.lineHeight) * scale;
+
+    const bounds: Bounds = {
+        minX: clip ? Math.max(0, blitter.clipping.minX) : 0,
+        minY: clip ? Math.max(0, blitter.clipping.minY) : 0,
+        maxX: clip ? Math.min(blitter.width, blitter.clipping.maxX) : blitter.width,
+        maxY: clip ? Math.min(blitter.height, blitter.clipping.maxY) : blitter.height
+    };
+
+    const blend: BlendFunction = blendFunctionOf(blitter.blend) ?? blendAlpha;
+    const premultiplied: boolean = blitter.blend === "premultiplied";
+    const packed: number = color.toAABBGGRR();
+
+    // The colour at every coverage value
+    const shades: Uint32Array = new Uint32Array(256);
+
+    for (let coverage: number = 1; coverage < 256; coverage++) {
+        shades[coverage] = scaleCoverage(packed, coverage / 255, premultiplied);
+    }
+
+    let top: number = Math.round(position.y);
+
+    for (const line of splitLines(text)) {
+        const width: number = measureLine(font, line) * scale;
+
+        let penX: number = Math.round(position.x) - (align === "right" ? width : align === "center" ? Math.floor(width / 2) : 0);
+        let previous: number = -1;
+
+        for (const character of line) {
+            const code: number = character.codePointAt(0) as number;
+            const glyph: Glyph | null = font.glyph(code);
+
+            if (!glyph) continue;
+
+            if (previous >= 0) penX += font.kerning(previous, code) * scale;
+
+            drawGlyph(blitter, font.pages[glyph.page], glyph, penX + glyph.offsetX * scale, top + glyph.offsetY * scale, scale, shades, blend, bounds, backbuffer);
+
+            penX += glyph.advance * scale;
+            previous = code;
+        }
+
+        top += lineHeight;
+    }
+}
+
+/**
+ * Visible pixel rectangle (max exclusive).
+ */
+interface Bounds {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+/**
+ * Writes the covered pixels of one glyph with its top-left corner at (left, top).
+ */
+function drawGlyph(blitter: Blitter, page: FontPage, glyph: Glyph, left: number, top: number, scale: number, shades: Uint32Array, blend: BlendFunction, bounds: Bounds, backbuffer: Uint32Array): void {
+    // Visible part of the scaled glyph, in screen pixels
+    const x0: number = Math.max(bounds.minX, left);
+    const y0: number = Math.max(bounds.minY, top);
+    const x1: number = Math.min(bounds.maxX, left + glyph.width * scale);
+    const y1: number = Math.min(bounds.maxY, top + glyph.height * scale);
+
+    for (let y: number = y0; y < y1; y++) {
+        const row: number = (glyph.y + Math.floor((y - top) / scale)) * page.width + glyph.x;
+
+        for (let x: number = x0; x < x1; x++) {
+            const coverage: number = page.coverage[row + Math.floor((x - left) / scale)];
+
+            if (coverage === 0) continue;
+
+            const position: number = y * blitter.width + x;
+            backbuffer[position] = blend(shades[coverage], backbuffer[position]);
+        }
+    }
+}
+
+/**
+ * Returns the unscaled width of one line: the advances plus kerning.
+ */
+function measureLine(font: BitmapFont, line: string): number {
+    let width: number = 0;
+    let previous: number = -1;
+
+    for (const character of line) {
+        const code: number = character.codePointAt(0) as number;
+        const glyph: Glyph | null = font.glyph(code);
+
+        if (!glyph) continue;
+
+        if (previous >= 0) width += font.kerning(previous, code);
+
+        width += glyph.advance;
+        previous = code;
+    }
+
+    return width;
+}
+
+/**
+ * Splits text into lines at "\n" (and "\r\n").
+ */
+function splitLines(text: string): string[] {
+    return text.split(/\r?\n/);
+}
@@ -0,0 +1,172 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: camera.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Defines a Camera that produces the view and projection matrices of the vertex pipeline.
+ *
+ *   Orientation is stored as yaw, pitch and roll (radians):
+ *     - With all angles zero the camera looks down -Z with +Y up (right-handed, as Matrix4.lookAt)
+ *     - Yaw turns left around the world Y axis, pitch looks up, roll tilts counter-clockwise
+ *     - The camera transform is translation * rotationY(yaw) * rotationX(pitch) * rotationZ(roll),
+ *       the view matrix is its inverse
+ *
+ *   Projection:
+ *     - "perspective" uses the vertical field of view (fov)
+ *     - "orthographic" shows a view volume of size world units vertically
+ *     - aspect defaults to null, which follows blitter.width / blitter.height
+ *
+ *   Typical use, once per frame:
+ *
+ *     controller.update(input, deltaTime);
+ *     camera.apply(pipeline);
+ */
+import { Blitter } from "../blitter.js";
+import { Matrix4 } from "../math/matrix4.js";
+import { Vector3 } from "../math/vector3.js";
+import { Pipeline } from "../pipeline/pipeline.js";
+
+/**
+ * Projection type of a camera.
+ */
+export type Projection = "perspective" | "orthographic";
+
+interface CameraParameters {
+    position?: Vector3;         // Position in world space (default: origin)
+    yaw?: number;               // Rotation around world Y in radians (default: 0)
+    pitch?: number;             // Rotation around the camera X axis in radians (default: 0)
+    roll?: number;              // Rotation around the view direction in radians (default: 0)
+    fov?: number;               // Vertical field of view in radians (default: π / 3)
+    aspect?: number | null;     // Width / height (default: null, follows the blitter)
+    near?: number;              // Near plane distance (default: 0.1)
+    far?: number;               // Far plane distance (default: 100)
+    projection?: Projection;    // Projection type (default: "perspective")
+    size?: number;              // Orthographic view height in world units (default: 10)
+}
+
+export class Camera {
+    public position: Vector3;
+    public yaw: number;
+    public pitch: number;
+    public roll: number;
+
+    public fov: number;
+    public aspect: number | null;
+    public near: number;
+    public far: number;
+    public projection: Projection;
+    public size: number;
+
+    /**
+     * Creates a new camera.
+     *
+     * @param params - Optional camera parameters
+     */
+    public constructor({ position = new Vector3(), yaw = 0, pitch = 0, roll = 0, fov = Math.PI / 3, aspect = null, near = 0.1, far = 100, projection = "perspective", size = 10 }: CameraParameters = {}) {
+        this.position = position;
+        this.yaw = yaw;
+        this.pitch = pitch;
+        this.roll = roll;
+        this.fov = fov;
+        this.aspect = aspect;
+        this.near = near;
+        this.far = far;
+        this.projection = projection;
+        this.size = size;
+    }
+
+    /**
+     * Returns the aspect ratio in use: the fixed aspect, or blitter.width / blitter.height.
+     */
+    public get aspectRatio(): number {
+        if (this.aspect !== null) return this.aspect;
+
+        const blitter: Blitter = Blitter.getInstance();
+        return blitter.height > 0 ? blitter.width / blitter.height : 1;
+    }
+
+    /**
+     * Returns the unit vector the camera looks along (ignores roll).
+     *
+     * @param out - Optional destination vector
+     */
+    public forward(out: Vector3 = new Vector3()): Vector3 {
+        const cosPitch: number = Math.cos(this.pitch);
+        return out.set(-Math.sin(this.yaw) * cosPitch, Math.sin(this.pitch), -Math.cos(this.yaw) * cosPitch);
+    }
+
+    /**
+     * Returns the unit vector pointing to the camera's right, parallel to the ground (ignores roll).
+     *
+     * @param out - Optional destination vector
+     */
+    public right(out: Vector3 = new Vector3()): Vector3 {
+        return out.set(Math.cos(this.yaw), 0, -Math.sin(this.yaw));
+    }
+
+    /**
+     * Turns the camera towards a point (sets yaw and pitch, keeps roll).
+     *
+     * @param target - Point to look at
+     * @returns This camera
+     */
+    public lookAt(target: Vector3): Camera {
+        const direction: Vector3 = target.subtract(this.position);
+        const horizontal: number = Math.sqrt(direction.x * direction.x + direction.z * direction.z);
+
+        // Looking straight up or down keeps the current yaw
+        if (horizontal > 0) this.yaw = Math.atan2(-direction.x, -direction.z);
+        this.pitch = Math.atan2(direction.y, horizontal);
+
+        return this;
+    }
+
+    /**
+     * Returns the view (world → camera) matrix.
+     *
+     * @param out - Optional destination matrix
+     */
+    public view(out: Matrix4 = new Matrix4()): Matrix4 {
+        // Inverse of translation * Ry(yaw) * Rx(pitch) * Rz(roll)
+        Matrix4.rotationZ(-this.roll, out);
+        out.multiply(Matrix4.rotationX(-this.pitch), out);
+        out.multiply(Matrix4.rotationY(-this.yaw), out);
+        return out.multiply(Matrix4.translation(-this.position.x, -this.position.y, -this.position.z), out);
+    }
+
+    /**
+     * Returns the projection (camera → clip) matrix for the current projection type.
+     *
+     * @param out - Optional destination matrix
+     */
+    public projectionMatrix(out: Matrix4 = new Matrix4()): Matrix4 {
+        const aspect: number = this.aspectRatio;
+
+        if (this.projection === "orthographic") {
+            const top: number = this.size / 2;
+            const right: number = top * aspect;
+            return Matrix4.orthographic(-right, right, -top, top, this.near, this.far, out);
+        }
+
+        return Matrix4.perspective(this.fov, aspect, this.near, this.far, out);
+    }
+
+    /**
+     * Sets the view and projection matrices of a pipeline from this camera.
+     *
+     * @param pipeline - Pipeline to configure
+     */
+    public apply(pipeline: Pipeline): void {
+        pipeline.view = this.view();
+        pipeline.projection = this.projectionMatrix();
+    }
+
+    /**
+     * Returns a string representation of the camera.
+     */
+    public toString(): string {
+        return `Camera(${this.position.toString()}, yaw: ${this.yaw.toFixed(3)}, pitch: ${this.pitch.toFixed(3)}, ${this.projection})`;
+    }
+}
@@ -0,0 +1,97 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: fly-controller.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Free-fly controller: moves the camera like a first-person spectator.
+ *
+ *   Controls (polled from Input once per frame):
+ *     - W / S → move forward / backward along the viewing direction
+ *     - A / D → strafe left / right
+ *     - E / Q → move up / down (world Y)
+ *     - Shift → move faster
+ *     - Left mouse drag or arrow keys → look around
+ */
+import { Input } from "../input/input.js";
+import { Vector3 } from "../math/vector3.js";
+import { clamp } from "../utils/helper.js";
+import { Camera } from "./camera.js";
+
+interface FlyControllerParameters {
+    speed?: number;            // World units per second (default: 5)
+    boost?: number;            // Speed factor while Shift is held (default: 3)
+    lookSpeed?: number;        // Radians per pixel of mouse movement (default: 0.005)
+    keySpeed?: number;         // Radians per second for the arrow keys (default: 1.5)
+}
+
+// Keep the pitch just short of straight up / down, where yaw is undefined
+const PITCH_LIMIT: number = Math.PI / 2 - 0.01;
+
+export class FlyController {
+    public camera: Camera;
+
+    public speed: number;
+    public boost: number;
+    public lookSpeed: number;
+    public keySpeed: number;
+
+    // Scratch vectors to avoid allocations per frame
+    private forward: Vector3 = new Vector3();
+    private right: Vector3 = new Vector3();
+
+    /**
+     * Creates a fly controller. The camera keeps its current position and orientation.
+     *
+     * @param camera - Camera to control
+     * @param params - Optional controller parameters
+     */
+    public constructor(camera: Camera, { speed = 5, boost = 3, lookSpeed = 0.005, keySpeed = 1.5 }: FlyControllerParameters = {}) {
+        this.camera = camera;
+        this.speed = speed;
+        this.boost = boost;
+        this.lookSpeed = lookSpeed;
+        this.keySpeed = keySpeed;
+    }
+
+    /**
+     * Applies this frame's input and updates the camera.
+     *
+     * @param input - Input state
+     * @param deltaTime - Time since last frame (in seconds)
+     */
+    public update(input: Input, deltaTime: number): void {
+        const camera: Camera = this.camera;
+
+        // Look: dragging right turns right, dragging up looks up
+        if (input.isButtonDown(0)) {
+            camera.yaw -= input.deltaX * this.lookSpeed;
+            camera.pitch -= input.deltaY * this.lookSpeed;
+        }
+
+        const turn: number = this.keySpeed * deltaTime;
+
+        if (input.isKeyDown("ArrowLeft")) camera.yaw += turn;
+        if (input.isKeyDown("ArrowRight")) camera.yaw -= turn;
+        if (input.isKeyDown("ArrowUp")) camera.pitch += turn;
+        if (input.isKeyDown("ArrowDown")) camera.pitch -= turn;
+
+        camera.pitch = clamp(camera.pitch, -PITCH_LIMIT, PITCH_LIMIT);
+
+        // Move
+        const boosted: boolean = input.isKeyDown("ShiftLeft") || input.isKeyDown("ShiftRight");
+        const step: number = this.speed * (boosted ? this.boost : 1) * deltaTime;
+
+        const forward: Vector3 = camera.forward(this.forward).scale(step, this.forward);
+        const right: Vector3 = camera.right(this.right).scale(step, this.right);
+        const position: Vector3 = camera.position;
+
+        if (input.isKeyDown("KeyW")) position.add(forward, position);
+        if (input.isKeyDown("KeyS")) position.subtract(forward, position);
+        if (input.isKeyDown("KeyD")) position.add(right, position);
+        if (input.isKeyDown("KeyA")) position.subtract(right, position);
+        if (input.isKeyDown("KeyE")) position.y += step;
+        if (input.isKeyDown("KeyQ")) position.y -= step;
+    }
+}
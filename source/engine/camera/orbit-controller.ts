@@ -0,0 +1,124 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: orbit-controller.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Orbit controller: keeps the camera on a sphere around a target point, looking at it.
+ *
+ *   Controls (polled from Input once per frame):
+ *     - Left mouse drag or arrow keys → orbit around the target
+ *     - Mouse wheel or PageUp / PageDown → zoom in / out
+ *
+ *   In orthographic projection zooming scales the camera's view size instead of the
+ *   distance, as moving an orthographic camera does not change what it shows.
+ */
+import { Input } from "../input/input.js";
+import { Vector3 } from "../math/vector3.js";
+import { clamp } from "../utils/helper.js";
+import { Camera } from "./camera.js";
+
+interface OrbitControllerParameters {
+    target?: Vector3;          // Point to orbit around (default: origin)
+    distance?: number;         // Distance from the target (default: 10)
+    yaw?: number;              // Initial yaw in radians (default: 0)
+    pitch?: number;            // Initial pitch in radians (default: -0.4, looking down)
+    minDistance?: number;      // Closest zoom (default: 1)
+    maxDistance?: number;      // Farthest zoom (default: 100)
+    rotateSpeed?: number;      // Radians per pixel of mouse movement (default: 0.005)
+    keySpeed?: number;         // Radians per second for the arrow keys (default: 1.5)
+    zoomFactor?: number;       // Distance factor per wheel step (default: 1.1)
+}
+
+// Keep the pitch just short of straight up / down, where yaw is undefined
+const PITCH_LIMIT: number = Math.PI / 2 - 0.01;
+
+export class OrbitController {
+    public camera: Camera;
+    public target: Vector3;
+    public distance: number;
+    public yaw: number;
+    public pitch: number;
+
+    public minDistance: number;
+    public maxDistance: number;
+    public rotateSpeed: number;
+    public keySpeed: number;
+    public zoomFactor: number;
+
+    /**
+     * Creates an orbit controller and places the camera.
+     *
+     * @param camera - Camera to control
+     * @param params - Optional controller parameters
+     */
+    public constructor(camera: Camera, { target = new Vector3(), distance = 10, yaw = 0, pitch = -0.4, minDistance = 1, maxDistance = 100, rotateSpeed = 0.005, keySpeed = 1.5, zoomFactor = 1.1 }: OrbitControllerParameters = {}) {
+        this.camera = camera;
+        this.target = target;
+        this.distance = distance;
+        this.yaw = yaw;
+        this.pitch = pitch;
+        this.minDistance = minDistance;
+        this.maxDistance = maxDistance;
+        this.rotateSpeed = rotateSpeed;
+        this.keySpeed = keySpeed;
+        this.zoomFactor = zoomFactor;
+
+        this.place();
+    }
+
+    /**
+     * Applies this frame's input and updates the camera.
+     *
+     * @param input - Input state
+     * @param deltaTime - Time since last frame (in seconds)
+     */
+    public update(input: Input, deltaTime: number): void {
+        // Orbit: the scene turns along with the mouse drag
+        if (input.isButtonDown(0)) {
+            this.yaw -= input.deltaX * this.rotateSpeed;
+            this.pitch -= input.deltaY * this.rotateSpeed;
+        }
+
+        const turn: number = this.keySpeed * deltaTime;
+
+        if (input.isKeyDown("ArrowLeft")) this.yaw += turn;
+        if (input.isKeyDown("ArrowRight")) this.yaw -= turn;
+        if (input.isKeyDown("ArrowUp")) this.pitch += turn;
+        if (input.isKeyDown("ArrowDown")) this.pitch -= turn;
+
+        // Zoom: one step per wheel notch, continuous for held keys
+        let zoom: number = input.wheel;
+
+        if (input.isKeyDown("PageUp")) zoom -= deltaTime * 10;
+        if (input.isKeyDown("PageDown")) zoom += deltaTime * 10;
+
+        if (zoom !== 0) {
+            const factor: number = Math.pow(this.zoomFactor, zoom);
+
+            if (this.camera.projection === "orthographic") {
+                this.camera.size *= factor;
+            } else {
+                this.distance *= factor;
+            }
+        }
+
+        this.place();
+    }
+
+    /**
+     * Positions the camera on the orbit sphere, looking at the target.
+     */
+    private place(): void {
+        this.pitch = clamp(this.pitch, -PITCH_LIMIT, PITCH_LIMIT);
+        this.distance = clamp(this.distance, this.minDistance, this.maxDistance);
+
+        this.camera.yaw = this.yaw;
+        this.camera.pitch = this.pitch;
+
+        // The camera sits behind the target, against its viewing direction
+        const forward: Vector3 = this.camera.forward();
+        this.target.subtract(forward.scale(this.distance), this.camera.position);
+    }
+}
@@ -0,0 +1,143 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: color4.test.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Unit tests for Color4: channel storage, string parsing, HSV / HSL conversions and
+ *   lerpAABBGGRR(). Run with scripts/test.mjs after compiling.
+ */
+import { Color4, HSL, HSV, lerpAABBGGRR } from "./color4.js";
+
+/**
+ * Named test functions; each throws an Error on failure.
+ */
+export const tests: { [name: string]: () => void } = {
+    "Color4 channel rounding": () => {
+        // Clamped to 0–255, rounded to nearest with halves going to the even neighbour
+        expectColor(new Color4({ red: 127.5, green: 128.5, blue: 0.4, alpha: 254.6 }), 255, 128, 128, 0);
+
+        // Fractions as produced by lighting or MTL "Kd 0.5 0.3 0" (truncation would give 127 and 76)
+        expectColor(new Color4({ red: 0.5 * 255, green: 0.3 * 255 }), 255, 128, 76, 0);
+
+        const color: Color4 = new Color4();
+        color.red = -20;
+        color.green = 300;
+        color.blue = 99.9;
+        expectColor(color, 255, 0, 255, 100);
+
+        expect((color.toAABBGGRR() >>> 0) === 0xff64ff00, `expected ff64ff00, got ${(color.toAABBGGRR() >>> 0).toString(16)}`);
+    },
+
+    "Color4.parse": () => {
+        expectColor(Color4.parse("#f80"), 255, 255, 136, 0);
+        expectColor(Color4.parse("#f808"), 136, 255, 136, 0);
+        expectColor(Color4.parse("#12ab9F"), 255, 0x12, 0xab, 0x9f);
+        expectColor(Color4.parse(" #12AB9F80 "), 0x80, 0x12, 0xab, 0x9f);
+        expectColor(Color4.parse("rgb(10, 20, 30)"), 255, 10, 20, 30);
+        expectColor(Color4.parse("rgba(10, 20, 30, 0.5)"), 128, 10, 20, 30);
+        expectColor(Color4.parse("rgb(100%, 50%, 0%)"), 255, 255, 128, 0);
+        expectColor(Color4.parse("rgb(255 0 0 / 50%)"), 128, 255, 0, 0);
+        expectColor(Color4.parse("hsl(120, 100%, 50%)"), 255, 0, 255, 0);
+        expectColor(Color4.parse("hsla(240, 100%, 25%, 1)"), 255, 0, 0, 128);
+
+        for (const text of ["", "#12345", "red", "rgb(1, 2)", "hsl(a, b%, c%)"]) {
+            expectThrows(() => Color4.parse(text), text);
+        }
+    },
+
+    "Color4 HSV round trip": () => {
+        forEachColor((color) => {
+            const hsv: HSV = color.toHSV();
+            const back: Color4 = Color4.fromHSV(hsv.hue, hsv.saturation, hsv.value, color.alpha);
+
+            expect(back.equals(color), `${color.toString()} → HSV → ${back.toString()}`);
+        });
+
+        const orange: HSV = new Color4({ red: 255, green: 128, blue: 0 }).toHSV();
+        expectNumber(orange.hue, 128 / 255 * 60);
+        expectNumber(orange.saturation, 1);
+        expectNumber(orange.value, 1);
+    },
+
+    "Color4 HSL round trip": () => {
+        forEachColor((color) => {
+            const hsl: HSL = color.toHSL();
+            const back: Color4 = Color4.fromHSL(hsl.hue, hsl.saturation, hsl.lightness, color.alpha);
+
+            expect(back.equals(color), `${color.toString()} → HSL → ${back.toString()}`);
+        });
+
+        const teal: HSL = new Color4({ red: 0, green: 128, blue: 128 }).toHSL();
+        expectNumber(teal.hue, 180);
+        expectNumber(teal.saturation, 1);
+        expectNumber(teal.lightness, 64 / 255);
+    },
+
+    "lerpAABBGGRR": () => {
+        const from: number = 0xff000000;
+        const to: number = 0x80ff8040;
+
+        expect(lerpAABBGGRR(from, to, 0) === from, "t = 0 should return from");
+        expect(lerpAABBGGRR(from, to, 1) === to, "t = 1 should return to");
+        expect(lerpAABBGGRR(from, to, -1) === from, "t < 0 should clamp to from");
+        expect(lerpAABBGGRR(from, to, 2) === to, "t > 1 should clamp to to");
+
+        // Weight 128 / 256 per channel: (a · 128 + b · 128) >> 8
+        const half: number = lerpAABBGGRR(from, to, 0.5);
+        expect(half === 0xbf7f4020, `expected bf7f4020, got ${half.toString(16)}`);
+    }
+};
+
+/**
+ * Calls back with a spread of colours: greys, primaries, mixes and odd channel values.
+ */
+function forEachColor(callback: (color: Color4) => void): void {
+    const levels: number[] = [0, 1, 37, 128, 200, 254, 255];
+
+    for (const red of levels) {
+        for (const green of levels) {
+            for (const blue of levels) {
+                callback(new Color4({ red, green, blue, alpha: 200 }));
+            }
+        }
+    }
+}
+
+/**
+ * Throws unless the condition holds.
+ */
+function expect(condition: boolean, message: string): void {
+    if (!condition) throw new Error(message);
+}
+
+/**
+ * Throws when a colour's channels differ from the expected ones.
+ */
+function expectColor(actual: Color4, alpha: number, red: number, green: number, blue: number): void {
+    const expected: Color4 = new Color4({ alpha, red, green, blue });
+
+    expect(actual.equals(expected), `expected ${expected.toString()}, got ${actual.toString()}`);
+}
+
+/**
+ * Throws when a number differs from the expected value by more than 1e-9.
+ */
+function expectNumber(actual: number, expected: number): void {
+    expect(Math.abs(actual - expected) <= 1e-9, `expected ${expected}, got ${actual}`);
+}
+
+/**
+ * Throws unless parsing fails with a Color4 error.
+ */
+function expectThrows(action: () => void, text: string): void {
+    try {
+        action();
+    } catch (error) {
+        expect((error as Error).message.indexOf("Color4: ") === 0, `unexpected error for "${text}": ${(error as Error).message}`);
+        return;
+    }
+
+    throw new Error(`"${text}" should not parse`);
+}
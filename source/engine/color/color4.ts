@@ -11,9 +11,24 @@
  * 
  *   This class is used throughout the engine for pixel plotting, fill operations,
  *   and colour management. Colours are stored as 8-bit per channel integers (0–255).
+ * 
+ *   Channels are accessors over a Uint8ClampedArray, so every write is clamped to 0–255 and
+ *   invalidates the cached packed value. Fractional values are rounded to the nearest
+ *   integer, halves to the even neighbour (127.5 → 128, 76.5 → 76), not truncated: colours
+ *   computed in floating point (lighting, MTL Kd · 255) can come out one step brighter
+ *   than a truncating conversion would give.
+ * 
+ *   Colour math follows the Vector3 design: methods do not mutate the colour they are
+ *   called on and take an optional "out" colour (which may alias an input).
+ * 
+ *   Also provides:
+ *     - HSV and HSL conversions (hue in degrees, saturation / value / lightness in 0–1)
+ *     - Hex and CSS string parsing and formatting
+ *     - sRGB ↔ linear conversion (alpha is left untouched)
+ *     - lerpAABBGGRR(): interpolation of packed colours without unpacking to Color4
  */
 
-import { clamp } from "../utils/helper.js";
+import { clamp, lerp } from "../utils/helper.js";
 
 interface Color4Parameters {
     alpha?: number;      // Alpha component (0–255)
@@ -23,11 +38,27 @@ interface Color4Parameters {
     caching?: boolean;   // Whether to cache the 32-bit colour value
 }
 
+/**
+ * Hue (degrees, 0–360), saturation and value (0–1).
+ */
+export interface HSV {
+    hue: number;
+    saturation: number;
+    value: number;
+}
+
+/**
+ * Hue (degrees, 0–360), saturation and lightness (0–1).
+ */
+export interface HSL {
+    hue: number;
+    saturation: number;
+    lightness: number;
+}
+
 export class Color4 {
-    public alpha: number;
-    public red: number;
-    public green: number;
-    public blue: number;
+    // Alpha, red, green, blue
+    private channels: Uint8ClampedArray = new Uint8ClampedArray(4);
 
     private cache: number | null = null;
     private caching: boolean;
@@ -39,13 +70,71 @@ export class Color4 {
      * @param params - Optional colour components and caching flag
      */
     public constructor({ alpha = 255, red = 0, green = 0, blue = 0, caching = true }: Color4Parameters = {}) {
-        this.alpha = clamp(alpha, 0, 255);
-        this.red = clamp(red, 0, 255);
-        this.green = clamp(green, 0, 255);
-        this.blue = clamp(blue, 0, 255);
+        this.channels[0] = clamp(alpha, 0, 255);
+        this.channels[1] = clamp(red, 0, 255);
+        this.channels[2] = clamp(green, 0, 255);
+        this.channels[3] = clamp(blue, 0, 255);
         this.caching = caching;
     }
 
+    // Alpha component (0–255)
+    public get alpha(): number {
+        return this.channels[0];
+    }
+
+    public set alpha(value: number) {
+        this.channels[0] = value;
+        this.cache = null;
+    }
+
+    // Red component (0–255)
+    public get red(): number {
+        return this.channels[1];
+    }
+
+    public set red(value: number) {
+        this.channels[1] = value;
+        this.cache = null;
+    }
+
+    // Green component (0–255)
+    public get green(): number {
+        return this.channels[2];
+    }
+
+    public set green(value: number) {
+        this.channels[2] = value;
+        this.cache = null;
+    }
+
+    // Blue component (0–255)
+    public get blue(): number {
+        return this.channels[3];
+    }
+
+    public set blue(value: number) {
+        this.channels[3] = value;
+        this.cache = null;
+    }
+
+    /**
+     * Sets all channels and returns this colour.
+     * 
+     * @param alpha - Alpha component (0–255)
+     * @param red - Red component (0–255)
+     * @param green - Green component (0–255)
+     * @param blue - Blue component (0–255)
+     * @returns This colour
+     */
+    public set(alpha: number, red: number, green: number, blue: number): Color4 {
+        this.channels[0] = alpha;
+        this.channels[1] = red;
+        this.channels[2] = green;
+        this.channels[3] = blue;
+        this.cache = null;
+        return this;
+    }
+
     /**
      * Sets the channel values from a 32-bit AABBGGRR integer.
      * 
@@ -53,10 +142,7 @@ export class Color4 {
      * @returns The updated Color4 instance
      */
     public fromAABBGGRR(color: number): Color4 {
-        this.alpha = (color >> 24) & 0xff;
-        this.red   = (color >> 0)  & 0xff;
-        this.green = (color >> 8)  & 0xff;
-        this.blue  = (color >> 16) & 0xff;
+        this.set((color >> 24) & 0xff, (color >> 0) & 0xff, (color >> 8) & 0xff, (color >> 16) & 0xff);
         this.cache = color;
         return this;
     }
@@ -68,12 +154,7 @@ export class Color4 {
      * @returns The updated Color4 instance
      */
     public fromARRGGBB(color: number): Color4 {
-        this.alpha = (color >> 24) & 0xff;
-        this.red   = (color >> 16) & 0xff;
-        this.green = (color >> 8)  & 0xff;
-        this.blue  = (color >> 0)  & 0xff;
-        this.cache = color;
-        return this;
+        return this.set((color >> 24) & 0xff, (color >> 16) & 0xff, (color >> 8) & 0xff, (color >> 0) & 0xff);
     }
 
     /**
@@ -89,13 +170,10 @@ export class Color4 {
 
     /**
      * Returns the 32-bit AARRGGBB representation of this colour.
-     * Uses caching if enabled.
+     * Not cached: the cache holds the AABBGGRR value used by the backbuffer.
      */
     public toAARRGGBB(): number {
-        if (this.caching && this.cache === null) {
-            this.cache = this.getAARRGGBB();
-        }
-        return this.cache ?? this.getAARRGGBB();
+        return this.getAARRGGBB();
     }
 
     /**
@@ -112,6 +190,201 @@ export class Color4 {
         return (this.alpha << 24) | (this.red << 16) | (this.green << 8) | (this.blue << 0);
     }
 
+    /**
+     * Returns the channel-wise sum this + c (saturating at 255, alpha included).
+     * 
+     * @param c - Colour to add
+     * @param out - Optional destination colour
+     */
+    public add(c: Color4, out: Color4 = new Color4()): Color4 {
+        return out.set(this.alpha + c.alpha, this.red + c.red, this.green + c.green, this.blue + c.blue);
+    }
+
+    /**
+     * Returns the channel-wise product this · c, with channels taken as 0–1 (modulation, alpha included).
+     * 
+     * @param c - Colour to multiply with
+     * @param out - Optional destination colour
+     */
+    public multiply(c: Color4, out: Color4 = new Color4()): Color4 {
+        return out.set(this.alpha * c.alpha / 255, this.red * c.red / 255, this.green * c.green / 255, this.blue * c.blue / 255);
+    }
+
+    /**
+     * Returns the colour with red, green and blue scaled by a factor (alpha is kept).
+     * 
+     * @param scale - Scaling factor
+     * @param out - Optional destination colour
+     */
+    public scale(scale: number, out: Color4 = new Color4()): Color4 {
+        return out.set(this.alpha, this.red * scale, this.green * scale, this.blue * scale);
+    }
+
+    /**
+     * Linearly interpolates all channels from this colour towards c.
+     * 
+     * @param c - Target colour
+     * @param t - Interpolation factor (0 = this, 1 = c)
+     * @param out - Optional destination colour
+     */
+    public lerp(c: Color4, t: number, out: Color4 = new Color4()): Color4 {
+        return out.set(lerp(this.alpha, c.alpha, t), lerp(this.red, c.red, t), lerp(this.green, c.green, t), lerp(this.blue, c.blue, t));
+    }
+
+    /**
+     * Returns the colour converted from sRGB to linear light (alpha is kept).
+     * 
+     * @param out - Optional destination colour
+     */
+    public toLinear(out: Color4 = new Color4()): Color4 {
+        return out.set(this.alpha, srgbToLinear(this.red / 255) * 255, srgbToLinear(this.green / 255) * 255, srgbToLinear(this.blue / 255) * 255);
+    }
+
+    /**
+     * Returns the colour converted from linear light to sRGB (alpha is kept).
+     * 
+     * @param out - Optional destination colour
+     */
+    public toSRGB(out: Color4 = new Color4()): Color4 {
+        return out.set(this.alpha, linearToSRGB(this.red / 255) * 255, linearToSRGB(this.green / 255) * 255, linearToSRGB(this.blue / 255) * 255);
+    }
+
+    /**
+     * Returns hue, saturation and value of this colour.
+     */
+    public toHSV(): HSV {
+        const r: number = this.red / 255, g: number = this.green / 255, b: number = this.blue / 255;
+        const max: number = Math.max(r, g, b);
+        const range: number = max - Math.min(r, g, b);
+
+        return { hue: hueOf(r, g, b, max, range), saturation: max === 0 ? 0 : range / max, value: max };
+    }
+
+    /**
+     * Returns hue, saturation and lightness of this colour.
+     */
+    public toHSL(): HSL {
+        const r: number = this.red / 255, g: number = this.green / 255, b: number = this.blue / 255;
+        const max: number = Math.max(r, g, b);
+        const min: number = Math.min(r, g, b);
+        const range: number = max - min;
+        const lightness: number = (max + min) / 2;
+        const saturation: number = range === 0 ? 0 : range / (1 - Math.abs(2 * lightness - 1));
+
+        return { hue: hueOf(r, g, b, max, range), saturation: saturation, lightness: lightness };
+    }
+
+    /**
+     * Creates a colour from hue, saturation and value.
+     * 
+     * @param hue - Hue in degrees (wraps around)
+     * @param saturation - Saturation (0–1)
+     * @param value - Value (0–1)
+     * @param alpha - Alpha component (0–255, default: 255)
+     */
+    public static fromHSV(hue: number, saturation: number, value: number, alpha: number = 255): Color4 {
+        const chroma: number = value * saturation;
+
+        return fromChroma(hue, chroma, value - chroma, alpha);
+    }
+
+    /**
+     * Creates a colour from hue, saturation and lightness.
+     * 
+     * @param hue - Hue in degrees (wraps around)
+     * @param saturation - Saturation (0–1)
+     * @param lightness - Lightness (0–1)
+     * @param alpha - Alpha component (0–255, default: 255)
+     */
+    public static fromHSL(hue: number, saturation: number, lightness: number, alpha: number = 255): Color4 {
+        const chroma: number = (1 - Math.abs(2 * lightness - 1)) * saturation;
+
+        return fromChroma(hue, chroma, lightness - chroma / 2, alpha);
+    }
+
+    /**
+     * Parses a hex or CSS colour string.
+     * 
+     * Accepted forms:
+     *   #rgb, #rgba, #rrggbb, #rrggbbaa
+     *   rgb(r, g, b), rgba(r, g, b, a)      – channels 0–255 or percentages, alpha 0–1 or a percentage
+     *   hsl(h, s%, l%), hsla(h, s%, l%, a)  – hue in degrees
+     * The space-separated CSS syntax (rgb(255 0 0 / 50%)) is accepted as well.
+     * 
+     * @param text - Colour string
+     * @returns A new Color4
+     */
+    public static parse(text: string): Color4 {
+        const source: string = text.trim().toLowerCase();
+
+        const hex: RegExpMatchArray | null = source.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+
+        if (hex) {
+            let digits: string = hex[1];
+
+            // Short forms: every digit doubled
+            if (digits.length <= 4) digits = digits.replace(/./g, "$&$&");
+
+            const value: number = parseInt(digits, 16);
+
+            return digits.length === 8
+                ? new Color4({ red: value >>> 24, green: (value >>> 16) & 0xff, blue: (value >>> 8) & 0xff, alpha: value & 0xff })
+                : new Color4({ red: value >>> 16, green: (value >>> 8) & 0xff, blue: value & 0xff });
+        }
+
+        const functional: RegExpMatchArray | null = source.match(/^(rgba?|hsla?)\(([^)]*)\)$/);
+
+        if (functional) {
+            const parts: string[] = functional[2].split(/\s*[,\/]\s*|\s+/).filter((part) => part.length > 0);
+
+            if (parts.length === 3 || parts.length === 4) {
+                const alpha: number = parts.length === 4 ? component(parts[3], 1) * 255 : 255;
+
+                if (functional[1].charAt(0) === "r") {
+                    return new Color4({ red: component(parts[0], 255), green: component(parts[1], 255), blue: component(parts[2], 255), alpha: alpha });
+                }
+
+                return Color4.fromHSL(parseFloat(parts[0]), component(parts[1], 1), component(parts[2], 1), alpha);
+            }
+        }
+
+        throw new Error(`Color4: cannot parse "${text}"`);
+    }
+
+    /**
+     * Formats the colour as a hex string.
+     * 
+     * @param alpha - Whether to append the alpha channel (#rrggbbaa, default: false)
+     */
+    public toHex(alpha: boolean = false): string {
+        const channels: number[] = alpha ? [this.red, this.green, this.blue, this.alpha] : [this.red, this.green, this.blue];
+
+        return "#" + channels.map((channel) => (channel < 16 ? "0" : "") + channel.toString(16)).join("");
+    }
+
+    /**
+     * Formats the colour as a CSS rgba() string.
+     */
+    public toCSS(): string {
+        return `rgba(${this.red}, ${this.green}, ${this.blue}, ${Math.round(this.alpha / 255 * 1000) / 1000})`;
+    }
+
+    /**
+     * Checks whether all channels equal those of another colour.
+     * 
+     * @param c - Colour to compare with
+     */
+    public equals(c: Color4): boolean {
+        return this.alpha === c.alpha && this.red === c.red && this.green === c.green && this.blue === c.blue;
+    }
+
+    /**
+     * Returns a copy of this colour (with the same caching flag).
+     */
+    public clone(): Color4 {
+        return new Color4({ alpha: this.alpha, red: this.red, green: this.green, blue: this.blue, caching: this.caching });
+    }
+
     /**
      * Returns a human-readable string representation of the colour.
      */
@@ -126,4 +399,90 @@ export class Color4 {
     static green  = new Color4({ alpha: 255, red: 0,   green: 255, blue: 0   });
     static blue   = new Color4({ alpha: 255, red: 0,   green: 0,   blue: 255 });
     static purple = new Color4({ alpha: 255, red: 255, green: 0,   blue: 255 });
-}
\ No newline at end of file
+}
+
+/**
+ * Converts an sRGB-encoded channel (0–1) to linear light (0–1).
+ * 
+ * @param value - sRGB channel value
+ */
+export function srgbToLinear(value: number): number {
+    return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Converts a linear-light channel (0–1) to sRGB encoding (0–1).
+ * 
+ * @param value - Linear channel value
+ */
+export function linearToSRGB(value: number): number {
+    return value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+}
+
+/**
+ * Interpolates two packed AABBGGRR colours without unpacking them.
+ * 
+ * The factor is quantised to 1/256; red and blue (and green and alpha) are blended in
+ * parallel, 16 bits apart in one integer, so each colour needs two multiplications.
+ * 
+ * @param from - Start colour (AABBGGRR)
+ * @param to - End colour (AABBGGRR)
+ * @param t - Interpolation factor (0 = from, 1 = to; clamped)
+ * @returns Interpolated colour (AABBGGRR)
+ */
+export function lerpAABBGGRR(from: number, to: number, t: number): number {
+    const weight: number = clamp(Math.round(t * 256), 0, 256);
+    const inverse: number = 256 - weight;
+
+    const redBlue: number = (((from & 0xff00ff) * inverse + (to & 0xff00ff) * weight) >>> 8) & 0xff00ff;
+    const greenAlpha: number = (((from >>> 8) & 0xff00ff) * inverse + ((to >>> 8) & 0xff00ff) * weight) & 0xff00ff00;
+
+    return (redBlue | greenAlpha) >>> 0;
+}
+
+/**
+ * Computes the hue (degrees) shared by HSV and HSL.
+ */
+function hueOf(r: number, g: number, b: number, max: number, range: number): number {
+    if (range === 0) return 0;
+
+    let hue: number;
+
+    if (max === r) hue = ((g - b) / range) % 6;
+    else if (max === g) hue = (b - r) / range + 2;
+    else hue = (r - g) / range + 4;
+
+    hue *= 60;
+
+    return hue < 0 ? hue + 360 : hue;
+}
+
+/**
+ * Builds a colour from hue, chroma and the amount added to every channel.
+ */
+function fromChroma(hue: number, chroma: number, offset: number, alpha: number): Color4 {
+    const sector: number = (((hue % 360) + 360) % 360) / 60;
+    const x: number = chroma * (1 - Math.abs((sector % 2) - 1));
+
+    let r: number = 0, g: number = 0, b: number = 0;
+
+    if (sector < 1)      { r = chroma; g = x; }
+    else if (sector < 2) { r = x; g = chroma; }
+    else if (sector < 3) { g = chroma; b = x; }
+    else if (sector < 4) { g = x; b = chroma; }
+    else if (sector < 5) { r = x; b = chroma; }
+    else                 { r = chroma; b = x; }
+
+    return new Color4({ alpha: alpha, red: (r + offset) * 255, green: (g + offset) * 255, blue: (b + offset) * 255 });
+}
+
+/**
+ * Parses a CSS colour component: a plain number, or a percentage of the given scale.
+ */
+function component(text: string, scale: number): number {
+    const value: number = parseFloat(text);
+
+    if (isNaN(value)) throw new Error(`Color4: invalid component "${text}"`);
+
+    return text.charAt(text.length - 1) === "%" ? value / 100 * scale : value;
+}
@@ -0,0 +1,233 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: palette.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   A 256-entry colour palette for the indexed (8-bit) framebuffer mode.
+ *
+ *   In indexed mode demos write palette indices into blitter.indexed (a Uint8Array), and
+ *   Blitter.blit() expands them through blitter.palette into the 32-bit backbuffer.
+ *   Changing the palette therefore recolours the whole frame without touching a pixel,
+ *   which is what classic palette effects are built on:
+ *     - Fades: fade() blends every entry towards one colour, lerp() towards another palette
+ *     - Cycling: rotate() shifts a range of entries in place, cycle() derives a rotated
+ *       copy from the elapsed time and a list of ranges (water, fire, plasma)
+ *
+ *   Palettes are read from palettised images (DecodedImage.palette) with fromImage(), and
+ *   written with encodeIndexedPNG() / encodeIndexedBMP() via toAABBGGRR().
+ *
+ *   Like Color4, the derived-palette methods take an optional "out" palette.
+ */
+import { DecodedImage } from "../image/image.interface.js";
+import { Color4 } from "./color4.js";
+
+// Number of entries in every palette
+export const PALETTE_SIZE: number = 256;
+
+/**
+ * A range of palette entries rotated by cycle().
+ */
+export interface CycleRange {
+    start: number;      // First entry (inclusive)
+    end: number;        // Last entry (inclusive)
+    rate: number;       // Entries per second; negative values cycle the other way
+}
+
+export class Palette {
+    public colors: Color4[];
+
+    // Packed entries, rebuilt on every expand() so edits to the colours are always picked up
+    private packed: Uint32Array = new Uint32Array(PALETTE_SIZE);
+
+    /**
+     * Creates a palette. Missing entries are black.
+     *
+     * @param colors - Optional initial colours (at most 256, copied)
+     */
+    public constructor(colors: Color4[] = []) {
+        if (colors.length > PALETTE_SIZE) throw new Error(`Palette: ${colors.length} colours exceed ${PALETTE_SIZE} entries`);
+
+        this.colors = [];
+
+        for (let i: number = 0; i < PALETTE_SIZE; i++) {
+            this.colors.push(i < colors.length ? colors[i].clone() : new Color4());
+        }
+    }
+
+    /**
+     * Creates a palette from packed AABBGGRR entries (e.g. DecodedImage.palette).
+     *
+     * @param entries - Up to 256 packed colours
+     */
+    public static fromAABBGGRR(entries: Uint32Array): Palette {
+        if (entries.length > PALETTE_SIZE) throw new Error(`Palette: ${entries.length} colours exceed ${PALETTE_SIZE} entries`);
+
+        const palette: Palette = new Palette();
+
+        for (let i: number = 0; i < entries.length; i++) {
+            palette.colors[i].fromAABBGGRR(entries[i]);
+        }
+
+        return palette;
+    }
+
+    /**
+     * Creates a palette from a palettised image (PCX, 1/4/8-bit BMP, PNG colour type 3).
+     *
+     * @param image - Decoded image with palette
+     */
+    public static fromImage(image: DecodedImage): Palette {
+        if (!image.palette) throw new Error("Palette: image has no palette");
+
+        return Palette.fromAABBGGRR(image.palette);
+    }
+
+    /**
+     * Creates a greyscale ramp from black (0) to white (255).
+     */
+    public static grayscale(): Palette {
+        return new Palette().ramp(0, PALETTE_SIZE - 1, Color4.black, Color4.white);
+    }
+
+    /**
+     * Fills a range of entries with a linear gradient, in place.
+     *
+     * @param start - First entry (receives "from")
+     * @param end - Last entry (receives "to")
+     * @param from - Start colour
+     * @param to - End colour
+     * @returns This palette
+     */
+    public ramp(start: number, end: number, from: Color4, to: Color4): Palette {
+        const count: number = end - start;
+
+        for (let i: number = start; i <= end; i++) {
+            from.lerp(to, count === 0 ? 0 : (i - start) / count, this.colors[i]);
+        }
+
+        return this;
+    }
+
+    /**
+     * Rotates a range of entries in place: entry i moves to i + steps, wrapping within the range.
+     *
+     * @param start - First entry (inclusive)
+     * @param end - Last entry (inclusive)
+     * @param steps - Entries to rotate by (negative rotates the other way)
+     * @returns This palette
+     */
+    public rotate(start: number, end: number, steps: number): Palette {
+        const length: number = end - start + 1;
+        const shift: number = ((Math.floor(steps) % length) + length) % length;
+
+        if (shift === 0) return this;
+
+        const range: Color4[] = this.colors.slice(start, end + 1);
+
+        for (let i: number = 0; i < length; i++) {
+            this.colors[start + (i + shift) % length] = range[i];
+        }
+
+        return this;
+    }
+
+    /**
+     * Returns a copy with each range rotated by rate · time entries.
+     * Derived from the time alone, so cycling is independent of the frame rate.
+     *
+     * @param ranges - Ranges to cycle
+     * @param time - Elapsed time in seconds
+     * @param out - Optional destination palette
+     */
+    public cycle(ranges: CycleRange[], time: number, out: Palette = new Palette()): Palette {
+        this.copy(out);
+
+        for (const range of ranges) {
+            out.rotate(range.start, range.end, range.rate * time);
+        }
+
+        return out;
+    }
+
+    /**
+     * Returns the palette faded towards a colour (e.g. black or white).
+     *
+     * @param color - Target colour
+     * @param t - Fade amount (0 = this palette, 1 = the colour everywhere)
+     * @param out - Optional destination palette
+     */
+    public fade(color: Color4, t: number, out: Palette = new Palette()): Palette {
+        for (let i: number = 0; i < PALETTE_SIZE; i++) {
+            this.colors[i].lerp(color, t, out.colors[i]);
+        }
+
+        return out;
+    }
+
+    /**
+     * Returns the entry-wise interpolation from this palette towards another.
+     *
+     * @param palette - Target palette
+     * @param t - Interpolation factor (0 = this, 1 = palette)
+     * @param out - Optional destination palette
+     */
+    public lerp(palette: Palette, t: number, out: Palette = new Palette()): Palette {
+        for (let i: number = 0; i < PALETTE_SIZE; i++) {
+            this.colors[i].lerp(palette.colors[i], t, out.colors[i]);
+        }
+
+        return out;
+    }
+
+    /**
+     * Copies all entries into another palette.
+     *
+     * @param out - Destination palette
+     * @returns The destination palette
+     */
+    public copy(out: Palette): Palette {
+        if (out === this) return out;
+
+        for (let i: number = 0; i < PALETTE_SIZE; i++) {
+            out.colors[i].fromAABBGGRR(this.colors[i].toAABBGGRR());
+        }
+
+        return out;
+    }
+
+    /**
+     * Returns a copy of this palette.
+     */
+    public clone(): Palette {
+        return this.copy(new Palette());
+    }
+
+    /**
+     * Returns the entries packed as AABBGGRR (for the image encoders).
+     *
+     * @param out - Optional destination array (256 entries)
+     */
+    public toAABBGGRR(out: Uint32Array = new Uint32Array(PALETTE_SIZE)): Uint32Array {
+        for (let i: number = 0; i < PALETTE_SIZE; i++) {
+            out[i] = this.colors[i].toAABBGGRR();
+        }
+
+        return out;
+    }
+
+    /**
+     * Expands palette indices into 32-bit AABBGGRR pixels.
+     *
+     * @param indices - Palette index per pixel
+     * @param backbuffer - Destination buffer (same length as indices)
+     */
+    public expand(indices: Uint8Array, backbuffer: Uint32Array): void {
+        const packed: Uint32Array = this.toAABBGGRR(this.packed);
+
+        for (let i: number = 0; i < indices.length; i++) {
+            backbuffer[i] = packed[indices[i]];
+        }
+    }
+}
@@ -24,10 +24,12 @@ export interface Demo {
     /**
      * Called once after the canvas and context are initialized.
      * Use this to set background colour, load assets, or reset state.
+     * May return a promise (e.g. an async function awaiting loadTexture());
+     * the engine waits for it before rendering the first frame.
      * 
      * @param blitter - Optional Blitter instance for low-level canvas access
      */
-    initialize(blitter?: Blitter): void;
+    initialize(blitter?: Blitter): void | Promise<void>;
 
     /**
      * Called every frame by the engine's render loop.
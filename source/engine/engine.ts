@@ -14,14 +14,20 @@
  *     - Call the demo's initialize() and render() functions
  *     - Handle timing (elapsed and delta time) per frame
  *     - Listen for keyboard input (spacebar toggles pause/resume)
+ *     - Feed keyboard and mouse state to the Input singleton (polled by demos and camera controllers)
  */
 import { Blitter } from "./blitter.js";
 import { Color4 } from "./color/color4.js";
 import { Demo } from "./demo.interface.js";
+import { Input } from "./input/input.js";
+import { CanvasSurface } from "./surface/canvas-surface.js";
 
 // Singleton instance of the Blitter (handles canvas and pixel access)
 const blitter: Blitter = Blitter.getInstance();
 
+// Singleton instance of the Input (keyboard and mouse state)
+const input: Input = Input.getInstance();
+
 /**
  * Loads and runs a demo.
  * 
@@ -36,11 +42,14 @@ export async function loader(path: string, width: number = 640, height: number =
     // Add the canvas to the DOM
     blitter.present();
 
+    // Track keyboard and mouse (mouse buttons and wheel on the canvas only)
+    input.attach(blitter.surface instanceof CanvasSurface ? blitter.surface.canvas : document);
+
     // Dynamically load the demo module
     const demo: Demo = await import(path);
 
-    // Run the demo one-time setup function
-    demo.initialize(blitter);
+    // Run the demo one-time setup function (and wait for any assets it loads)
+    await demo.initialize(blitter);
 
     // Animation state
     let running: boolean = true;
@@ -62,9 +71,13 @@ export async function loader(path: string, width: number = 640, height: number =
 
         elapsedTime += deltaTime;
 
-        // Run the demo rendering function
+        // Run the demo rendering function (with fresh draw statistics)
+        blitter.statistics.reset();
         demo.render(blitter, elapsedTime, deltaTime);
 
+        // Reset mouse movement and wheel for the next frame
+        input.endFrame();
+
         // Draw the backbuffer to canvas
         blitter.blit();
 
@@ -78,7 +91,12 @@ export async function loader(path: string, width: number = 640, height: number =
         // Press [Space] to toggle pause/resume
         if (event.code === "Space") {
             running = !running;
-            if (running) requestAnimationFrame(main);
+
+            if (running) {
+                // Drop mouse movement and wheel collected while paused, so controllers don't jump
+                input.endFrame();
+                requestAnimationFrame(main);
+            }
         }
     });
 }
\ No newline at end of file
@@ -0,0 +1,98 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: polygon2d.test.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Unit tests for Polygon2D: point containment under both fill rules and signed area.
+ *
+ *   The shapes are the classic cases where the rules disagree: nested contours wound the
+ *   same way and a self-intersecting pentagram. Run with scripts/test.mjs after compiling.
+ */
+import { Point2D } from "./point2d.js";
+import { FillRule, Polygon2D } from "./polygon2d.js";
+
+/**
+ * Named test functions; each throws an Error on failure.
+ */
+export const tests: { [name: string]: () => void } = {
+    "Polygon2D.contains square": () => {
+        const square: Polygon2D = Polygon2D.fromPoints(rectangle(0, 0, 10, 10));
+
+        for (const rule of ["even-odd", "non-zero"] as FillRule[]) {
+            expectContains(square, new Point2D(5, 5), rule, true);
+            expectContains(square, new Point2D(-1, 5), rule, false);
+            expectContains(square, new Point2D(11, 5), rule, false);
+            expectContains(square, new Point2D(5, 12), rule, false);
+        }
+    },
+
+    "Polygon2D.contains nested contours": () => {
+        // Inner contour wound the same way: a hole under even-odd only
+        const same: Polygon2D = new Polygon2D([rectangle(0, 0, 10, 10), rectangle(3, 3, 7, 7)]);
+
+        expectContains(same, new Point2D(5, 5), "even-odd", false);
+        expectContains(same, new Point2D(5, 5), "non-zero", true);
+        expectContains(same, new Point2D(1, 5), "even-odd", true);
+        expectContains(same, new Point2D(1, 5), "non-zero", true);
+
+        // Inner contour wound the other way: a hole under both rules
+        const hole: Polygon2D = new Polygon2D([rectangle(0, 0, 10, 10), rectangle(3, 3, 7, 7).reverse()]);
+
+        expectContains(hole, new Point2D(5, 5), "even-odd", false);
+        expectContains(hole, new Point2D(5, 5), "non-zero", false);
+        expectContains(hole, new Point2D(1, 5), "non-zero", true);
+    },
+
+    "Polygon2D.contains pentagram": () => {
+        // Every second vertex of a regular pentagon: the centre is wound around twice
+        const star: Point2D[] = [];
+
+        for (let i: number = 0; i < 5; i++) {
+            const angle: number = -Math.PI / 2 + i * 4 * Math.PI / 5;
+            star.push(new Point2D(10 * Math.cos(angle), 10 * Math.sin(angle)));
+        }
+
+        const pentagram: Polygon2D = Polygon2D.fromPoints(star);
+
+        expectContains(pentagram, new Point2D(0, 0), "even-odd", false);
+        expectContains(pentagram, new Point2D(0, 0), "non-zero", true);
+
+        // Inside a tip the outline is crossed once
+        expectContains(pentagram, new Point2D(0, -8), "even-odd", true);
+        expectContains(pentagram, new Point2D(0, -8), "non-zero", true);
+
+        expectContains(pentagram, new Point2D(0, -11), "non-zero", false);
+    },
+
+    "Polygon2D.signedArea": () => {
+        const square: Point2D[] = rectangle(0, 0, 2, 2);
+
+        // Clockwise on screen (y down) is positive; a reversed hole subtracts
+        expect(Polygon2D.fromPoints(square).signedArea() === 4, "clockwise square should have area 4");
+        expect(Polygon2D.fromPoints(square.slice().reverse()).signedArea() === -4, "counter-clockwise square should have area -4");
+        expect(new Polygon2D([rectangle(0, 0, 4, 4), rectangle(1, 1, 3, 3).reverse()]).signedArea() === 12, "square with hole should have area 12");
+    }
+};
+
+/**
+ * Returns the corners of an axis-aligned rectangle, clockwise on screen.
+ */
+function rectangle(minX: number, minY: number, maxX: number, maxY: number): Point2D[] {
+    return [new Point2D(minX, minY), new Point2D(maxX, minY), new Point2D(maxX, maxY), new Point2D(minX, maxY)];
+}
+
+/**
+ * Throws unless the condition holds.
+ */
+function expect(condition: boolean, message: string): void {
+    if (!condition) throw new Error(message);
+}
+
+/**
+ * Throws when contains() gives the wrong answer for a point.
+ */
+function expectContains(polygon: Polygon2D, point: Point2D, rule: FillRule, inside: boolean): void {
+    expect(polygon.contains(point, rule) === inside, `${point.toString()} should be ${inside ? "inside" : "outside"} under ${rule}`);
+}
@@ -0,0 +1,143 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: polygon2d.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Defines a Polygon2D class: one or more closed contours of 2D points.
+ *
+ *   Contours are implicitly closed (the last point connects back to the first). They may
+ *   be concave, intersect themselves or each other, and describe holes; which regions
+ *   count as inside is decided by the fill rule:
+ *     - "even-odd": inside when a ray from the point crosses the outline an odd number of times
+ *     - "non-zero": inside when the contours wind around the point a non-zero number of times
+ *       (holes then need the opposite winding to their outer contour)
+ *
+ *   Like Point2D and Triangle2D, transformations return a new polygon.
+ */
+import { Point2D } from "./point2d.js";
+
+/**
+ * Rule deciding which regions of a polygon are inside.
+ */
+export type FillRule = "even-odd" | "non-zero";
+
+export class Polygon2D {
+    public contours: Point2D[][];
+
+    /**
+     * Creates a new polygon from one or more contours.
+     *
+     * @param contours - Closed contours (each at least three points to enclose an area)
+     */
+    public constructor(contours: Point2D[][]) {
+        this.contours = contours;
+    }
+
+    /**
+     * Creates a polygon with a single contour.
+     *
+     * @param points - Contour points
+     */
+    public static fromPoints(points: Point2D[]): Polygon2D {
+        return new Polygon2D([points]);
+    }
+
+    /**
+     * Rotates the polygon around a given center point.
+     *
+     * @param angle - Rotation angle in radians
+     * @param center - The point to rotate around
+     * @returns A new rotated Polygon2D
+     */
+    public rotate(angle: number, center: Point2D): Polygon2D {
+        return this.map((p) => p.rotate(angle, center.x, center.y));
+    }
+
+    /**
+     * Returns a new polygon scaled uniformly around a center point.
+     *
+     * @param scale - Uniform scaling factor
+     * @param center - The point to scale around (default: origin)
+     * @returns A new scaled Polygon2D
+     */
+    public scale(scale: number, center: Point2D = new Point2D(0, 0)): Polygon2D {
+        return this.map((p) => new Point2D(center.x + (p.x - center.x) * scale, center.y + (p.y - center.y) * scale));
+    }
+
+    /**
+     * Returns a new polygon translated by (dx, dy).
+     *
+     * @param dx - X offset
+     * @param dy - Y offset
+     * @returns A new translated Polygon2D
+     */
+    public translate(dx: number, dy: number): Polygon2D {
+        return this.map((p) => p.translate(dx, dy));
+    }
+
+    /**
+     * Returns the sum of the contours' signed areas (shoelace formula).
+     *
+     * As for Triangle2D, a contour running clockwise on screen (y pointing down) has a
+     * positive area, so a hole wound the other way is subtracted.
+     */
+    public signedArea(): number {
+        let area: number = 0;
+
+        for (const contour of this.contours) {
+            for (let i: number = 0; i < contour.length; i++) {
+                const a: Point2D = contour[i];
+                const b: Point2D = contour[(i + 1) % contour.length];
+                area += a.x * b.y - b.x * a.y;
+            }
+        }
+
+        return area / 2;
+    }
+
+    /**
+     * Checks whether a point lies inside the polygon under the given fill rule.
+     *
+     * @param point - Point to test
+     * @param rule - Fill rule (default: "non-zero")
+     */
+    public contains(point: Point2D, rule: FillRule = "non-zero"): boolean {
+        let winding: number = 0;
+        let crossings: number = 0;
+
+        // Cast a ray towards +x and count the edges crossing it (half-open in y)
+        for (const contour of this.contours) {
+            for (let i: number = 0; i < contour.length; i++) {
+                const a: Point2D = contour[i];
+                const b: Point2D = contour[(i + 1) % contour.length];
+
+                if ((a.y <= point.y) === (b.y <= point.y)) continue;
+
+                const x: number = a.x + (point.y - a.y) * (b.x - a.x) / (b.y - a.y);
+
+                if (x > point.x) {
+                    crossings++;
+                    winding += b.y > a.y ? 1 : -1;
+                }
+            }
+        }
+
+        return rule === "even-odd" ? crossings % 2 === 1 : winding !== 0;
+    }
+
+    /**
+     * Returns a string representation of the polygon.
+     */
+    public toString(): string {
+        return `Polygon2D(${this.contours.map((contour) => `[${contour.map((p) => p.toString()).join(", ")}]`).join(", ")})`;
+    }
+
+    /**
+     * Applies a point transformation to every contour point.
+     */
+    private map(transform: (p: Point2D) => Point2D): Polygon2D {
+        return new Polygon2D(this.contours.map((contour) => contour.map(transform)));
+    }
+}
@@ -11,6 +11,11 @@
  */
 import { Point2D } from "./point2d.js";
 
+/**
+ * Winding order of a triangle's vertices a → b → c as seen on screen (y pointing down).
+ */
+export type Winding = "cw" | "ccw" | "degenerate";
+
 export class Triangle2D {
     public a: Point2D;
     public b: Point2D;
@@ -54,6 +59,27 @@ export class Triangle2D {
         );
     }
 
+    /**
+     * Returns the signed area of the triangle.
+     *
+     * In screen space (y pointing down) the area is positive when a → b → c runs clockwise
+     * on screen and negative when it runs counter-clockwise. Zero means degenerate.
+     */
+    public signedArea(): number {
+        return ((this.b.x - this.a.x) * (this.c.y - this.a.y) - (this.b.y - this.a.y) * (this.c.x - this.a.x)) / 2;
+    }
+
+    /**
+     * Returns the winding order of a → b → c as seen on screen (see signedArea()).
+     */
+    public winding(): Winding {
+        const area: number = this.signedArea();
+
+        if (area > 0) return "cw";
+        if (area < 0) return "ccw";
+        return "degenerate";
+    }
+
     /**
      * Returns the triangle's vertices sorted for scanline rasterisation.
      * Vertices are ordered by ascending Y-coordinate: [top, mid, bottom].
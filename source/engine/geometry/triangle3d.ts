@@ -0,0 +1,37 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: triangle3d.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Defines a Triangle3D class that stores three model-space vertices.
+ *   It is the input of the vertex pipeline, which turns it into a screen-space Triangle2D.
+ */
+import { Vertex3D } from "./vertex3d.js";
+
+export class Triangle3D {
+    public a: Vertex3D;
+    public b: Vertex3D;
+    public c: Vertex3D;
+
+    /**
+     * Creates a new triangle using three vertices.
+     *
+     * @param a - First vertex
+     * @param b - Second vertex
+     * @param c - Third vertex
+     */
+    public constructor(a: Vertex3D, b: Vertex3D, c: Vertex3D) {
+        this.a = a;
+        this.b = b;
+        this.c = c;
+    }
+
+    /**
+     * Returns a string representation of the triangle
+     */
+    public toString(): string {
+        return `Triangle3D(${this.a.toString()}, ${this.b.toString()}, ${this.c.toString()})`;
+    }
+}
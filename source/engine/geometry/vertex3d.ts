@@ -0,0 +1,48 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: vertex3d.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Defines a model-space vertex: a position plus the optional attributes that the
+ *   rasterisers can interpolate (colour, texture coordinates, normal).
+ */
+import { Color4 } from "../color/color4.js";
+import { Vector3 } from "../math/vector3.js";
+
+interface Vertex3DParameters {
+    color?: Color4;      // Vertex colour (default: white)
+    u?: number;          // Texture coordinate U (default: 0)
+    v?: number;          // Texture coordinate V (default: 0)
+    normal?: Vector3;    // Surface normal in model space (optional)
+}
+
+export class Vertex3D {
+    public position: Vector3;
+    public color: Color4;
+    public u: number;
+    public v: number;
+    public normal: Vector3 | null;
+
+    /**
+     * Creates a new vertex.
+     *
+     * @param position - Position in model space
+     * @param params - Optional vertex attributes
+     */
+    public constructor(position: Vector3, { color = Color4.white, u = 0, v = 0, normal }: Vertex3DParameters = {}) {
+        this.position = position;
+        this.color = color;
+        this.u = u;
+        this.v = v;
+        this.normal = normal ?? null;
+    }
+
+    /**
+     * Returns a string representation of the vertex position.
+     */
+    public toString(): string {
+        return `Vertex3D${this.position.toString()}`;
+    }
+}
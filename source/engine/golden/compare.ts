@@ -0,0 +1,71 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: compare.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Per-pixel image comparison with a channel tolerance.
+ *
+ *   Two pixels match when every channel (alpha, blue, green, red) differs by at most
+ *   the tolerance. The diff image shows matching pixels as a faded greyscale copy of
+ *   the reference and mismatching pixels in solid red, so errors stand out immediately.
+ */
+import { GoldenImage } from "./golden.interface.js";
+
+// Solid red in AABBGGRR format
+const MISMATCH: number = 0xff0000ff;
+
+/**
+ * Compares two images pixel by pixel.
+ *
+ * @param actual - The freshly rendered image
+ * @param expected - The reference image
+ * @param tolerance - Allowed per-channel difference (0–255)
+ * @returns The number of mismatching pixels and a diff image
+ */
+export function compareImages(actual: GoldenImage, expected: GoldenImage, tolerance: number = 0): { mismatched: number, diff: GoldenImage } {
+    const width: number = actual.width;
+    const height: number = actual.height;
+    const diff: Uint32Array = new Uint32Array(width * height);
+
+    // Different dimensions can't be compared – everything is a mismatch
+    if (width !== expected.width || height !== expected.height) {
+        diff.fill(MISMATCH);
+        return { mismatched: width * height, diff: { width, height, pixels: diff } };
+    }
+
+    let mismatched: number = 0;
+
+    for (let i: number = 0; i < diff.length; i++) {
+        const a: number = actual.pixels[i];
+        const b: number = expected.pixels[i];
+
+        if (a === b || withinTolerance(a, b, tolerance)) {
+            // Faded greyscale of the reference keeps the scene recognisable
+            const grey: number = 192 + ((((b & 0xff) + ((b >> 8) & 0xff) + ((b >> 16) & 0xff)) / 3) >> 2);
+            diff[i] = (0xff << 24) | (grey << 16) | (grey << 8) | grey;
+        } else {
+            diff[i] = MISMATCH;
+            mismatched++;
+        }
+    }
+
+    return { mismatched, diff: { width, height, pixels: diff } };
+}
+
+/**
+ * Checks whether all four 8-bit channels of two packed colours are within the tolerance.
+ *
+ * @param a - First colour (packed 32-bit)
+ * @param b - Second colour (packed 32-bit)
+ * @param tolerance - Allowed per-channel difference
+ * @returns true if every channel is within the tolerance
+ */
+function withinTolerance(a: number, b: number, tolerance: number): boolean {
+    for (let shift: number = 0; shift < 32; shift += 8) {
+        if (Math.abs(((a >>> shift) & 0xff) - ((b >>> shift) & 0xff)) > tolerance) return false;
+    }
+
+    return true;
+}
@@ -0,0 +1,91 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: file-store.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   GoldenStore that keeps images as PNG files in a directory.
+ *
+ *   An image named "05-flat-scanline/t=1.000" is stored as
+ *   "<directory>/05-flat-scanline/t=1.000.png". The file access itself is injected
+ *   (see GoldenFiles), so the engine build stays free of Node imports – the runner
+ *   script in scripts/golden.mjs passes fs/promises and zlib.deflateSync.
+ */
+import { decodeImage } from "../image/decoder.js";
+import { DecodedImage } from "../image/image.interface.js";
+import { encodePNG } from "../image/png.js";
+import { deflateStored } from "../image/zlib.js";
+import { GoldenImage, GoldenStore } from "./golden.interface.js";
+
+/**
+ * Minimal file access needed by FileGoldenStore.
+ */
+export interface GoldenFiles {
+    /**
+     * Reads a file, or resolves to null if it does not exist.
+     *
+     * @param path - File path
+     */
+    readFile(path: string): Promise<Uint8Array | null>;
+
+    /**
+     * Writes a file, creating missing parent directories.
+     *
+     * @param path - File path
+     * @param data - File contents
+     */
+    writeFile(path: string, data: Uint8Array): Promise<void>;
+}
+
+export class FileGoldenStore implements GoldenStore {
+    private directory: string;
+    private files: GoldenFiles;
+    private deflate: (data: Uint8Array) => Uint8Array;
+
+    /**
+     * Creates a store on a directory.
+     *
+     * @param directory - Directory holding the images
+     * @param files - File access
+     * @param deflate - zlib encoder for written PNGs (default: uncompressed blocks)
+     */
+    public constructor(directory: string, files: GoldenFiles, deflate: (data: Uint8Array) => Uint8Array = deflateStored) {
+        this.directory = directory;
+        this.files = files;
+        this.deflate = deflate;
+    }
+
+    /**
+     * Reads and decodes "<directory>/<name>.png", or resolves to null if it does not exist.
+     *
+     * @param name - Image name
+     */
+    public async read(name: string): Promise<GoldenImage | null> {
+        const bytes: Uint8Array | null = await this.files.readFile(this.pathOf(name));
+
+        if (!bytes) return null;
+
+        const image: DecodedImage = decodeImage(bytes);
+        return { width: image.width, height: image.height, pixels: image.pixels };
+    }
+
+    /**
+     * Encodes an image and writes it to "<directory>/<name>.png".
+     *
+     * @param name - Image name
+     * @param image - Image to store
+     */
+    public async write(name: string, image: GoldenImage): Promise<void> {
+        await this.files.writeFile(this.pathOf(name), encodePNG(image.width, image.height, image.pixels, this.deflate));
+    }
+
+    /**
+     * Returns the file path of an image.
+     *
+     * @param name - Image name
+     */
+    private pathOf(name: string): string {
+        return `${this.directory}/${name}.png`;
+    }
+}
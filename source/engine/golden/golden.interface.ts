@@ -0,0 +1,66 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: golden.interface.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Types shared by the golden-image regression harness.
+ *
+ *   The harness itself never touches the file system. Reading and writing reference
+ *   images is delegated to a GoldenStore, so the same harness runs in Node (files on disk),
+ *   in the browser (fetch + download) or fully in memory.
+ */
+
+/**
+ * A rendered or reference image in AABBGGRR format.
+ */
+export interface GoldenImage {
+    width: number;
+    height: number;
+    pixels: Uint32Array;
+}
+
+/**
+ * Describes one demo and the timestamps at which it is captured.
+ */
+export interface GoldenScene {
+    name: string;           // Unique scene name (used as prefix for image names)
+    path: string;           // Module path of the compiled demo, as passed to loader()
+    width: number;          // Backbuffer width in pixels
+    height: number;         // Backbuffer height in pixels
+    timestamps: number[];   // Elapsed times (in seconds, ascending) to capture
+    tolerance?: number;     // Allowed per-channel difference (0–255, default: 0)
+}
+
+/**
+ * Storage backend for reference and diff images.
+ */
+export interface GoldenStore {
+    /**
+     * Reads a reference image, or resolves to null if it does not exist yet.
+     *
+     * @param name - Image name, e.g. "05-flat-scanline/t=1.000"
+     */
+    read(name: string): Promise<GoldenImage | null>;
+
+    /**
+     * Writes an image (a newly recorded reference or a diff image).
+     *
+     * @param name - Image name
+     * @param image - Image to store
+     */
+    write(name: string, image: GoldenImage): Promise<void>;
+}
+
+/**
+ * Outcome of comparing one captured frame against its reference.
+ *
+ * "missing" means no reference exists; it counts as a failure, so a fresh checkout
+ * cannot pass by comparing against nothing. References are only written when recording.
+ */
+export interface GoldenResult {
+    name: string;
+    status: "passed" | "failed" | "missing" | "recorded";
+    mismatched: number;     // Number of pixels outside the tolerance
+}
@@ -0,0 +1,111 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: harness.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Golden-image regression harness for the rasterisers and demos.
+ *
+ *   For each scene the harness:
+ *     - Creates the Blitter on an in-memory surface (no DOM required)
+ *     - Loads the demo module and calls initialize() once
+ *     - Calls render() at each fixed timestamp and captures the backbuffer
+ *     - Compares the capture against the stored reference image
+ *     - Writes a diff image on failure (a missing reference fails as well)
+ *     - In record mode, stores the capture as the new reference instead of comparing
+ *
+ *   Deltas passed to render() are derived from the timestamps, so a demo sees the
+ *   same (elapsedTime, deltaTime) sequence on every run.
+ */
+import { Blitter } from "../blitter.js";
+import { Demo } from "../demo.interface.js";
+import { compareImages } from "./compare.js";
+import { GoldenImage, GoldenResult, GoldenScene, GoldenStore } from "./golden.interface.js";
+
+/**
+ * Renders a demo at fixed timestamps into an off-screen backbuffer.
+ *
+ * @param demo - The demo module
+ * @param width - Backbuffer width in pixels
+ * @param height - Backbuffer height in pixels
+ * @param timestamps - Elapsed times (in seconds, ascending) to capture
+ * @returns One captured image per timestamp
+ */
+export async function captureDemo(demo: Demo, width: number, height: number, timestamps: number[]): Promise<GoldenImage[]> {
+    const blitter: Blitter = Blitter.getInstance();
+    blitter.create({ width, height, target: "memory" });
+
+    await demo.initialize(blitter);
+
+    const images: GoldenImage[] = [];
+    let previous: number = 0;
+
+    for (const elapsedTime of timestamps) {
+        demo.render(blitter, elapsedTime, elapsedTime - previous);
+        blitter.blit();
+
+        // Copy, since the next frame renders into the same backbuffer
+        images.push({ width, height, pixels: blitter.backbuffer.slice() });
+        previous = elapsedTime;
+    }
+
+    return images;
+}
+
+/**
+ * Returns the image name for a scene at a given timestamp.
+ *
+ * @param scene - The scene
+ * @param elapsedTime - The timestamp in seconds
+ * @returns e.g. "05-flat-scanline/t=1.000"
+ */
+export function imageName(scene: GoldenScene, elapsedTime: number): string {
+    return `${scene.name}/t=${elapsedTime.toFixed(3)}`;
+}
+
+/**
+ * Runs all scenes and compares them against their references.
+ *
+ * @param scenes - Scenes to run
+ * @param store - Storage for reference and diff images
+ * @param record - Write the captures as references instead of comparing (default: false)
+ * @returns One result per captured frame
+ */
+export async function runGolden(scenes: GoldenScene[], store: GoldenStore, record: boolean = false): Promise<GoldenResult[]> {
+    const results: GoldenResult[] = [];
+
+    for (const scene of scenes) {
+        const demo: Demo = await import(scene.path);
+        const images: GoldenImage[] = await captureDemo(demo, scene.width, scene.height, scene.timestamps);
+
+        for (let i: number = 0; i < images.length; i++) {
+            const name: string = imageName(scene, scene.timestamps[i]);
+
+            // Recording: the capture becomes the reference
+            if (record) {
+                await store.write(name, images[i]);
+                results.push({ name, status: "recorded", mismatched: 0 });
+                continue;
+            }
+
+            const reference: GoldenImage | null = await store.read(name);
+
+            // Never record implicitly, or a lost reference would silently pass
+            if (!reference) {
+                results.push({ name, status: "missing", mismatched: images[i].width * images[i].height });
+                continue;
+            }
+
+            const { mismatched, diff } = compareImages(images[i], reference, scene.tolerance ?? 0);
+
+            if (mismatched > 0) {
+                await store.write(`${name}.diff`, diff);
+            }
+
+            results.push({ name, status: mismatched > 0 ? "failed" : "passed", mismatched });
+        }
+    }
+
+    return results;
+}
@@ -0,0 +1,33 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: scenes.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Reference scenes for the golden-image harness, one per demo in source/demos.
+ *   Paths are relative to this module in the compiled build (build/engine/golden/).
+ *
+ *   Timestamps are chosen to cover several rotation angles and scales per demo.
+ *   Add a scene here whenever a new demo is added.
+ */
+import { GoldenScene } from "./golden.interface.js";
+
+const timestamps: number[] = [0, 0.5, 1.25, 2.75];
+
+export const scenes: GoldenScene[] = [
+    { name: "01-2d-rotating-points",          path: "../../demos/01-2d-rotating-points/demo.js",          width: 640, height: 480, timestamps },
+    { name: "02-2d-rotating-lines-dda",       path: "../../demos/02-2d-rotating-lines-dda/demo.js",       width: 640, height: 480, timestamps },
+    { name: "03-2d-rotating-lines-bresenham", path: "../../demos/03-2d-rotating-lines-bresenham/demo.js", width: 640, height: 480, timestamps },
+    { name: "04-2d-rotating-lines-clipping",  path: "../../demos/04-2d-rotating-lines-clipping/demo.js",  width: 640, height: 480, timestamps },
+    { name: "05-flat-scanline",               path: "../../demos/05-flat-scanline/demo.js",               width: 640, height: 480, timestamps },
+    { name: "06-flat-edge-function",          path: "../../demos/06-flat-edge-function/demo.js",          width: 640, height: 480, timestamps },
+    { name: "07-camera",                      path: "../../demos/07-camera/demo.js",                      width: 640, height: 480, timestamps },
+    { name: "08-lighting",                    path: "../../demos/08-lighting/demo.js",                    width: 640, height: 480, timestamps },
+    { name: "09-blend",                       path: "../../demos/09-blend/demo.js",                       width: 640, height: 480, timestamps },
+    { name: "10-palette",                     path: "../../demos/10-palette/demo.js",                     width: 640, height: 480, timestamps },
+    { name: "11-lines",                       path: "../../demos/11-lines/demo.js",                       width: 640, height: 480, timestamps },
+    { name: "12-curves",                      path: "../../demos/12-curves/demo.js",                      width: 640, height: 480, timestamps },
+    { name: "13-polygons",                    path: "../../demos/13-polygons/demo.js",                    width: 640, height: 480, timestamps },
+    { name: "14-text",                        path: "../../demos/14-text/demo.js",                        width: 640, height: 480, timestamps }
+];
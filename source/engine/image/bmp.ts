@@ -0,0 +1,374 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: bmp.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Self-contained BMP encoder and decoder for 32-bit AABBGGRR buffers.
+ *
+ *   Encoder output format (uncompressed):
+ *     - BITMAPFILEHEADER (14 bytes) + BITMAPV4HEADER (108 bytes)
+ *     - 32 bits per pixel, BI_BITFIELDS with explicit masks so alpha is preserved
+ *     - Rows stored bottom-up (positive height) for maximum compatibility
+ *     - encodeIndexedBMP(): BITMAPINFOHEADER (40 bytes), 8 bits per pixel with palette
+ *       (palette alpha is not stored)
+ *
+ *   Decoder support:
+ *     - OS/2 core headers and Windows BITMAPINFOHEADER / V4 / V5 headers
+ *     - 1, 4 and 8 bits per pixel with palette, including RLE4 and RLE8 compression
+ *     - 16, 24 and 32 bits per pixel, including BI_BITFIELDS masks
+ *     - Alpha from an alpha mask; 32-bit BI_RGB images use the fourth byte as alpha
+ *       only if it is non-zero somewhere (most writers leave it at 0)
+ *     - Bottom-up and top-down row order
+ *
+ *   Byte order:
+ *     BMP stores each pixel as a little-endian BGRA quad, i.e. the 32-bit value AARRGGBB.
+ *     Red and blue are swapped from the backbuffer's AABBGGRR while copying.
+ */
+
+import { DecodedImage, packAABBGGRR } from "./image.interface.js";
+
+const FILE_HEADER_SIZE: number = 14;
+const INFO_HEADER_SIZE: number = 108;
+
+/**
+ * Encodes a 32-bit AABBGGRR pixel buffer as a BMP file.
+ *
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ * @param pixels - Pixel buffer (width * height entries)
+ * @returns The BMP file contents
+ */
+export function encodeBMP(width: number, height: number, pixels: Uint32Array): Uint8Array {
+    const offset: number = FILE_HEADER_SIZE + INFO_HEADER_SIZE;
+    const imageSize: number = width * height * 4;
+
+    const output: Uint8Array = new Uint8Array(offset + imageSize);
+    const view: DataView = new DataView(output.buffer);
+
+    // BITMAPFILEHEADER
+    output[0] = 0x42; // 'B'
+    output[1] = 0x4d; // 'M'
+    view.setUint32(2, output.length, true);
+    view.setUint32(10, offset, true);
+
+    // BITMAPV4HEADER
+    view.setUint32(14, INFO_HEADER_SIZE, true);
+    view.setInt32(18, width, true);
+    view.setInt32(22, height, true);          // Positive: bottom-up rows
+    view.setUint16(26, 1, true);              // Planes
+    view.setUint16(28, 32, true);             // Bits per pixel
+    view.setUint32(30, 3, true);              // Compression: BI_BITFIELDS
+    view.setUint32(34, imageSize, true);
+    view.setInt32(38, 2835, true);            // 72 DPI horizontally (pixels per metre)
+    view.setInt32(42, 2835, true);            // 72 DPI vertically
+    view.setUint32(54, 0x00ff0000, true);     // Red mask
+    view.setUint32(58, 0x0000ff00, true);     // Green mask
+    view.setUint32(62, 0x000000ff, true);     // Blue mask
+    view.setUint32(66, 0xff000000, true);     // Alpha mask
+    view.setUint32(70, 0x73524742, true);     // Colour space: 'sRGB'
+
+    let position: number = offset;
+
+    for (let y: number = height - 1; y >= 0; y--) {
+        for (let x: number = 0; x < width; x++) {
+            const color: number = pixels[y * width + x];
+            output[position++] = (color >>> 16) & 0xff; // Blue
+            output[position++] = (color >>> 8) & 0xff;  // Green
+            output[position++] = color & 0xff;          // Red
+            output[position++] = (color >>> 24) & 0xff; // Alpha
+        }
+    }
+
+    return output;
+}
+
+/**
+ * Encodes 8-bit palette indices and their palette as an uncompressed 8-bit BMP file.
+ *
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ * @param indices - Palette index per pixel (width * height entries)
+ * @param palette - AABBGGRR palette entries (1–256)
+ * @returns The BMP file contents
+ */
+export function encodeIndexedBMP(width: number, height: number, indices: Uint8Array, palette: Uint32Array): Uint8Array {
+    if (palette.length === 0 || palette.length > 256) throw new Error(`BMP: invalid palette size ${palette.length}`);
+
+    const headerSize: number = 40;
+    const paletteSize: number = palette.length * 4;
+    const offset: number = FILE_HEADER_SIZE + headerSize + paletteSize;
+
+    // Rows are padded to a multiple of 4 bytes
+    const stride: number = (width + 3) & ~3;
+    const imageSize: number = stride * height;
+
+    const output: Uint8Array = new Uint8Array(offset + imageSize);
+    const view: DataView = new DataView(output.buffer);
+
+    // BITMAPFILEHEADER
+    output[0] = 0x42; // 'B'
+    output[1] = 0x4d; // 'M'
+    view.setUint32(2, output.length, true);
+    view.setUint32(10, offset, true);
+
+    // BITMAPINFOHEADER
+    view.setUint32(14, headerSize, true);
+    view.setInt32(18, width, true);
+    view.setInt32(22, height, true);          // Positive: bottom-up rows
+    view.setUint16(26, 1, true);              // Planes
+    view.setUint16(28, 8, true);              // Bits per pixel
+    view.setUint32(30, 0, true);              // Compression: BI_RGB
+    view.setUint32(34, imageSize, true);
+    view.setInt32(38, 2835, true);            // 72 DPI horizontally (pixels per metre)
+    view.setInt32(42, 2835, true);            // 72 DPI vertically
+    view.setUint32(46, palette.length, true); // Colours used
+
+    // Palette as BGR0 quads
+    for (let i: number = 0; i < palette.length; i++) {
+        const position: number = FILE_HEADER_SIZE + headerSize + i * 4;
+        output[position]     = (palette[i] >>> 16) & 0xff; // Blue
+        output[position + 1] = (palette[i] >>> 8) & 0xff;  // Green
+        output[position + 2] = palette[i] & 0xff;          // Red
+    }
+
+    for (let y: number = 0; y < height; y++) {
+        output.set(indices.subarray(y * width, (y + 1) * width), offset + (height - 1 - y) * stride);
+    }
+
+    return output;
+}
+
+
+/**
+ * Checks whether the bytes start with the BMP signature ("BM").
+ *
+ * @param bytes - File contents
+ */
+export function isBMP(bytes: Uint8Array): boolean {
+    return bytes.length >= 2 && bytes[0] === 0x42 && bytes[1] === 0x4d;
+}
+
+/**
+ * Decodes a BMP file into AABBGGRR pixels.
+ *
+ * @param bytes - File contents
+ * @returns The decoded image (palette and indices are set for 1, 4 and 8 bits per pixel)
+ */
+export function decodeBMP(bytes: Uint8Array): DecodedImage {
+    if (!isBMP(bytes) || bytes.length < FILE_HEADER_SIZE + 12) throw new Error("BMP: invalid signature");
+
+    const view: DataView = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    const dataOffset: number = view.getUint32(10, true);
+    const headerSize: number = view.getUint32(14, true);
+    const core: boolean = headerSize === 12;
+
+    const width: number = core ? view.getUint16(18, true) : view.getInt32(18, true);
+    const rawHeight: number = core ? view.getInt16(20, true) : view.getInt32(22, true);
+    const bitsPerPixel: number = core ? view.getUint16(24, true) : view.getUint16(28, true);
+    const compression: number = core ? 0 : view.getUint32(30, true);
+    const colorsUsed: number = core ? 0 : view.getUint32(46, true);
+
+    // Negative height means rows are stored top-down
+    const topDown: boolean = rawHeight < 0;
+    const height: number = Math.abs(rawHeight);
+
+    if (width <= 0 || height === 0) throw new Error("BMP: invalid dimensions");
+
+    // Colour masks: defaults per bit depth, overridden by BI_BITFIELDS (3) / BI_ALPHABITFIELDS (6)
+    let masks: [number, number, number, number] = bitsPerPixel === 16
+        ? [0x7c00, 0x03e0, 0x001f, 0]
+        : [0x00ff0000, 0x0000ff00, 0x000000ff, 0];
+
+    let paletteOffset: number = FILE_HEADER_SIZE + headerSize;
+
+    if (compression === 3 || compression === 6) {
+        // Masks live inside V2+ headers, or directly after a plain 40-byte header
+        masks = [
+            view.getUint32(54, true),
+            view.getUint32(58, true),
+            view.getUint32(62, true),
+            compression === 6 || headerSize >= 56 ? view.getUint32(66, true) : 0
+        ];
+
+        if (headerSize === 40) {
+            paletteOffset += compression === 6 ? 16 : 12;
+        }
+    } else if (headerSize >= 56) {
+        masks[3] = view.getUint32(66, true);
+    }
+
+    if ([0, 1, 2, 3, 6].indexOf(compression) < 0) throw new Error(`BMP: unsupported compression ${compression}`);
+
+    const image: DecodedImage = {
+        width,
+        height,
+        pixels: new Uint32Array(width * height),
+        palette: null,
+        indices: null
+    };
+
+    // Maps a stored row to its destination row
+    const rowOf = (y: number): number => topDown ? y : height - 1 - y;
+
+    if (bitsPerPixel <= 8) {
+        // Palettised: BGRx entries (BGR for OS/2 core headers), reserved byte ignored
+        const entrySize: number = core ? 3 : 4;
+        const count: number = colorsUsed || (1 << bitsPerPixel);
+        const palette: Uint32Array = new Uint32Array(count);
+
+        for (let i: number = 0; i < count; i++) {
+            const offset: number = paletteOffset + i * entrySize;
+            palette[i] = packAABBGGRR(bytes[offset + 2], bytes[offset + 1], bytes[offset], 255);
+        }
+
+        const indices: Uint8Array = new Uint8Array(width * height);
+
+        if (compression === 1 || compression === 2) {
+            decodeRLE(bytes, dataOffset, width, height, compression === 1 ? 8 : 4, indices, rowOf);
+        } else {
+            const stride: number = ((width * bitsPerPixel + 31) >> 5) * 4;
+
+            for (let y: number = 0; y < height; y++) {
+                const row: number = dataOffset + y * stride;
+                const destination: number = rowOf(y) * width;
+
+                for (let x: number = 0; x < width; x++) {
+                    const bit: number = x * bitsPerPixel;
+                    const shift: number = 8 - bitsPerPixel - (bit & 7);
+                    indices[destination + x] = (bytes[row + (bit >> 3)] >> shift) & ((1 << bitsPerPixel) - 1);
+                }
+            }
+        }
+
+        for (let i: number = 0; i < indices.length; i++) {
+            if (indices[i] >= count) throw new Error(`BMP: palette index ${indices[i]} out of range`);
+            image.pixels[i] = palette[indices[i]];
+        }
+
+        image.palette = palette;
+        image.indices = indices;
+
+        return image;
+    }
+
+    if ([16, 24, 32].indexOf(bitsPerPixel) < 0) throw new Error(`BMP: unsupported bit depth ${bitsPerPixel}`);
+
+    const bytesPerPixel: number = bitsPerPixel >> 3;
+    const stride: number = ((width * bitsPerPixel + 31) >> 5) * 4;
+
+    if (dataOffset + stride * height > bytes.length) throw new Error("BMP: pixel data too short");
+
+    // 32-bit BI_RGB: the fourth byte is only alpha if a writer actually filled it in
+    if (bitsPerPixel === 32 && compression === 0) {
+        let hasAlpha: boolean = false;
+
+        for (let y: number = 0; y < height && !hasAlpha; y++) {
+            for (let x: number = 0; x < width; x++) {
+                if (bytes[dataOffset + y * stride + x * 4 + 3] !== 0) {
+                    hasAlpha = true;
+                    break;
+                }
+            }
+        }
+
+        if (hasAlpha) masks[3] = 0xff000000;
+    }
+
+    for (let y: number = 0; y < height; y++) {
+        const row: number = dataOffset + y * stride;
+        const destination: number = rowOf(y) * width;
+
+        for (let x: number = 0; x < width; x++) {
+            const offset: number = row + x * bytesPerPixel;
+
+            if (bitsPerPixel === 24) {
+                image.pixels[destination + x] = packAABBGGRR(bytes[offset + 2], bytes[offset + 1], bytes[offset], 255);
+                continue;
+            }
+
+            const value: number = bitsPerPixel === 16 ? view.getUint16(offset, true) : view.getUint32(offset, true);
+
+            image.pixels[destination + x] = packAABBGGRR(
+                extractMask(value, masks[0]),
+                extractMask(value, masks[1]),
+                extractMask(value, masks[2]),
+                masks[3] ? extractMask(value, masks[3]) : 255
+            );
+        }
+    }
+
+    return image;
+}
+
+/**
+ * Extracts a channel with a bit mask and scales it to 0–255.
+ *
+ * @param value - Packed pixel value
+ * @param mask - Channel mask (contiguous bits)
+ */
+function extractMask(value: number, mask: number): number {
+    if (mask === 0) return 0;
+
+    let shift: number = 0;
+    while (((mask >>> shift) & 1) === 0) shift++;
+
+    const max: number = mask >>> shift;
+    return Math.round((((value & mask) >>> shift) * 255) / max);
+}
+
+/**
+ * Decodes RLE8 / RLE4 compressed palette indices.
+ *
+ * @param bytes - File contents
+ * @param offset - Offset of the compressed data
+ * @param width - Image width
+ * @param height - Image height
+ * @param bits - 8 for RLE8, 4 for RLE4
+ * @param indices - Destination index buffer
+ * @param rowOf - Maps a stored row to its destination row
+ */
+function decodeRLE(bytes: Uint8Array, offset: number, width: number, height: number, bits: number, indices: Uint8Array, rowOf: (y: number) => number): void {
+    let x: number = 0;
+    let y: number = 0;
+    let position: number = offset;
+
+    const put = (index: number): void => {
+        if (x < width && y < height) indices[rowOf(y) * width + x] = index;
+        x++;
+    };
+
+    while (position + 1 < bytes.length && y < height) {
+        const count: number = bytes[position++];
+        const value: number = bytes[position++];
+
+        if (count > 0) {
+            // Encoded run: RLE4 alternates the two nibbles of the value
+            for (let i: number = 0; i < count; i++) {
+                put(bits === 8 ? value : (i & 1) ? value & 0x0f : value >> 4);
+            }
+        } else if (value === 0) {
+            // End of line
+            x = 0;
+            y++;
+        } else if (value === 1) {
+            // End of bitmap
+            return;
+        } else if (value === 2) {
+            // Delta: move right and down
+            x += bytes[position++];
+            y += bytes[position++];
+        } else {
+            // Absolute mode: "value" literal indices, padded to a 16-bit boundary
+            const length: number = bits === 8 ? value : (value + 1) >> 1;
+
+            for (let i: number = 0; i < value; i++) {
+                put(bits === 8 ? bytes[position + i] : (i & 1) ? bytes[position + (i >> 1)] & 0x0f : bytes[position + (i >> 1)] >> 4);
+            }
+
+            position += length + (length & 1);
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,77 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: checksum.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Checksums required by the image codecs:
+ *     - CRC-32 (PNG chunk integrity)
+ *     - Adler-32 (zlib stream integrity)
+ */
+
+// Lazily built lookup table for the reflected CRC-32 polynomial 0xEDB88320
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Builds the 256-entry CRC-32 lookup table.
+ */
+function buildCrcTable(): Uint32Array {
+    const table: Uint32Array = new Uint32Array(256);
+
+    for (let n: number = 0; n < 256; n++) {
+        let c: number = n;
+        for (let k: number = 0; k < 8; k++) {
+            c = (c & 1) ? (0xedb88320 ^ (c >>> 1)) : (c >>> 1);
+        }
+        table[n] = c;
+    }
+
+    return table;
+}
+
+/**
+ * Computes the CRC-32 of a byte range.
+ *
+ * @param bytes - Input bytes
+ * @param start - First byte (inclusive, default: 0)
+ * @param end - Last byte (exclusive, default: bytes.length)
+ * @returns The unsigned 32-bit checksum
+ */
+export function crc32(bytes: Uint8Array, start: number = 0, end: number = bytes.length): number {
+    const table: Uint32Array = crcTable ?? (crcTable = buildCrcTable());
+
+    let crc: number = 0xffffffff;
+
+    for (let i: number = start; i < end; i++) {
+        crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Computes the Adler-32 of a byte array.
+ *
+ * @param bytes - Input bytes
+ * @returns The unsigned 32-bit checksum
+ */
+export function adler32(bytes: Uint8Array): number {
+    let a: number = 1;
+    let b: number = 0;
+
+    // 5552 is the largest block that can't overflow before the modulo
+    for (let i: number = 0; i < bytes.length; ) {
+        const end: number = Math.min(i + 5552, bytes.length);
+
+        for (; i < end; i++) {
+            a += bytes[i];
+            b += a;
+        }
+
+        a %= 65521;
+        b %= 65521;
+    }
+
+    return ((b << 16) | a) >>> 0;
+}
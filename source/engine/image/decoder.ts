@@ -0,0 +1,35 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: decoder.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Format detection and dispatch for the built-in image decoders.
+ *
+ *   Detection is based on the file contents, not the file name:
+ *     - PNG: 8-byte signature
+ *     - BMP: "BM"
+ *     - PCX: manufacturer byte 0x0A
+ *     - TGA: header sanity check (TGA has no magic number, so it is tried last)
+ */
+import { decodeBMP, isBMP } from "./bmp.js";
+import { DecodedImage } from "./image.interface.js";
+import { decodePCX, isPCX } from "./pcx.js";
+import { decodePNG, isPNG } from "./png.js";
+import { decodeTGA, isTGA } from "./tga.js";
+
+/**
+ * Decodes an image file of any supported format.
+ *
+ * @param bytes - File contents
+ * @returns The decoded image
+ */
+export function decodeImage(bytes: Uint8Array): DecodedImage {
+    if (isPNG(bytes)) return decodePNG(bytes);
+    if (isBMP(bytes)) return decodeBMP(bytes);
+    if (isPCX(bytes)) return decodePCX(bytes);
+    if (isTGA(bytes)) return decodeTGA(bytes);
+
+    throw new Error("Image: unrecognised format");
+}
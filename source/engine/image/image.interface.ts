@@ -0,0 +1,32 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: image.interface.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Defines the DecodedImage interface returned by all image decoders.
+ *
+ *   Pixels are always expanded to the engine's 32-bit AABBGGRR format, so the result
+ *   can be used directly as texture data or copied into a backbuffer. Palettised images
+ *   additionally keep their palette (AABBGGRR) and the 8-bit index per pixel.
+ */
+export interface DecodedImage {
+    width: number;
+    height: number;
+    pixels: Uint32Array;            // AABBGGRR, top row first
+    palette: Uint32Array | null;    // AABBGGRR palette entries for palettised images
+    indices: Uint8Array | null;     // Palette index per pixel for palettised images
+}
+
+/**
+ * Packs 8-bit channels into a 32-bit AABBGGRR value.
+ *
+ * @param red - Red (0–255)
+ * @param green - Green (0–255)
+ * @param blue - Blue (0–255)
+ * @param alpha - Alpha (0–255)
+ */
+export function packAABBGGRR(red: number, green: number, blue: number, alpha: number): number {
+    return ((alpha << 24) | (blue << 16) | (green << 8) | red) >>> 0;
+}
@@ -0,0 +1,307 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: image.test.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Unit tests for the PNG, TGA, BMP and PCX decoders.
+ *
+ *   Input files are assembled byte by byte (or with the encoders), so every expected
+ *   pixel can be read off the test. Malformed files must throw, never decode to black.
+ *   Run with scripts/test.mjs after compiling.
+ */
+import { decodeBMP, encodeBMP, encodeIndexedBMP } from "./bmp.js";
+import { crc32 } from "./checksum.js";
+import { DecodedImage, packAABBGGRR } from "./image.interface.js";
+import { decodePCX } from "./pcx.js";
+import { decodePNG, encodeIndexedPNG, encodePNG } from "./png.js";
+import { decodeTGA } from "./tga.js";
+import { deflateStored } from "./zlib.js";
+
+const RED: number = packAABBGGRR(255, 0, 0, 255);
+const GREEN: number = packAABBGGRR(0, 255, 0, 255);
+const BLUE: number = packAABBGGRR(0, 0, 255, 255);
+
+// TGA image descriptor: rows stored top to bottom
+const TOP_DOWN: number = 0x20;
+
+/**
+ * Named test functions; each throws an Error on failure.
+ */
+export const tests: { [name: string]: () => void } = {
+    "PNG round trip": () => {
+        const pixels: Uint32Array = new Uint32Array([RED, GREEN, BLUE, packAABBGGRR(1, 2, 3, 128)]);
+
+        expectPixels(decodePNG(encodePNG(2, 2, pixels)), Array.from(pixels));
+
+        const palette: Uint32Array = new Uint32Array([RED, packAABBGGRR(0, 255, 0, 64)]);
+        const image: DecodedImage = decodePNG(encodeIndexedPNG(3, 1, new Uint8Array([1, 0, 1]), palette));
+
+        expectPixels(image, [palette[1], RED, palette[1]]);
+        expect(image.indices !== null && Array.from(image.indices).join() === "1,0,1", "indices not kept");
+    },
+
+    "PNG greyscale": () => {
+        // 1 bit: 1, 0, 1 packed MSB first
+        expectPixels(decodePNG(png(3, 1, 1, 0, [0, 0b10100000])), [grey(255), grey(0), grey(255)]);
+
+        // 2 and 4 bits are scaled to the full byte range
+        expectPixels(decodePNG(png(2, 1, 2, 0, [0, 0b01110000])), [grey(85), grey(255)]);
+        expectPixels(decodePNG(png(2, 1, 4, 0, [0, 0x3f])), [grey(51), grey(255)]);
+
+        // 16 bits keep the high byte; the colour key compares all 16 bits
+        const key: number[] = [0x12, 0x34];
+        const image: DecodedImage = decodePNG(png(3, 1, 16, 0, [0, 0x12, 0x34, 0xab, 0xcd, 0x12, 0x35], { tRNS: key }));
+        expectPixels(image, [packAABBGGRR(0x12, 0x12, 0x12, 0), grey(0xab), grey(0x12)]);
+
+        // Greyscale + alpha
+        expectPixels(decodePNG(png(1, 1, 8, 4, [0, 200, 100])), [packAABBGGRR(200, 200, 200, 100)]);
+    },
+
+    "PNG true-colour": () => {
+        // RGB with a colour key on the second pixel
+        const rgb: DecodedImage = decodePNG(png(2, 1, 8, 2, [0, 255, 0, 0, 1, 2, 3], { tRNS: [0, 1, 0, 2, 0, 3] }));
+        expectPixels(rgb, [RED, packAABBGGRR(1, 2, 3, 0)]);
+
+        // 16-bit RGBA
+        const rgba: DecodedImage = decodePNG(png(1, 1, 16, 6, [0, 0x10, 0xff, 0x20, 0xff, 0x30, 0xff, 0x40, 0xff]));
+        expectPixels(rgba, [packAABBGGRR(0x10, 0x20, 0x30, 0x40)]);
+    },
+
+    "PNG palette": () => {
+        // 2-bit indices 2, 1, 0 and a tRNS alpha for entry 0 only
+        const image: DecodedImage = decodePNG(png(3, 1, 2, 3, [0, 0b10010000], { PLTE: [255, 0, 0, 0, 255, 0, 0, 0, 255], tRNS: [7] }));
+
+        expectPixels(image, [BLUE, GREEN, packAABBGGRR(255, 0, 0, 7)]);
+        expect(image.indices !== null && Array.from(image.indices).join() === "2,1,0", "indices not kept");
+
+        expectThrows(() => decodePNG(png(1, 1, 8, 3, [0, 3], { PLTE: [255, 0, 0, 0, 255, 0] })), "PNG: palette index 3 out of range");
+    },
+
+    "PNG filters and interlacing": () => {
+        // Sub, Up, Average and Paeth on a 2 × 4 greyscale image
+        const filtered: DecodedImage = decodePNG(png(2, 4, 8, 0, [
+            1, 10, 5,       // Sub:     10, 15
+            2, 1, 2,        // Up:      11, 17
+            3, 4, 10,       // Average: 4 + 11 / 2 = 9, 10 + (9 + 17) / 2 = 23
+            4, 1, 1         // Paeth:   1 + 9 (up) = 10, 1 + 23 (up) = 24
+        ]));
+
+        expectPixels(filtered, [grey(10), grey(15), grey(11), grey(17), grey(9), grey(23), grey(10), grey(24)]);
+
+        // Adam7 on 2 × 2: pass 1 holds (0, 0), pass 6 (1, 0), pass 7 the second row
+        const interlaced: DecodedImage = decodePNG(png(2, 2, 8, 0, [0, 10, 0, 20, 0, 30, 40], { interlace: 1 }));
+
+        expectPixels(interlaced, [grey(10), grey(20), grey(30), grey(40)]);
+    },
+
+    "TGA true-colour": () => {
+        // 24-bit BGR, bottom-up: the first stored row is the bottom one
+        const image: DecodedImage = decodeTGA(tga(2, 2, 2, 24, 0, [
+            0, 0, 255,  0, 255, 0,
+            255, 0, 0,  255, 255, 255
+        ]));
+
+        expectPixels(image, [BLUE, packAABBGGRR(255, 255, 255, 255), RED, GREEN]);
+    },
+
+    "TGA 32-bit alpha": () => {
+        const pixel: number[] = [10, 20, 30, 40];
+
+        // Without announced alpha bits the fourth byte is padding
+        expectPixels(decodeTGA(tga(2, 1, 1, 32, TOP_DOWN, pixel)), [packAABBGGRR(30, 20, 10, 255)]);
+        expectPixels(decodeTGA(tga(2, 1, 1, 32, TOP_DOWN | 8, pixel)), [packAABBGGRR(30, 20, 10, 40)]);
+    },
+
+    "TGA colour-mapped": () => {
+        const map: number[] = [0, 0, 255,  255, 0, 0];
+        const image: DecodedImage = decodeTGA(tga(1, 2, 1, 8, TOP_DOWN, [1, 0], map));
+
+        expectPixels(image, [BLUE, RED]);
+        expect(image.indices !== null && image.indices[0] === 1 && image.indices[1] === 0, "indices not kept");
+
+        expectThrows(() => decodeTGA(tga(1, 2, 1, 8, TOP_DOWN, [1, 2], map)), "TGA: colour map index 2 out of range");
+        expectThrows(() => decodeTGA(tga(1, 2, 1, 8, TOP_DOWN, [], map).subarray(0, 18 + 4)), "TGA: colour map too short");
+    },
+
+    "TGA RLE": () => {
+        // Run of 3 red pixels, then a raw packet with one green pixel
+        const packets: number[] = [0x82, 0, 0, 255, 0x00, 0, 255, 0];
+        const image: DecodedImage = decodeTGA(tga(10, 2, 2, 24, TOP_DOWN, packets));
+
+        expectPixels(image, [RED, RED, RED, GREEN]);
+
+        expectThrows(() => decodeTGA(tga(10, 2, 2, 24, TOP_DOWN, packets.slice(0, -1))), "TGA: unexpected end of RLE data");
+        expectThrows(() => decodeTGA(tga(10, 2, 2, 24, TOP_DOWN, [0x84, 0, 0, 255])), "TGA: RLE packet runs past the end of the image");
+    },
+
+    "TGA truncated pixel data": () => {
+        expectThrows(() => decodeTGA(tga(2, 2, 1, 24, TOP_DOWN, [0, 0, 255, 0, 255])), "TGA: pixel data too short");
+    },
+
+    "BMP round trip": () => {
+        const pixels: Uint32Array = new Uint32Array([RED, GREEN, BLUE, packAABBGGRR(1, 2, 3, 128)]);
+
+        expectPixels(decodeBMP(encodeBMP(2, 2, pixels)), Array.from(pixels));
+
+        const indices: Uint8Array = new Uint8Array([0, 1, 1, 2, 2, 0]);
+        const image: DecodedImage = decodeBMP(encodeIndexedBMP(3, 2, indices, new Uint32Array([RED, GREEN, BLUE])));
+
+        expectPixels(image, [RED, GREEN, GREEN, BLUE, BLUE, RED]);
+        expect(image.indices !== null && Array.from(image.indices).join() === "0,1,1,2,2,0", "indices not kept");
+    },
+
+    "BMP malformed": () => {
+        const indexed: Uint8Array = encodeIndexedBMP(1, 1, new Uint8Array([0]), new Uint32Array([RED, GREEN]));
+        indexed[indexed.length - 4] = 5;
+
+        expectThrows(() => decodeBMP(indexed), "BMP: palette index 5 out of range");
+
+        const truecolor: Uint8Array = encodeBMP(2, 2, new Uint32Array(4));
+        expectThrows(() => decodeBMP(truecolor.subarray(0, truecolor.length - 1)), "BMP: pixel data too short");
+    },
+
+    "PCX 256 colours": () => {
+        // One run of 3 × index 1 (0xC3 = repeat 3) and a literal index 2; the line is padded to 4 bytes
+        const image: DecodedImage = decodePCX(pcx(4, 1, [0xc3, 1, 2], true));
+
+        expectPixels(image, [GREEN, GREEN, GREEN, BLUE]);
+        expectThrows(() => decodePCX(pcx(4, 1, [0xc3, 1], false)), "PCX: unexpected end of image data");
+        expectThrows(() => decodePCX(pcx(4, 1, [0xc3, 1, 2], false)), "PCX: missing 256-colour palette");
+    }
+};
+
+/**
+ * Assembles a PNG file from filtered scanlines.
+ *
+ * @param width - Width in pixels
+ * @param height - Height in pixels
+ * @param bitDepth - Bits per sample
+ * @param colorType - PNG colour type
+ * @param scanlines - Scanlines, each starting with its filter byte
+ * @param options - PLTE and tRNS chunk data, interlace method
+ */
+function png(width: number, height: number, bitDepth: number, colorType: number, scanlines: number[], options: { PLTE?: number[], tRNS?: number[], interlace?: number } = {}): Uint8Array {
+    const chunk = (type: string, data: number[]): number[] => {
+        const bytes: number[] = [0, 0, 0, 0].concat(Array.from(type, (c) => c.charCodeAt(0)), data);
+        const crc: number = crc32(new Uint8Array(bytes), 4, bytes.length);
+
+        return uint32(data.length).concat(bytes.slice(4), uint32(crc));
+    };
+
+    const header: number[] = uint32(width).concat(uint32(height), [bitDepth, colorType, 0, 0, options.interlace ?? 0]);
+
+    let bytes: number[] = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a].concat(chunk("IHDR", header));
+
+    if (options.PLTE) bytes = bytes.concat(chunk("PLTE", options.PLTE));
+    if (options.tRNS) bytes = bytes.concat(chunk("tRNS", options.tRNS));
+
+    bytes = bytes.concat(chunk("IDAT", Array.from(deflateStored(new Uint8Array(scanlines)))), chunk("IEND", []));
+
+    return new Uint8Array(bytes);
+}
+
+/**
+ * Returns the big-endian bytes of an unsigned 32-bit integer.
+ */
+function uint32(value: number): number[] {
+    return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * Returns an opaque grey in AABBGGRR format.
+ */
+function grey(value: number): number {
+    return packAABBGGRR(value, value, value, 255);
+}
+
+/**
+ * Assembles a TGA file.
+ *
+ * @param imageType - 1 (colour-mapped), 2 (true-colour), 10 (true-colour RLE), ...
+ * @param width - Width in pixels
+ * @param height - Height in pixels
+ * @param depth - Bits per pixel
+ * @param descriptor - Image descriptor byte
+ * @param data - Pixel data (or RLE packets)
+ * @param map - 24-bit colour map entries (BGR), if any
+ */
+function tga(imageType: number, width: number, height: number, depth: number, descriptor: number, data: number[], map: number[] = []): Uint8Array {
+    const header: number[] = [
+        0,                          // ID length
+        map.length > 0 ? 1 : 0,     // Colour map type
+        imageType,
+        0, 0,                       // First colour map entry
+        map.length / 3, 0,          // Colour map length
+        map.length > 0 ? 24 : 0,    // Colour map depth
+        0, 0, 0, 0,                 // Origin
+        width, 0,
+        height, 0,
+        depth,
+        descriptor
+    ];
+
+    return new Uint8Array(header.concat(map, data));
+}
+
+/**
+ * Assembles an 8-bit, 256-colour PCX file with entries 0–2 of its palette red, green, blue.
+ *
+ * @param width - Width in pixels (the scanline holds width bytes, padded to an even count)
+ * @param height - Height in pixels
+ * @param data - RLE encoded scanlines
+ * @param palette - Whether to append the VGA palette
+ */
+function pcx(width: number, height: number, data: number[], palette: boolean): Uint8Array {
+    const header: Uint8Array = new Uint8Array(128);
+    const bytesPerLine: number = (width + 1) & ~1;
+
+    header[0] = 0x0a;                   // Manufacturer
+    header[1] = 5;                      // Version
+    header[2] = 1;                      // Encoding: RLE
+    header[3] = 8;                      // Bits per pixel
+    header[8] = width - 1;              // xMax
+    header[10] = height - 1;            // yMax
+    header[65] = 1;                     // Planes
+    header[66] = bytesPerLine;
+
+    const vga: number[] = [];
+
+    if (palette) {
+        vga.push(0x0c, 255, 0, 0, 0, 255, 0, 0, 0, 255);
+        while (vga.length < 769) vga.push(0);
+    }
+
+    return new Uint8Array(Array.from(header).concat(data, vga));
+}
+
+/**
+ * Throws unless the condition holds.
+ */
+function expect(condition: boolean, message: string): void {
+    if (!condition) throw new Error(message);
+}
+
+/**
+ * Throws when the decoded pixels (row by row, top row first) differ from the expected ones.
+ */
+function expectPixels(image: DecodedImage, expected: number[]): void {
+    const hex = (colors: ArrayLike<number>): string => Array.from(colors, (c) => ("0000000" + (c >>> 0).toString(16)).slice(-8)).join(" ");
+
+    expect(hex(image.pixels) === hex(expected), `expected ${hex(expected)}, got ${hex(image.pixels)}`);
+}
+
+/**
+ * Throws unless the function throws an Error with exactly the given message.
+ */
+function expectThrows(action: () => void, message: string): void {
+    try {
+        action();
+    } catch (error) {
+        expect((error as Error).message === message, `expected "${message}", got "${(error as Error).message}"`);
+        return;
+    }
+
+    throw new Error(`expected "${message}", but nothing was thrown`);
+}
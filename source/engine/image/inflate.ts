@@ -0,0 +1,301 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: inflate.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Self-contained DEFLATE (RFC 1951) decompressor used by the PNG decoder.
+ *
+ *   Supports all three block types:
+ *     - 0: stored (uncompressed)
+ *     - 1: compressed with the fixed Huffman codes
+ *     - 2: compressed with dynamic Huffman codes sent in the block header
+ *
+ *   Huffman codes are decoded with canonical code tables (count per length + sorted
+ *   symbols), reading one bit at a time. It is not the fastest approach, but it is short,
+ *   easy to verify against the RFC, and fast enough for loading textures.
+ */
+
+// Base lengths and extra bits for length codes 257–285
+const LENGTH_BASE: number[] = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA: number[] = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+
+// Base distances and extra bits for distance codes 0–29
+const DISTANCE_BASE: number[] = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DISTANCE_EXTRA: number[] = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+
+// Order in which code length code lengths are sent in a dynamic block header
+const CODE_LENGTH_ORDER: number[] = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+/**
+ * Canonical Huffman table: number of codes per bit length and symbols in code order.
+ */
+interface Huffman {
+    counts: Uint16Array;
+    symbols: Uint16Array;
+}
+
+/**
+ * Bit reader over a byte array (least significant bit first, as DEFLATE requires).
+ */
+class BitReader {
+    private bytes: Uint8Array;
+    public position: number;
+    private bitBuffer: number = 0;
+    private bitCount: number = 0;
+
+    public constructor(bytes: Uint8Array, position: number) {
+        this.bytes = bytes;
+        this.position = position;
+    }
+
+    /**
+     * Reads an unsigned integer of the given width (up to 24 bits).
+     */
+    public bits(count: number): number {
+        while (this.bitCount < count) {
+            if (this.position >= this.bytes.length) {
+                throw new Error("Inflate: unexpected end of data");
+            }
+            this.bitBuffer |= this.bytes[this.position++] << this.bitCount;
+            this.bitCount += 8;
+        }
+
+        const value: number = this.bitBuffer & ((1 << count) - 1);
+        this.bitBuffer >>>= count;
+        this.bitCount -= count;
+
+        return value;
+    }
+
+    /**
+     * Discards the remaining bits of the current byte.
+     */
+    public align(): void {
+        this.bitBuffer = 0;
+        this.bitCount = 0;
+    }
+}
+
+/**
+ * Decompresses a raw DEFLATE stream.
+ *
+ * @param data - Compressed bytes
+ * @param start - Offset of the first DEFLATE byte (default: 0)
+ * @returns The decompressed bytes
+ */
+export function inflate(data: Uint8Array, start: number = 0): Uint8Array {
+    const reader: BitReader = new BitReader(data, start);
+
+    let output: Uint8Array = new Uint8Array(Math.max(1024, data.length * 4));
+    let length: number = 0;
+
+    // Grows the output buffer so at least "needed" more bytes fit
+    const reserve = (needed: number): void => {
+        if (length + needed <= output.length) return;
+
+        let size: number = output.length * 2;
+        while (size < length + needed) size *= 2;
+
+        const grown: Uint8Array = new Uint8Array(size);
+        grown.set(output.subarray(0, length));
+        output = grown;
+    };
+
+    let final: number = 0;
+
+    while (!final) {
+        final = reader.bits(1);
+        const type: number = reader.bits(2);
+
+        if (type === 0) {
+            // Stored block: LEN and NLEN start at the next byte boundary
+            reader.align();
+
+            const position: number = reader.position;
+
+            if (position + 4 > data.length) throw new Error("Inflate: truncated stored block");
+
+            const blockLength: number = data[position] | (data[position + 1] << 8);
+            const complement: number = data[position + 2] | (data[position + 3] << 8);
+
+            if ((blockLength ^ 0xffff) !== complement) throw new Error("Inflate: stored block length mismatch");
+            if (position + 4 + blockLength > data.length) throw new Error("Inflate: truncated stored block");
+
+            reserve(blockLength);
+            output.set(data.subarray(position + 4, position + 4 + blockLength), length);
+            length += blockLength;
+            reader.position = position + 4 + blockLength;
+        } else if (type === 1 || type === 2) {
+            const [literals, distances] = type === 1 ? fixedTables() : dynamicTables(reader);
+
+            while (true) {
+                const symbol: number = decodeSymbol(reader, literals);
+
+                if (symbol < 256) {
+                    reserve(1);
+                    output[length++] = symbol;
+                } else if (symbol === 256) {
+                    // End of block
+                    break;
+                } else {
+                    const index: number = symbol - 257;
+
+                    if (index >= LENGTH_BASE.length) throw new Error("Inflate: invalid length symbol");
+
+                    const copyLength: number = LENGTH_BASE[index] + reader.bits(LENGTH_EXTRA[index]);
+                    const distanceSymbol: number = decodeSymbol(reader, distances);
+
+                    if (distanceSymbol >= DISTANCE_BASE.length) throw new Error("Inflate: invalid distance symbol");
+
+                    const distance: number = DISTANCE_BASE[distanceSymbol] + reader.bits(DISTANCE_EXTRA[distanceSymbol]);
+
+                    if (distance > length) throw new Error("Inflate: distance too far back");
+
+                    // Byte by byte, since source and destination may overlap
+                    reserve(copyLength);
+                    for (let i: number = 0; i < copyLength; i++) {
+                        output[length] = output[length - distance];
+                        length++;
+                    }
+                }
+            }
+        } else {
+            throw new Error("Inflate: invalid block type");
+        }
+    }
+
+    return output.slice(0, length);
+}
+
+/**
+ * Builds a canonical Huffman table from a list of code lengths.
+ *
+ * @param lengths - Code length per symbol (0 = unused)
+ */
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+    const counts: Uint16Array = new Uint16Array(16);
+    const symbols: Uint16Array = new Uint16Array(lengths.length);
+
+    for (let i: number = 0; i < lengths.length; i++) {
+        counts[lengths[i]]++;
+    }
+    counts[0] = 0;
+
+    // Offsets of the first symbol of each length in the symbol table
+    const offsets: Uint16Array = new Uint16Array(16);
+    for (let bits: number = 1; bits < 16; bits++) {
+        offsets[bits] = offsets[bits - 1] + counts[bits - 1];
+    }
+
+    for (let i: number = 0; i < lengths.length; i++) {
+        if (lengths[i] !== 0) {
+            symbols[offsets[lengths[i]]++] = i;
+        }
+    }
+
+    return { counts, symbols };
+}
+
+/**
+ * Decodes one symbol by walking the canonical code bit by bit.
+ *
+ * @param reader - Bit reader
+ * @param huffman - Table to decode with
+ */
+function decodeSymbol(reader: BitReader, huffman: Huffman): number {
+    let code: number = 0;    // Code read so far
+    let first: number = 0;   // First code of the current length
+    let index: number = 0;   // Index of the first symbol of the current length
+
+    for (let bits: number = 1; bits < 16; bits++) {
+        code |= reader.bits(1);
+
+        const count: number = huffman.counts[bits];
+
+        if (code - first < count) {
+            return huffman.symbols[index + (code - first)];
+        }
+
+        index += count;
+        first = (first + count) << 1;
+        code <<= 1;
+    }
+
+    throw new Error("Inflate: invalid Huffman code");
+}
+
+// Fixed Huffman tables are the same for every block, so they are built once
+let fixed: [Huffman, Huffman] | null = null;
+
+/**
+ * Returns the fixed literal/length and distance tables (RFC 1951, section 3.2.6).
+ */
+function fixedTables(): [Huffman, Huffman] {
+    if (!fixed) {
+        const lengths: Uint8Array = new Uint8Array(288);
+        lengths.fill(8, 0, 144);
+        lengths.fill(9, 144, 256);
+        lengths.fill(7, 256, 280);
+        lengths.fill(8, 280, 288);
+
+        fixed = [buildHuffman(lengths), buildHuffman(new Uint8Array(30).fill(5))];
+    }
+
+    return fixed;
+}
+
+/**
+ * Reads the dynamic Huffman tables from a block header (RFC 1951, section 3.2.7).
+ *
+ * @param reader - Bit reader positioned after the block type
+ */
+function dynamicTables(reader: BitReader): [Huffman, Huffman] {
+    const literalCount: number = reader.bits(5) + 257;
+    const distanceCount: number = reader.bits(5) + 1;
+    const codeLengthCount: number = reader.bits(4) + 4;
+
+    // Code lengths for the code length alphabet
+    const codeLengthLengths: Uint8Array = new Uint8Array(19);
+    for (let i: number = 0; i < codeLengthCount; i++) {
+        codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.bits(3);
+    }
+
+    const codeLengths: Huffman = buildHuffman(codeLengthLengths);
+
+    // Literal/length and distance code lengths, sent as one run-length encoded sequence
+    const lengths: Uint8Array = new Uint8Array(literalCount + distanceCount);
+
+    for (let i: number = 0; i < lengths.length; ) {
+        const symbol: number = decodeSymbol(reader, codeLengths);
+
+        if (symbol < 16) {
+            lengths[i++] = symbol;
+            continue;
+        }
+
+        let repeat: number;
+        let value: number = 0;
+
+        if (symbol === 16) {
+            if (i === 0) throw new Error("Inflate: repeat with no previous length");
+            value = lengths[i - 1];
+            repeat = 3 + reader.bits(2);
+        } else if (symbol === 17) {
+            repeat = 3 + reader.bits(3);
+        } else {
+            repeat = 11 + reader.bits(7);
+        }
+
+        if (i + repeat > lengths.length) throw new Error("Inflate: too many code lengths");
+
+        lengths.fill(value, i, i + repeat);
+        i += repeat;
+    }
+
+    return [
+        buildHuffman(lengths.subarray(0, literalCount)),
+        buildHuffman(lengths.subarray(literalCount))
+    ];
+}
@@ -0,0 +1,168 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: pcx.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Self-contained PCX (ZSoft Paintbrush) decoder producing AABBGGRR pixels.
+ *
+ *   Supported layouts (bits per pixel × planes):
+ *     - 8 × 1: 256 colours with the VGA palette appended to the file (marker 0x0C)
+ *     - 8 × 3: 24-bit RGB, one plane per channel
+ *     - 8 × 4: 32-bit RGBA, one plane per channel
+ *     - 4 × 1: 16 colours, palette from the header
+ *     - 1 × 4: 16 colours in four bit planes (EGA), palette from the header
+ *     - 1 × 1: monochrome (black and white)
+ *
+ *   Scanlines are RLE encoded: a byte with the two top bits set is a repeat count
+ *   (low 6 bits) for the following byte; anything else is a literal.
+ */
+import { DecodedImage, packAABBGGRR } from "./image.interface.js";
+
+const HEADER_SIZE: number = 128;
+
+/**
+ * Checks whether the bytes look like a PCX header.
+ *
+ * @param bytes - File contents
+ */
+export function isPCX(bytes: Uint8Array): boolean {
+    return bytes.length >= HEADER_SIZE && bytes[0] === 0x0a && bytes[1] <= 5 && bytes[2] <= 1;
+}
+
+/**
+ * Decodes a PCX file into AABBGGRR pixels.
+ *
+ * @param bytes - File contents
+ * @returns The decoded image (palette and indices are set for palettised layouts)
+ */
+export function decodePCX(bytes: Uint8Array): DecodedImage {
+    if (!isPCX(bytes)) throw new Error("PCX: invalid header");
+
+    const encoded: boolean = bytes[2] === 1;
+    const bitsPerPixel: number = bytes[3];
+    const xMin: number = bytes[4] | (bytes[5] << 8);
+    const yMin: number = bytes[6] | (bytes[7] << 8);
+    const xMax: number = bytes[8] | (bytes[9] << 8);
+    const yMax: number = bytes[10] | (bytes[11] << 8);
+    const planes: number = bytes[65];
+    const bytesPerLine: number = bytes[66] | (bytes[67] << 8);
+
+    const width: number = xMax - xMin + 1;
+    const height: number = yMax - yMin + 1;
+
+    if (width <= 0 || height <= 0) throw new Error("PCX: invalid dimensions");
+
+    const layout: string = `${bitsPerPixel}x${planes}`;
+
+    if (["8x1", "8x3", "8x4", "4x1", "1x4", "1x1"].indexOf(layout) < 0) {
+        throw new Error(`PCX: unsupported layout ${bitsPerPixel} bits × ${planes} planes`);
+    }
+
+    // Decompress all scanlines: each holds "planes" consecutive plane rows
+    const lineSize: number = planes * bytesPerLine;
+    const data: Uint8Array = new Uint8Array(lineSize * height);
+    let position: number = HEADER_SIZE;
+
+    for (let i: number = 0; i < data.length; ) {
+        if (position >= bytes.length) throw new Error("PCX: unexpected end of image data");
+
+        const value: number = bytes[position++];
+
+        if (encoded && (value & 0xc0) === 0xc0) {
+            const count: number = value & 0x3f;
+            const repeated: number = bytes[position++];
+            data.fill(repeated, i, Math.min(i + count, data.length));
+            i += count;
+        } else {
+            data[i++] = value;
+        }
+    }
+
+    const image: DecodedImage = {
+        width,
+        height,
+        pixels: new Uint32Array(width * height),
+        palette: null,
+        indices: null
+    };
+
+    // True-colour layouts: one plane per channel
+    if (layout === "8x3" || layout === "8x4") {
+        for (let y: number = 0; y < height; y++) {
+            const line: number = y * lineSize;
+
+            for (let x: number = 0; x < width; x++) {
+                image.pixels[y * width + x] = packAABBGGRR(
+                    data[line + x],
+                    data[line + bytesPerLine + x],
+                    data[line + bytesPerLine * 2 + x],
+                    planes === 4 ? data[line + bytesPerLine * 3 + x] : 255
+                );
+            }
+        }
+
+        return image;
+    }
+
+    const palette: Uint32Array = readPalette(bytes, layout);
+    const indices: Uint8Array = new Uint8Array(width * height);
+
+    for (let y: number = 0; y < height; y++) {
+        const line: number = y * lineSize;
+
+        for (let x: number = 0; x < width; x++) {
+            let index: number;
+
+            if (layout === "8x1") {
+                index = data[line + x];
+            } else if (layout === "4x1") {
+                index = (data[line + (x >> 1)] >> ((x & 1) ? 0 : 4)) & 0x0f;
+            } else {
+                // One bit per plane, plane 0 is the least significant bit
+                index = 0;
+                for (let plane: number = 0; plane < planes; plane++) {
+                    const bit: number = (data[line + plane * bytesPerLine + (x >> 3)] >> (7 - (x & 7))) & 1;
+                    index |= bit << plane;
+                }
+            }
+
+            indices[y * width + x] = index;
+            image.pixels[y * width + x] = palette[index];
+        }
+    }
+
+    image.palette = palette;
+    image.indices = indices;
+
+    return image;
+}
+
+/**
+ * Reads the palette for a palettised layout.
+ *
+ * @param bytes - File contents
+ * @param layout - "8x1", "4x1", "1x4" or "1x1"
+ */
+function readPalette(bytes: Uint8Array, layout: string): Uint32Array {
+    if (layout === "1x1") {
+        return new Uint32Array([packAABBGGRR(0, 0, 0, 255), packAABBGGRR(255, 255, 255, 255)]);
+    }
+
+    // 256-colour palette: 0x0C marker followed by 768 bytes at the very end of the file
+    const vga: boolean = layout === "8x1";
+    const offset: number = vga ? bytes.length - 768 : 16;
+
+    if (vga && (bytes.length < HEADER_SIZE + 769 || bytes[offset - 1] !== 0x0c)) {
+        throw new Error("PCX: missing 256-colour palette");
+    }
+
+    const palette: Uint32Array = new Uint32Array(vga ? 256 : 16);
+
+    for (let i: number = 0; i < palette.length; i++) {
+        palette[i] = packAABBGGRR(bytes[offset + i * 3], bytes[offset + i * 3 + 1], bytes[offset + i * 3 + 2], 255);
+    }
+
+    return palette;
+}
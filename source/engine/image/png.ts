@@ -0,0 +1,504 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: png.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Self-contained PNG encoder and decoder (no DOM, no toDataURL or getImageData)
+ *   for 32-bit AABBGGRR buffers.
+ *
+ *   Encoder output format:
+ *     - 8-bit RGBA (colour type 6), non-interlaced
+ *     - encodeIndexedPNG(): 8-bit palette (colour type 3) with PLTE, plus tRNS when any
+ *       entry is translucent
+ *     - Filter type 0 (none) on every scanline
+ *     - IDAT stored as a single zlib stream of uncompressed deflate blocks, unless
+ *       encodePNG() is given a compressing zlib encoder (e.g. zlib.deflateSync in Node)
+ *
+ *   Decoder support:
+ *     - All colour types: greyscale, RGB, palette, greyscale + alpha, RGBA
+ *     - All bit depths (1, 2, 4, 8, 16 – 16-bit samples are reduced to their high byte)
+ *     - Transparency from tRNS (palette alpha or colour key)
+ *     - All five scanline filters and Adam7 interlacing
+ *     - CRC-32 of every chunk is verified
+ *
+ *   Byte order:
+ *     Each pixel is read as a 32-bit integer and split with shifts, so the result is
+ *     correct regardless of the platform's endianness:
+ *       AABBGGRR → R = bits 0–7, G = bits 8–15, B = bits 16–23, A = bits 24–31
+ */
+import { crc32 } from "./checksum.js";
+import { DecodedImage, packAABBGGRR } from "./image.interface.js";
+import { deflateStored, inflateZlib } from "./zlib.js";
+
+// The fixed 8-byte PNG file signature
+const SIGNATURE: number[] = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Number of samples per pixel for each colour type
+const CHANNELS: { [colorType: number]: number } = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+// Adam7 passes: [startX, startY, stepX, stepY]
+const ADAM7: [number, number, number, number][] = [
+    [0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4],
+    [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2]
+];
+
+/**
+ * Encodes a 32-bit AABBGGRR pixel buffer as a PNG file.
+ *
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ * @param pixels - Pixel buffer (width * height entries)
+ * @param deflate - Encodes the scanlines as a zlib stream (default: uncompressed blocks)
+ * @returns The PNG file contents
+ */
+export function encodePNG(width: number, height: number, pixels: Uint32Array, deflate: (data: Uint8Array) => Uint8Array = deflateStored): Uint8Array {
+    // Raw scanlines: one filter byte followed by width * 4 RGBA bytes
+    const stride: number = width * 4 + 1;
+    const raw: Uint8Array = new Uint8Array(stride * height);
+
+    for (let y: number = 0; y < height; y++) {
+        let position: number = y * stride;
+        raw[position++] = 0; // Filter: none
+
+        for (let x: number = 0; x < width; x++) {
+            const color: number = pixels[y * width + x];
+            raw[position++] = color & 0xff;          // Red
+            raw[position++] = (color >>> 8) & 0xff;  // Green
+            raw[position++] = (color >>> 16) & 0xff; // Blue
+            raw[position++] = (color >>> 24) & 0xff; // Alpha
+        }
+    }
+
+    const header: Uint8Array = new Uint8Array(13);
+    writeUint32BE(header, 0, width);
+    writeUint32BE(header, 4, height);
+    header[8] = 8;   // Bit depth
+    header[9] = 6;   // Colour type: RGBA
+    header[10] = 0;  // Compression: deflate
+    header[11] = 0;  // Filter method: adaptive (per-scanline filter byte)
+    header[12] = 0;  // Interlace: none
+
+    const chunks: Uint8Array[] = [
+        chunk("IHDR", header),
+        chunk("IDAT", deflate(raw)),
+        chunk("IEND", new Uint8Array(0))
+    ];
+
+    return concat([new Uint8Array(SIGNATURE), ...chunks]);
+}
+
+/**
+ * Encodes 8-bit palette indices and their palette as a palettised PNG file.
+ *
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ * @param indices - Palette index per pixel (width * height entries)
+ * @param palette - AABBGGRR palette entries (1–256)
+ * @returns The PNG file contents
+ */
+export function encodeIndexedPNG(width: number, height: number, indices: Uint8Array, palette: Uint32Array): Uint8Array {
+    if (palette.length === 0 || palette.length > 256) throw new Error(`PNG: invalid palette size ${palette.length}`);
+
+    // Raw scanlines: one filter byte followed by width indices
+    const stride: number = width + 1;
+    const raw: Uint8Array = new Uint8Array(stride * height);
+
+    for (let y: number = 0; y < height; y++) {
+        raw[y * stride] = 0; // Filter: none
+        raw.set(indices.subarray(y * width, (y + 1) * width), y * stride + 1);
+    }
+
+    const header: Uint8Array = new Uint8Array(13);
+    writeUint32BE(header, 0, width);
+    writeUint32BE(header, 4, height);
+    header[8] = 8;   // Bit depth
+    header[9] = 3;   // Colour type: palette
+    header[10] = 0;  // Compression: deflate
+    header[11] = 0;  // Filter method: adaptive (per-scanline filter byte)
+    header[12] = 0;  // Interlace: none
+
+    const entries: Uint8Array = new Uint8Array(palette.length * 3);
+
+    // Alpha per entry; trailing opaque entries can be left out of tRNS
+    let translucent: number = 0;
+
+    for (let i: number = 0; i < palette.length; i++) {
+        entries[i * 3]     = palette[i] & 0xff;          // Red
+        entries[i * 3 + 1] = (palette[i] >>> 8) & 0xff;  // Green
+        entries[i * 3 + 2] = (palette[i] >>> 16) & 0xff; // Blue
+
+        if ((palette[i] >>> 24) !== 0xff) translucent = i + 1;
+    }
+
+    const chunks: Uint8Array[] = [chunk("IHDR", header), chunk("PLTE", entries)];
+
+    if (translucent > 0) {
+        const alphas: Uint8Array = new Uint8Array(translucent);
+
+        for (let i: number = 0; i < translucent; i++) {
+            alphas[i] = palette[i] >>> 24;
+        }
+
+        chunks.push(chunk("tRNS", alphas));
+    }
+
+    chunks.push(chunk("IDAT", deflateStored(raw)), chunk("IEND", new Uint8Array(0)));
+
+    return concat([new Uint8Array(SIGNATURE), ...chunks]);
+}
+
+/**
+ * Builds a PNG chunk: length, type, data, CRC-32 over type and data.
+ *
+ * @param type - Four-character chunk type
+ * @param data - Chunk payload
+ * @returns The encoded chunk
+ */
+function chunk(type: string, data: Uint8Array): Uint8Array {
+    const output: Uint8Array = new Uint8Array(12 + data.length);
+
+    writeUint32BE(output, 0, data.length);
+
+    for (let i: number = 0; i < 4; i++) {
+        output[4 + i] = type.charCodeAt(i);
+    }
+
+    output.set(data, 8);
+    writeUint32BE(output, 8 + data.length, crc32(output, 4, 8 + data.length));
+
+    return output;
+}
+
+/**
+ * Writes an unsigned 32-bit big-endian integer.
+ */
+function writeUint32BE(bytes: Uint8Array, offset: number, value: number): void {
+    bytes[offset]     = (value >>> 24) & 0xff;
+    bytes[offset + 1] = (value >>> 16) & 0xff;
+    bytes[offset + 2] = (value >>> 8) & 0xff;
+    bytes[offset + 3] = value & 0xff;
+}
+
+/**
+ * Concatenates byte arrays.
+ */
+function concat(parts: Uint8Array[]): Uint8Array {
+    const output: Uint8Array = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset: number = 0;
+
+    for (const part of parts) {
+        output.set(part, offset);
+        offset += part.length;
+    }
+
+    return output;
+}
+
+
+/**
+ * Checks whether the bytes start with the PNG signature.
+ *
+ * @param bytes - File contents
+ */
+export function isPNG(bytes: Uint8Array): boolean {
+    return bytes.length >= 8 && SIGNATURE.every((value, i) => bytes[i] === value);
+}
+
+/**
+ * Decodes a PNG file into AABBGGRR pixels.
+ *
+ * @param bytes - File contents
+ * @returns The decoded image (palette and indices are set for colour type 3)
+ */
+export function decodePNG(bytes: Uint8Array): DecodedImage {
+    if (!isPNG(bytes)) throw new Error("PNG: invalid signature");
+
+    let width: number = 0;
+    let height: number = 0;
+    let bitDepth: number = 0;
+    let colorType: number = 0;
+    let interlace: number = 0;
+
+    let palette: Uint32Array | null = null;
+    let transparency: Uint8Array | null = null;
+
+    const data: Uint8Array[] = [];
+    let position: number = 8;
+    let ended: boolean = false;
+
+    while (!ended) {
+        if (position + 12 > bytes.length) throw new Error("PNG: unexpected end of file");
+
+        const length: number = readUint32BE(bytes, position);
+        const type: string = String.fromCharCode(bytes[position + 4], bytes[position + 5], bytes[position + 6], bytes[position + 7]);
+        const start: number = position + 8;
+        const end: number = start + length;
+
+        if (end + 4 > bytes.length) throw new Error(`PNG: truncated ${type} chunk`);
+        if (crc32(bytes, position + 4, end) !== readUint32BE(bytes, end)) throw new Error(`PNG: CRC mismatch in ${type} chunk`);
+
+        const chunkData: Uint8Array = bytes.subarray(start, end);
+
+        switch (type) {
+            case "IHDR":
+                width = readUint32BE(chunkData, 0);
+                height = readUint32BE(chunkData, 4);
+                bitDepth = chunkData[8];
+                colorType = chunkData[9];
+                interlace = chunkData[12];
+
+                if (!(colorType in CHANNELS)) throw new Error(`PNG: unsupported colour type ${colorType}`);
+                if ([1, 2, 4, 8, 16].indexOf(bitDepth) < 0) throw new Error(`PNG: unsupported bit depth ${bitDepth}`);
+                if (chunkData[10] !== 0 || chunkData[11] !== 0) throw new Error("PNG: unsupported compression or filter method");
+                break;
+
+            case "PLTE":
+                palette = new Uint32Array(length / 3);
+                for (let i: number = 0; i < palette.length; i++) {
+                    palette[i] = packAABBGGRR(chunkData[i * 3], chunkData[i * 3 + 1], chunkData[i * 3 + 2], 255);
+                }
+                break;
+
+            case "tRNS":
+                transparency = chunkData;
+                break;
+
+            case "IDAT":
+                data.push(chunkData);
+                break;
+
+            case "IEND":
+                ended = true;
+                break;
+        }
+
+        position = end + 4;
+    }
+
+    if (width === 0 || height === 0) throw new Error("PNG: missing IHDR chunk");
+    if (colorType === 3 && !palette) throw new Error("PNG: missing PLTE chunk");
+
+    // Palette alpha comes from tRNS (one byte per entry, missing entries are opaque)
+    if (palette && transparency && colorType === 3) {
+        for (let i: number = 0; i < Math.min(palette.length, transparency.length); i++) {
+            palette[i] = ((palette[i] & 0x00ffffff) | (transparency[i] << 24)) >>> 0;
+        }
+    }
+
+    const raw: Uint8Array = inflateZlib(concat(data));
+
+    const image: DecodedImage = {
+        width,
+        height,
+        pixels: new Uint32Array(width * height),
+        palette: colorType === 3 ? palette : null,
+        indices: colorType === 3 ? new Uint8Array(width * height) : null
+    };
+
+    const channels: number = CHANNELS[colorType];
+    const bitsPerPixel: number = channels * bitDepth;
+
+    // Colour key from tRNS: one 16-bit value for greyscale, three for RGB
+    let colorKey: number[] | null = null;
+
+    if (transparency && colorType === 0 && transparency.length >= 2) {
+        colorKey = [readUint16BE(transparency, 0)];
+    } else if (transparency && colorType === 2 && transparency.length >= 6) {
+        colorKey = [readUint16BE(transparency, 0), readUint16BE(transparency, 2), readUint16BE(transparency, 4)];
+    }
+    const passes: [number, number, number, number][] = interlace ? ADAM7 : [[0, 0, 1, 1]];
+
+    let offset: number = 0;
+
+    for (const [startX, startY, stepX, stepY] of passes) {
+        const passWidth: number = Math.ceil((width - startX) / stepX);
+        const passHeight: number = Math.ceil((height - startY) / stepY);
+
+        // Empty passes have no scanlines at all (not even filter bytes)
+        if (passWidth <= 0 || passHeight <= 0) continue;
+
+        const stride: number = Math.ceil(passWidth * bitsPerPixel / 8);
+        const scanlines: Uint8Array = unfilter(raw, offset, stride, passHeight, Math.max(1, bitsPerPixel >> 3));
+        offset += (stride + 1) * passHeight;
+
+        for (let y: number = 0; y < passHeight; y++) {
+            decodeRow(image, scanlines, y * stride, passWidth, (startY + y * stepY) * width + startX, stepX, bitDepth, colorType, colorKey);
+        }
+    }
+
+    return image;
+}
+
+/**
+ * Reverses the PNG scanline filters of one (sub-)image.
+ *
+ * @param raw - Inflated IDAT data
+ * @param offset - Offset of the first filter byte
+ * @param stride - Bytes per scanline (without the filter byte)
+ * @param height - Number of scanlines
+ * @param bytesPerPixel - Distance to the "left" byte used by the filters
+ * @returns The unfiltered scanlines, stride bytes each
+ */
+function unfilter(raw: Uint8Array, offset: number, stride: number, height: number, bytesPerPixel: number): Uint8Array {
+    const output: Uint8Array = new Uint8Array(stride * height);
+
+    if (offset + (stride + 1) * height > raw.length) throw new Error("PNG: image data too short");
+
+    for (let y: number = 0; y < height; y++) {
+        const filter: number = raw[offset + y * (stride + 1)];
+        const source: number = offset + y * (stride + 1) + 1;
+        const row: number = y * stride;
+        const previous: number = row - stride;
+
+        for (let x: number = 0; x < stride; x++) {
+            const value: number = raw[source + x];
+            const left: number = x >= bytesPerPixel ? output[row + x - bytesPerPixel] : 0;
+            const up: number = y > 0 ? output[previous + x] : 0;
+            const upLeft: number = y > 0 && x >= bytesPerPixel ? output[previous + x - bytesPerPixel] : 0;
+
+            let predictor: number;
+
+            switch (filter) {
+                case 0: predictor = 0; break;                                   // None
+                case 1: predictor = left; break;                                // Sub
+                case 2: predictor = up; break;                                  // Up
+                case 3: predictor = (left + up) >> 1; break;                    // Average
+                case 4: predictor = paeth(left, up, upLeft); break;             // Paeth
+                default: throw new Error(`PNG: invalid filter type ${filter}`);
+            }
+
+            output[row + x] = (value + predictor) & 0xff;
+        }
+    }
+
+    return output;
+}
+
+/**
+ * The Paeth predictor: picks whichever neighbour is closest to left + up - upLeft.
+ */
+function paeth(left: number, up: number, upLeft: number): number {
+    const estimate: number = left + up - upLeft;
+    const distanceLeft: number = Math.abs(estimate - left);
+    const distanceUp: number = Math.abs(estimate - up);
+    const distanceUpLeft: number = Math.abs(estimate - upLeft);
+
+    if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+    if (distanceUp <= distanceUpLeft) return up;
+    return upLeft;
+}
+
+/**
+ * Converts the pixels of one unfiltered scanline and writes them to the image.
+ *
+ * @param image - Destination image
+ * @param scanlines - Unfiltered scanlines
+ * @param row - Offset of the scanline
+ * @param count - Number of pixels in the scanline
+ * @param index - Destination index of the first pixel
+ * @param step - Distance between destination pixels (the Adam7 column step)
+ * @param bitDepth - Bits per sample
+ * @param colorType - PNG colour type
+ * @param colorKey - Full-precision tRNS colour key for greyscale and RGB, if any
+ */
+function decodeRow(image: DecodedImage, scanlines: Uint8Array, row: number, count: number, index: number, step: number, bitDepth: number, colorType: number, colorKey: number[] | null): void {
+    const pixels: Uint32Array = image.pixels;
+
+    switch (colorType) {
+        case 0:
+            // Greyscale, a sample matching the colour key is transparent
+            for (let x: number = 0; x < count; x++) {
+                const sample: number = readSample(scanlines, row, x, bitDepth);
+                const grey: number = toByte(sample, bitDepth);
+                pixels[index + x * step] = packAABBGGRR(grey, grey, grey, colorKey && sample === colorKey[0] ? 0 : 255);
+            }
+            break;
+
+        case 2:
+            // RGB, a pixel matching the colour key in all three samples is transparent
+            for (let x: number = 0; x < count; x++) {
+                const red: number = readSample(scanlines, row, x * 3, bitDepth);
+                const green: number = readSample(scanlines, row, x * 3 + 1, bitDepth);
+                const blue: number = readSample(scanlines, row, x * 3 + 2, bitDepth);
+                const transparent: boolean = colorKey !== null && red === colorKey[0] && green === colorKey[1] && blue === colorKey[2];
+                pixels[index + x * step] = packAABBGGRR(toByte(red, bitDepth), toByte(green, bitDepth), toByte(blue, bitDepth), transparent ? 0 : 255);
+            }
+            break;
+
+        case 3: {
+            // Palette index
+            const palette: Uint32Array = image.palette!;
+            const indices: Uint8Array = image.indices!;
+
+            for (let x: number = 0; x < count; x++) {
+                const entry: number = readSample(scanlines, row, x, bitDepth);
+                if (entry >= palette.length) throw new Error(`PNG: palette index ${entry} out of range`);
+                indices[index + x * step] = entry;
+                pixels[index + x * step] = palette[entry];
+            }
+            break;
+        }
+
+        case 4:
+            // Greyscale + alpha
+            for (let x: number = 0; x < count; x++) {
+                const grey: number = toByte(readSample(scanlines, row, x * 2, bitDepth), bitDepth);
+                pixels[index + x * step] = packAABBGGRR(grey, grey, grey, toByte(readSample(scanlines, row, x * 2 + 1, bitDepth), bitDepth));
+            }
+            break;
+
+        case 6:
+            // RGBA
+            for (let x: number = 0; x < count; x++) {
+                pixels[index + x * step] = packAABBGGRR(
+                    toByte(readSample(scanlines, row, x * 4, bitDepth), bitDepth),
+                    toByte(readSample(scanlines, row, x * 4 + 1, bitDepth), bitDepth),
+                    toByte(readSample(scanlines, row, x * 4 + 2, bitDepth), bitDepth),
+                    toByte(readSample(scanlines, row, x * 4 + 3, bitDepth), bitDepth)
+                );
+            }
+            break;
+    }
+}
+
+/**
+ * Scales a sample of the given bit depth to 8 bits (16-bit samples keep their high byte).
+ */
+function toByte(sample: number, bitDepth: number): number {
+    switch (bitDepth) {
+        case 1: return sample * 255;
+        case 2: return sample * 85;
+        case 4: return sample * 17;
+        case 16: return sample >> 8;
+        default: return sample;
+    }
+}
+
+/**
+ * Reads the n-th sample of a scanline at the given bit depth (packed MSB first below 8 bits).
+ */
+function readSample(scanlines: Uint8Array, row: number, sample: number, bitDepth: number): number {
+    if (bitDepth === 8) return scanlines[row + sample];
+    if (bitDepth === 16) return readUint16BE(scanlines, row + sample * 2);
+
+    const bit: number = sample * bitDepth;
+    const shift: number = 8 - bitDepth - (bit & 7);
+
+    return (scanlines[row + (bit >> 3)] >> shift) & ((1 << bitDepth) - 1);
+}
+
+/**
+ * Reads an unsigned 32-bit big-endian integer.
+ */
+function readUint32BE(bytes: Uint8Array, offset: number): number {
+    return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+/**
+ * Reads an unsigned 16-bit big-endian integer.
+ */
+function readUint16BE(bytes: Uint8Array, offset: number): number {
+    return (bytes[offset] << 8) | bytes[offset + 1];
+}
\ No newline at end of file
@@ -0,0 +1,40 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: ppm.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Self-contained binary PPM (P6) encoder for 32-bit AABBGGRR buffers.
+ *
+ *   PPM is the simplest colour image format there is: an ASCII header followed by
+ *   raw RGB triplets, top row first. Alpha is discarded since P6 has no alpha channel.
+ */
+
+/**
+ * Encodes a 32-bit AABBGGRR pixel buffer as a binary PPM (P6) file.
+ *
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ * @param pixels - Pixel buffer (width * height entries)
+ * @returns The PPM file contents
+ */
+export function encodePPM(width: number, height: number, pixels: Uint32Array): Uint8Array {
+    const header: string = `P6\n${width} ${height}\n255\n`;
+    const output: Uint8Array = new Uint8Array(header.length + width * height * 3);
+
+    for (let i: number = 0; i < header.length; i++) {
+        output[i] = header.charCodeAt(i);
+    }
+
+    let position: number = header.length;
+
+    for (let i: number = 0; i < width * height; i++) {
+        const color: number = pixels[i];
+        output[position++] = color & 0xff;          // Red
+        output[position++] = (color >>> 8) & 0xff;  // Green
+        output[position++] = (color >>> 16) & 0xff; // Blue
+    }
+
+    return output;
+}
@@ -0,0 +1,222 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: tga.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Self-contained TGA (Truevision Targa) decoder producing AABBGGRR pixels.
+ *
+ *   Supported image types:
+ *     - 1 / 9:  colour-mapped (palettised), uncompressed / RLE
+ *     - 2 / 10: true-colour, uncompressed / RLE
+ *     - 3 / 11: greyscale, uncompressed / RLE
+ *
+ *   Pixel and colour map depths of 15, 16, 24 and 32 bits are supported. 32-bit pixels
+ *   use their fourth byte and 16-bit pixels their top bit as alpha only when the image
+ *   descriptor announces alpha bits; otherwise they are opaque. Both vertical and
+ *   horizontal origins are honoured.
+ *
+ *   TGA has no magic number, so isTGA() validates the header fields instead. Truncated
+ *   colour maps, pixel data or RLE packets and out-of-range colour map indices throw.
+ */
+import { DecodedImage, packAABBGGRR } from "./image.interface.js";
+
+const HEADER_SIZE: number = 18;
+
+/**
+ * Checks whether the bytes look like a TGA header.
+ *
+ * @param bytes - File contents
+ */
+export function isTGA(bytes: Uint8Array): boolean {
+    if (bytes.length < HEADER_SIZE) return false;
+
+    const colorMapType: number = bytes[1];
+    const imageType: number = bytes[2];
+    const pixelDepth: number = bytes[16];
+
+    return (
+        (colorMapType === 0 || colorMapType === 1) &&
+        [1, 2, 3, 9, 10, 11].indexOf(imageType) >= 0 &&
+        [8, 15, 16, 24, 32].indexOf(pixelDepth) >= 0 &&
+        (bytes[12] | (bytes[13] << 8)) > 0 &&
+        (bytes[14] | (bytes[15] << 8)) > 0
+    );
+}
+
+/**
+ * Decodes a TGA file into AABBGGRR pixels.
+ *
+ * @param bytes - File contents
+ * @returns The decoded image (palette and indices are set for colour-mapped images)
+ */
+export function decodeTGA(bytes: Uint8Array): DecodedImage {
+    if (!isTGA(bytes)) throw new Error("TGA: invalid header");
+
+    const idLength: number = bytes[0];
+    const colorMapType: number = bytes[1];
+    const imageType: number = bytes[2];
+    const colorMapFirst: number = bytes[3] | (bytes[4] << 8);
+    const colorMapLength: number = bytes[5] | (bytes[6] << 8);
+    const colorMapDepth: number = bytes[7];
+    const width: number = bytes[12] | (bytes[13] << 8);
+    const height: number = bytes[14] | (bytes[15] << 8);
+    const pixelDepth: number = bytes[16];
+    const descriptor: number = bytes[17];
+
+    const alphaBits: number = descriptor & 0x0f;
+    const rightToLeft: boolean = (descriptor & 0x10) !== 0;
+    const topToBottom: boolean = (descriptor & 0x20) !== 0;
+
+    const colorMapped: boolean = (imageType & 7) === 1;
+    const greyscale: boolean = (imageType & 7) === 3;
+    const compressed: boolean = imageType >= 9;
+
+    let position: number = HEADER_SIZE + idLength;
+
+    // Colour map (always stored, even for true-colour images that don't use it)
+    let palette: Uint32Array | null = null;
+
+    if (colorMapType === 1) {
+        const entryBytes: number = Math.ceil(colorMapDepth / 8);
+        palette = new Uint32Array(colorMapLength);
+
+        if (position + colorMapLength * entryBytes > bytes.length) throw new Error("TGA: colour map too short");
+
+        for (let i: number = 0; i < colorMapLength; i++) {
+            palette[i] = readColor(bytes, position + i * entryBytes, colorMapDepth, alphaBits);
+        }
+
+        position += colorMapLength * entryBytes;
+    }
+
+    if (colorMapped && !palette) throw new Error("TGA: colour-mapped image without colour map");
+
+    const bytesPerPixel: number = Math.ceil(pixelDepth / 8);
+    const count: number = width * height;
+
+    // Raw pixel values (before palette lookup), in file order
+    const values: Uint8Array = compressed
+        ? decodeRLE(bytes, position, count, bytesPerPixel)
+        : bytes.subarray(position, position + count * bytesPerPixel);
+
+    if (values.length < count * bytesPerPixel) throw new Error("TGA: pixel data too short");
+
+    // Palettes with up to 256 entries keep their indices for indexed rendering
+    const keepIndices: boolean = colorMapped && colorMapLength <= 256;
+
+    const image: DecodedImage = {
+        width,
+        height,
+        pixels: new Uint32Array(count),
+        palette: colorMapped ? palette : null,
+        indices: keepIndices ? new Uint8Array(count) : null
+    };
+
+    for (let i: number = 0; i < count; i++) {
+        const fileX: number = i % width;
+        const fileY: number = (i / width) | 0;
+
+        const x: number = rightToLeft ? width - 1 - fileX : fileX;
+        const y: number = topToBottom ? fileY : height - 1 - fileY;
+        const index: number = y * width + x;
+        const offset: number = i * bytesPerPixel;
+
+        if (colorMapped) {
+            const entry: number = (bytesPerPixel === 1 ? values[offset] : values[offset] | (values[offset + 1] << 8)) - colorMapFirst;
+
+            if (entry < 0 || entry >= palette!.length) throw new Error(`TGA: colour map index ${entry} out of range`);
+
+            image.pixels[index] = palette![entry];
+            if (image.indices) image.indices[index] = entry;
+        } else if (greyscale) {
+            const grey: number = values[offset];
+            image.pixels[index] = packAABBGGRR(grey, grey, grey, bytesPerPixel === 2 ? values[offset + 1] : 255);
+        } else {
+            image.pixels[index] = readColor(values, offset, pixelDepth, alphaBits);
+        }
+    }
+
+    return image;
+}
+
+/**
+ * Reads a true-colour value (15, 16, 24 or 32 bits, little-endian BGR(A)).
+ *
+ * @param bytes - Source bytes
+ * @param offset - Offset of the value
+ * @param depth - Bits per value
+ * @param alphaBits - Alpha bits announced by the image descriptor
+ */
+function readColor(bytes: Uint8Array, offset: number, depth: number, alphaBits: number): number {
+    switch (depth) {
+        case 15:
+        case 16: {
+            // ARRRRRGG GGGBBBBB
+            const value: number = bytes[offset] | (bytes[offset + 1] << 8);
+            const red: number = (value >> 10) & 0x1f;
+            const green: number = (value >> 5) & 0x1f;
+            const blue: number = value & 0x1f;
+            const alpha: number = depth === 16 && alphaBits > 0 ? ((value & 0x8000) ? 255 : 0) : 255;
+            return packAABBGGRR((red << 3) | (red >> 2), (green << 3) | (green >> 2), (blue << 3) | (blue >> 2), alpha);
+        }
+        case 24:
+            return packAABBGGRR(bytes[offset + 2], bytes[offset + 1], bytes[offset], 255);
+        case 32:
+            // Without announced alpha bits the fourth byte is padding (often zero or garbage)
+            return packAABBGGRR(bytes[offset + 2], bytes[offset + 1], bytes[offset], alphaBits > 0 ? bytes[offset + 3] : 255);
+        default:
+            throw new Error(`TGA: unsupported colour depth ${depth}`);
+    }
+}
+
+/**
+ * Decodes TGA run-length encoded packets.
+ *
+ * Each packet starts with a header byte: the high bit selects a run (one value repeated)
+ * or a raw packet (literal values), the low 7 bits hold the count minus one.
+ *
+ * @param bytes - File contents
+ * @param position - Offset of the first packet
+ * @param count - Number of pixels to decode
+ * @param bytesPerPixel - Bytes per pixel value
+ * @returns The decoded pixel values
+ */
+function decodeRLE(bytes: Uint8Array, position: number, count: number, bytesPerPixel: number): Uint8Array {
+    const output: Uint8Array = new Uint8Array(count * bytesPerPixel);
+    let pixel: number = 0;
+
+    while (pixel < count) {
+        if (position >= bytes.length) throw new Error("TGA: unexpected end of RLE data");
+
+        const header: number = bytes[position++];
+        const length: number = (header & 0x7f) + 1;
+
+        if (pixel + length > count) throw new Error("TGA: RLE packet runs past the end of the image");
+
+        // A run packet holds one value, a raw packet one per pixel
+        const size: number = (header & 0x80 ? 1 : length) * bytesPerPixel;
+
+        if (position + size > bytes.length) throw new Error("TGA: unexpected end of RLE data");
+
+        if (header & 0x80) {
+            // Run packet: one value, repeated
+            const value: Uint8Array = bytes.subarray(position, position + bytesPerPixel);
+
+            for (let i: number = 0; i < length; i++) {
+                output.set(value, (pixel + i) * bytesPerPixel);
+            }
+
+            position += bytesPerPixel;
+        } else {
+            // Raw packet: literal values
+            output.set(bytes.subarray(position, position + length * bytesPerPixel), pixel * bytesPerPixel);
+            position += length * bytesPerPixel;
+        }
+
+        pixel += length;
+    }
+
+    return output;
+}
@@ -0,0 +1,94 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: zlib.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Minimal zlib (RFC 1950) stream support used by the PNG encoder and decoder.
+ *
+ *   Writing wraps the data in uncompressed ("stored") deflate blocks. The output is larger
+ *   than a compressed stream, but it is trivially correct, fast, and readable by every
+ *   PNG decoder – the goal here is lossless export, not small files.
+ *
+ *   Reading validates the header, inflates the DEFLATE payload (see inflate.ts) and
+ *   verifies the Adler-32 trailer.
+ */
+import { adler32 } from "./checksum.js";
+import { inflate } from "./inflate.js";
+
+// Maximum payload of a single stored deflate block
+const MAX_STORED_BLOCK: number = 65535;
+
+/**
+ * Wraps raw bytes in a zlib stream made of stored deflate blocks.
+ *
+ * @param data - Raw bytes
+ * @returns The zlib stream
+ */
+export function deflateStored(data: Uint8Array): Uint8Array {
+    const blocks: number = Math.max(1, Math.ceil(data.length / MAX_STORED_BLOCK));
+
+    // 2 byte header + 5 bytes per block header + data + 4 byte Adler-32
+    const output: Uint8Array = new Uint8Array(2 + blocks * 5 + data.length + 4);
+
+    // CMF: deflate with 32K window, FLG: no dictionary, fastest level (check bits make it divisible by 31)
+    output[0] = 0x78;
+    output[1] = 0x01;
+
+    let position: number = 2;
+
+    for (let block: number = 0; block < blocks; block++) {
+        const start: number = block * MAX_STORED_BLOCK;
+        const length: number = Math.min(MAX_STORED_BLOCK, data.length - start);
+
+        // BFINAL on the last block, BTYPE = 00 (stored)
+        output[position++] = block === blocks - 1 ? 1 : 0;
+
+        // LEN and its one's complement NLEN, little-endian
+        output[position++] = length & 0xff;
+        output[position++] = (length >> 8) & 0xff;
+        output[position++] = ~length & 0xff;
+        output[position++] = (~length >> 8) & 0xff;
+
+        output.set(data.subarray(start, start + length), position);
+        position += length;
+    }
+
+    // Adler-32 of the uncompressed data, big-endian
+    const checksum: number = adler32(data);
+    output[position++] = (checksum >>> 24) & 0xff;
+    output[position++] = (checksum >>> 16) & 0xff;
+    output[position++] = (checksum >>> 8) & 0xff;
+    output[position++] = checksum & 0xff;
+
+    return output;
+}
+
+
+/**
+ * Decompresses a zlib stream.
+ *
+ * @param data - The zlib stream
+ * @returns The decompressed bytes
+ */
+export function inflateZlib(data: Uint8Array): Uint8Array {
+    if (data.length < 6) throw new Error("zlib: stream too short");
+
+    const cmf: number = data[0];
+    const flg: number = data[1];
+
+    if ((cmf & 0x0f) !== 8) throw new Error("zlib: unsupported compression method");
+    if (((cmf << 8) | flg) % 31 !== 0) throw new Error("zlib: header checksum mismatch");
+    if (flg & 0x20) throw new Error("zlib: preset dictionaries are not supported");
+
+    const output: Uint8Array = inflate(data, 2);
+
+    // The trailer is the last four bytes (big-endian)
+    const end: number = data.length;
+    const expected: number = ((data[end - 4] << 24) | (data[end - 3] << 16) | (data[end - 2] << 8) | data[end - 1]) >>> 0;
+
+    if (adler32(output) !== expected) throw new Error("zlib: Adler-32 checksum mismatch");
+
+    return output;
+}
\ No newline at end of file
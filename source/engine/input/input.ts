@@ -0,0 +1,133 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: input.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   The Input singleton collects keyboard and mouse state for the engine loop.
+ *
+ *   Instead of registering their own listeners, demos and controllers poll it once
+ *   per frame:
+ *     - Keys are tracked by KeyboardEvent.code (e.g. "KeyW", "ArrowLeft", "ShiftLeft")
+ *     - Mouse buttons by MouseEvent.button (0 = left, 1 = middle, 2 = right)
+ *     - Mouse movement and wheel are accumulated between frames as deltas
+ *
+ *   engine.ts attaches the DOM listeners and calls endFrame() after each render() and
+ *   on resuming from pause, which resets the per-frame deltas. Without a DOM (e.g. golden-image capture) nothing
+ *   is attached and the state simply stays idle; press(), release() and move() feed
+ *   input programmatically.
+ */
+export class Input {
+    private static instance: Input;
+
+    // Mouse movement and wheel since the last frame (pixels / wheel units)
+    public deltaX: number = 0;
+    public deltaY: number = 0;
+    public wheel: number = 0;
+
+    private keys: Set<string> = new Set();
+    private buttons: Set<number> = new Set();
+
+    private attached: boolean = false;
+
+    // Use Input.getInstance() to access the singleton
+    private constructor() {}
+
+    /**
+     * Returns the global Input instance.
+     * Enforces singleton pattern.
+     */
+    public static getInstance(): Input {
+        if (!Input.instance) {
+            Input.instance = new Input();
+        }
+
+        return Input.instance;
+    }
+
+    /**
+     * Registers keyboard and mouse listeners. Called once by the engine; repeated calls are ignored.
+     *
+     * @param target - Element receiving mouse input (default: document)
+     */
+    public attach(target: HTMLElement | Document = document): void {
+        if (this.attached) return;
+        this.attached = true;
+
+        document.addEventListener("keydown", (event: KeyboardEvent) => this.press(event.code));
+        document.addEventListener("keyup", (event: KeyboardEvent) => this.release(event.code));
+
+        target.addEventListener("mousedown", (event: Event) => this.buttons.add((event as MouseEvent).button));
+        document.addEventListener("mouseup", (event: MouseEvent) => this.buttons.delete(event.button));
+
+        document.addEventListener("mousemove", (event: MouseEvent) => this.move(event.movementX, event.movementY));
+
+        target.addEventListener("wheel", (event: Event) => {
+            this.wheel += Math.sign((event as WheelEvent).deltaY);
+            event.preventDefault();
+        }, { passive: false });
+
+        // Forget held keys when the window loses focus (the keyup would never arrive)
+        window.addEventListener("blur", () => {
+            this.keys.clear();
+            this.buttons.clear();
+        });
+    }
+
+    /**
+     * Checks whether a key is held down.
+     *
+     * @param code - KeyboardEvent.code of the key
+     */
+    public isKeyDown(code: string): boolean {
+        return this.keys.has(code);
+    }
+
+    /**
+     * Checks whether a mouse button is held down.
+     *
+     * @param button - MouseEvent.button (0 = left, 1 = middle, 2 = right)
+     */
+    public isButtonDown(button: number): boolean {
+        return this.buttons.has(button);
+    }
+
+    /**
+     * Marks a key as held down.
+     *
+     * @param code - KeyboardEvent.code of the key
+     */
+    public press(code: string): void {
+        this.keys.add(code);
+    }
+
+    /**
+     * Marks a key as released.
+     *
+     * @param code - KeyboardEvent.code of the key
+     */
+    public release(code: string): void {
+        this.keys.delete(code);
+    }
+
+    /**
+     * Accumulates mouse movement for the current frame.
+     *
+     * @param dx - Horizontal movement in pixels
+     * @param dy - Vertical movement in pixels
+     */
+    public move(dx: number, dy: number): void {
+        this.deltaX += dx;
+        this.deltaY += dy;
+    }
+
+    /**
+     * Resets the per-frame deltas. Called by the engine after each frame and on resume.
+     */
+    public endFrame(): void {
+        this.deltaX = 0;
+        this.deltaY = 0;
+        this.wheel = 0;
+    }
+}
@@ -0,0 +1,176 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: light.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Light sources for the lighting model in lighting.ts. All positions and directions
+ *   are in world space.
+ *
+ *     - AmbientLight:     constant light from everywhere (no direction)
+ *     - DirectionalLight: parallel rays, e.g. the sun
+ *     - PointLight:       light from a position, attenuated with distance
+ *     - SpotLight:        a point light restricted to a cone, with a soft edge
+ *
+ *   Every light except the ambient one implements incident(): for a surface point it
+ *   returns the unit direction towards the light and how much of the light arrives there.
+ *   Attenuation is 1 / (constant + linear · d + quadratic · d²).
+ */
+import { Color4 } from "../color/color4.js";
+import { Vector3 } from "../math/vector3.js";
+import { clamp } from "../utils/helper.js";
+
+/**
+ * A light with a direction, i.e. one that contributes diffuse and specular light.
+ */
+export interface DirectLight {
+    color: Color4;
+    intensity: number;
+
+    /**
+     * Computes the light arriving at a point.
+     *
+     * @param point - Surface point in world space
+     * @param out - Receives the unit direction from the point towards the light
+     * @returns Fraction of the light's intensity arriving at the point (0 = none)
+     */
+    incident(point: Vector3, out: Vector3): number;
+}
+
+/**
+ * Any light source understood by the lighting model.
+ */
+export type Light = AmbientLight | DirectionalLight | PointLight | SpotLight;
+
+interface LightParameters {
+    color?: Color4;         // Light colour (default: white)
+    intensity?: number;     // Brightness factor (default: 1)
+}
+
+interface AttenuationParameters {
+    constant?: number;      // Constant attenuation term (default: 1)
+    linear?: number;        // Linear attenuation term (default: 0)
+    quadratic?: number;     // Quadratic attenuation term (default: 0)
+}
+
+export class AmbientLight {
+    public color: Color4;
+    public intensity: number;
+
+    /**
+     * Creates an ambient light.
+     *
+     * @param params - Optional colour and intensity
+     */
+    public constructor({ color = Color4.white, intensity = 1 }: LightParameters = {}) {
+        this.color = color;
+        this.intensity = intensity;
+    }
+}
+
+export class DirectionalLight implements DirectLight {
+    public color: Color4;
+    public intensity: number;
+
+    // Direction the light travels in (normalised on construction)
+    public direction: Vector3;
+
+    /**
+     * Creates a directional light.
+     *
+     * @param direction - Direction the light shines in (e.g. (0, -1, 0) for straight down)
+     * @param params - Optional colour and intensity
+     */
+    public constructor(direction: Vector3, { color = Color4.white, intensity = 1 }: LightParameters = {}) {
+        this.direction = direction.normalize();
+        this.color = color;
+        this.intensity = intensity;
+    }
+
+    public incident(point: Vector3, out: Vector3): number {
+        this.direction.negate(out);
+        return 1;
+    }
+}
+
+export class PointLight implements DirectLight {
+    public color: Color4;
+    public intensity: number;
+
+    public position: Vector3;
+    public constant: number;
+    public linear: number;
+    public quadratic: number;
+
+    /**
+     * Creates a point light.
+     *
+     * @param position - Light position
+     * @param params - Optional colour, intensity and attenuation terms
+     */
+    public constructor(position: Vector3, { color = Color4.white, intensity = 1, constant = 1, linear = 0, quadratic = 0 }: LightParameters & AttenuationParameters = {}) {
+        this.position = position;
+        this.color = color;
+        this.intensity = intensity;
+        this.constant = constant;
+        this.linear = linear;
+        this.quadratic = quadratic;
+    }
+
+    public incident(point: Vector3, out: Vector3): number {
+        this.position.subtract(point, out);
+
+        const distance: number = out.length();
+
+        if (distance === 0) return 0;
+
+        out.scale(1 / distance, out);
+
+        return 1 / (this.constant + this.linear * distance + this.quadratic * distance * distance);
+    }
+}
+
+export class SpotLight extends PointLight {
+    // Direction the cone points in (normalised on construction)
+    public direction: Vector3;
+
+    // Half angles of the cone in radians: full intensity inside inner, none outside outer
+    public inner: number;
+    public outer: number;
+
+    /**
+     * Creates a spot light.
+     *
+     * @param position - Light position
+     * @param direction - Direction the cone points in
+     * @param inner - Half angle of the fully lit core in radians
+     * @param outer - Half angle of the cone's edge in radians (≥ inner)
+     * @param params - Optional colour, intensity and attenuation terms
+     */
+    public constructor(position: Vector3, direction: Vector3, inner: number, outer: number, params: LightParameters & AttenuationParameters = {}) {
+        super(position, params);
+        this.direction = direction.normalize();
+        this.inner = inner;
+        this.outer = Math.max(inner, outer);
+    }
+
+    public incident(point: Vector3, out: Vector3): number {
+        const attenuation: number = super.incident(point, out);
+
+        if (attenuation === 0) return 0;
+
+        // Cosine of the angle between the cone axis and the ray to the point
+        const cosine: number = -out.dot(this.direction);
+        const cosInner: number = Math.cos(this.inner);
+        const cosOuter: number = Math.cos(this.outer);
+
+        if (cosine <= cosOuter) return 0;
+        if (cosine >= cosInner) return attenuation;
+
+        // Smooth falloff between the outer edge and the inner core
+        const t: number = clamp((cosine - cosOuter) / (cosInner - cosOuter), 0, 1);
+
+        return attenuation * t * t * (3 - 2 * t);
+    }
+}
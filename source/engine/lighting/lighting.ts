@@ -0,0 +1,203 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: lighting.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   The lighting model: Lambert diffuse plus Blinn-Phong specular from a list of lights
+ *   (see light.ts). Everything is evaluated in world space.
+ *
+ *     colour = Σ ambient · diffuse
+ *            + Σ light · attenuation · (diffuse · max(N·L, 0) + specular · max(N·H, 0)^shininess)
+ *
+ *   with N the surface normal, L the direction to the light, V the direction to the eye
+ *   and H = normalize(L + V) the half vector. Channels are clamped to 255; alpha is taken
+ *   from the material's diffuse colour.
+ *
+ *   Shading frequency:
+ *     - "face":   one colour per triangle, evaluated at its centroid with the face normal
+ *                 (feed the result to fillFlatScanline)
+ *     - "vertex": one colour per vertex with the vertex normals, falling back to the face
+ *                 normal (feed the results to fillGouraudScanline)
+ *
+ *   lightTriangle() stores the colours in the vertices of a model-space triangle, so they
+ *   travel through the vertex pipeline (and its clipping) like any other vertex colour:
+ *
+ *     const lit: Triangle3D = lighting.lightTriangle(triangle, model, material, "vertex");
+ *     for (const screen of pipeline.transformTriangle(lit)) {
+ *         blitter.fillGouraudScanline(screen, colorsOf(screen));
+ *     }
+ */
+import { Color4 } from "../color/color4.js";
+import { Triangle3D } from "../geometry/triangle3d.js";
+import { Vertex3D } from "../geometry/vertex3d.js";
+import { Matrix4, normalMatrixOf } from "../math/matrix4.js";
+import { Vector3 } from "../math/vector3.js";
+import { AmbientLight, Light } from "./light.js";
+
+/**
+ * How often the lighting equation is evaluated per triangle.
+ */
+export type LightingMode = "face" | "vertex";
+
+/**
+ * Surface reflectance used by the lighting model.
+ */
+export interface LitMaterial {
+    diffuse: Color4;      // Diffuse (and ambient) reflectance; alpha is passed through
+    specular: Color4;     // Specular reflectance (black for matte surfaces)
+    shininess: number;    // Blinn-Phong exponent (higher = smaller, sharper highlight)
+}
+
+export class Lighting {
+    public lights: Light[];
+
+    // Eye (camera) position in world space, for the specular term
+    public eye: Vector3;
+
+    // Scratch vectors to avoid allocations per evaluation
+    private toLight: Vector3 = new Vector3();
+    private toEye: Vector3 = new Vector3();
+    private half: Vector3 = new Vector3();
+
+    // Result of the last evaluation, 0..1 per channel
+    private red: number = 0;
+    private green: number = 0;
+    private blue: number = 0;
+
+    /**
+     * Creates a lighting setup.
+     *
+     * @param lights - Light sources (default: none)
+     * @param eye - Eye position in world space (default: origin)
+     */
+    public constructor(lights: Light[] = [], eye: Vector3 = new Vector3()) {
+        this.lights = lights;
+        this.eye = eye;
+    }
+
+    /**
+     * Evaluates the lighting equation at a surface point.
+     *
+     * @param position - Surface point in world space
+     * @param normal - Unit surface normal in world space
+     * @param material - Surface reflectance
+     * @returns The lit colour
+     */
+    public shade(position: Vector3, normal: Vector3, material: LitMaterial): Color4 {
+        this.evaluate(position, normal, material);
+
+        return new Color4({
+            alpha: material.diffuse.alpha,
+            red: Math.round(this.red * 255),
+            green: Math.round(this.green * 255),
+            blue: Math.round(this.blue * 255)
+        });
+    }
+
+    /**
+     * Evaluates the lighting equation at a surface point and returns the colour packed
+     * as AABBGGRR. Allocation free, for per-pixel shading.
+     *
+     * @param position - Surface point in world space
+     * @param normal - Unit surface normal in world space
+     * @param material - Surface reflectance
+     * @returns The lit colour in AABBGGRR format
+     */
+    public shadePacked(position: Vector3, normal: Vector3, material: LitMaterial): number {
+        this.evaluate(position, normal, material);
+
+        return (material.diffuse.alpha << 24) |
+            (Math.round(this.blue * 255) << 16) |
+            (Math.round(this.green * 255) << 8) |
+            Math.round(this.red * 255);
+    }
+
+    /**
+     * Lights a model-space triangle and returns a copy whose vertex colours hold the result.
+     * Positions, texture coordinates and normals are kept, so the copy can be passed to the
+     * vertex pipeline with the same model matrix.
+     *
+     * @param triangle - Model-space triangle
+     * @param model - Model (object → world) matrix
+     * @param material - Surface reflectance
+     * @param mode - "face" for one colour per triangle, "vertex" for one per vertex (default: "vertex")
+     */
+    public lightTriangle(triangle: Triangle3D, model: Matrix4, material: LitMaterial, mode: LightingMode = "vertex"): Triangle3D {
+        const vertices: Vertex3D[] = [triangle.a, triangle.b, triangle.c];
+        const positions: Vector3[] = vertices.map((vertex) => model.transformPoint(vertex.position));
+
+        // Face normal in world space (counter-clockwise winding is the front)
+        const face: Vector3 = positions[1].subtract(positions[0]).cross(positions[2].subtract(positions[0])).normalize();
+
+        let colors: Color4[];
+
+        if (mode === "face") {
+            const centroid: Vector3 = positions[0].add(positions[1]).add(positions[2]).scale(1 / 3);
+            const color: Color4 = this.shade(centroid, face, material);
+            colors = [color, color, color];
+        } else {
+            const normalMatrix: Matrix4 = normalMatrixOf(model);
+
+            colors = vertices.map((vertex, i) => {
+                const normal: Vector3 = vertex.normal ? normalMatrix.transformDirection(vertex.normal).normalize() : face;
+                return this.shade(positions[i], normal, material);
+            });
+        }
+
+        const [a, b, c] = vertices.map((vertex, i) => new Vertex3D(vertex.position, {
+            color: colors[i],
+            u: vertex.u,
+            v: vertex.v,
+            normal: vertex.normal ?? undefined
+        }));
+
+        return new Triangle3D(a, b, c);
+    }
+
+    /**
+     * Sums the contributions of all lights into red, green and blue (clamped to 1).
+     */
+    private evaluate(position: Vector3, normal: Vector3, material: LitMaterial): void {
+        const diffuse: Color4 = material.diffuse;
+        const specular: Color4 = material.specular;
+
+        let red: number = 0;
+        let green: number = 0;
+        let blue: number = 0;
+
+        this.eye.subtract(position, this.toEye).normalize(this.toEye);
+
+        for (const light of this.lights) {
+            const scale: number = light.intensity / 255;
+
+            if (light instanceof AmbientLight) {
+                red += light.color.red * scale * diffuse.red / 255;
+                green += light.color.green * scale * diffuse.green / 255;
+                blue += light.color.blue * scale * diffuse.blue / 255;
+                continue;
+            }
+
+            const attenuation: number = light.incident(position, this.toLight);
+            const lambert: number = normal.dot(this.toLight);
+
+            if (attenuation <= 0 || lambert <= 0) continue;
+
+            // Blinn-Phong: highlight where the half vector lines up with the normal
+            this.toLight.add(this.toEye, this.half).normalize(this.half);
+            const highlight: number = Math.pow(Math.max(0, normal.dot(this.half)), material.shininess);
+
+            const d: number = scale * attenuation * lambert / 255;
+            const s: number = scale * attenuation * highlight / 255;
+
+            red += light.color.red * (diffuse.red * d + specular.red * s);
+            green += light.color.green * (diffuse.green * d + specular.green * s);
+            blue += light.color.blue * (diffuse.blue * d + specular.blue * s);
+        }
+
+        this.red = Math.min(1, red);
+        this.green = Math.min(1, green);
+        this.blue = Math.min(1, blue);
+    }
+}
@@ -0,0 +1,283 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: math.test.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Unit tests for Vector3, Vector4 and Matrix4 against hand-computed values.
+ *
+ *   Expected matrices are written row by row, as on paper (the same order as Matrix4.set()).
+ *   Run with scripts/test.mjs after compiling.
+ */
+import { Matrix4 } from "./matrix4.js";
+import { Vector3 } from "./vector3.js";
+import { Vector4 } from "./vector4.js";
+
+// Allowed difference for values that pass through trigonometry or division
+const EPSILON: number = 1e-9;
+
+/**
+ * Named test functions; each throws an Error on failure.
+ */
+export const tests: { [name: string]: () => void } = {
+    "Matrix4.multiply": () => {
+        const a: Matrix4 = new Matrix4().set(
+            1,  2,  3,  4,
+            5,  6,  7,  8,
+            9,  10, 11, 12,
+            13, 14, 15, 16
+        );
+        const b: Matrix4 = new Matrix4().set(
+            2, 0, 1, 0,
+            0, 1, 0, 3,
+            1, 0, 0, 1,
+            0, 2, 1, 0
+        );
+
+        expectMatrix(a.multiply(b), [
+            5,  10, 5,  9,
+            17, 22, 13, 25,
+            29, 34, 21, 41,
+            41, 46, 29, 57
+        ]);
+
+        expectMatrix(b.multiply(a), [
+            11, 14, 17, 20,
+            44, 48, 52, 56,
+            14, 16, 18, 20,
+            19, 22, 25, 28
+        ]);
+
+        // The destination may alias either operand
+        const left: Matrix4 = a.clone();
+        left.multiply(b, left);
+        expectMatrix(left, [5, 10, 5, 9, 17, 22, 13, 25, 29, 34, 21, 41, 41, 46, 29, 57]);
+
+        const right: Matrix4 = b.clone();
+        a.multiply(right, right);
+        expectMatrix(right, [5, 10, 5, 9, 17, 22, 13, 25, 29, 34, 21, 41, 41, 46, 29, 57]);
+    },
+
+    "Matrix4.invert": () => {
+        const m: Matrix4 = new Matrix4().set(
+            2, 0, 0, 1,
+            0, 1, 2, 0,
+            1, 0, 1, 0,
+            0, 0, 0, 1
+        );
+
+        expectNumber(m.determinant(), 2);
+
+        expectMatrix(m.invert() as Matrix4, [
+             0.5, 0,  0, -0.5,
+             1,   1, -2, -1,
+            -0.5, 0,  1,  0.5,
+             0,   0,  0,  1
+        ]);
+
+        // Translate after scale: the inverse undoes the translation first
+        const transform: Matrix4 = Matrix4.translation(1, 2, 3).multiply(Matrix4.scaling(2, 4, 8));
+
+        expectMatrix(transform.invert() as Matrix4, [
+            0.5, 0,    0,     -0.5,
+            0,   0.25, 0,     -0.5,
+            0,   0,    0.125, -0.375,
+            0,   0,    0,      1
+        ]);
+
+        // In place
+        m.invert(m);
+        expectMatrix(m, [0.5, 0, 0, -0.5, 1, 1, -2, -1, -0.5, 0, 1, 0.5, 0, 0, 0, 1]);
+    },
+
+    "Matrix4.invert returns null for a singular matrix": () => {
+        // Third row is the sum of the first two
+        const singular: Matrix4 = new Matrix4().set(
+            1, 2, 3, 4,
+            5, 6, 7, 8,
+            6, 8, 10, 12,
+            0, 0, 0, 1
+        );
+
+        expectNumber(singular.determinant(), 0);
+        expect(singular.invert() === null, "singular matrix inverted");
+        expect(Matrix4.scaling(1, 0, 1).invert() === null, "zero scale inverted");
+    },
+
+    "Matrix4.transpose": () => {
+        const m: Matrix4 = new Matrix4().set(
+            1,  2,  3,  4,
+            5,  6,  7,  8,
+            9,  10, 11, 12,
+            13, 14, 15, 16
+        );
+
+        expectMatrix(m.transpose(), [
+            1, 5, 9,  13,
+            2, 6, 10, 14,
+            3, 7, 11, 15,
+            4, 8, 12, 16
+        ]);
+
+        // Column-major storage: element (row 0, column 1) sits at index 4
+        expectNumber(m.get(0, 1), 2);
+        expectNumber(m.elements[4], 2);
+    },
+
+    "Matrix4.translation and scaling": () => {
+        expectMatrix(Matrix4.translation(1, 2, 3), [1, 0, 0, 1, 0, 1, 0, 2, 0, 0, 1, 3, 0, 0, 0, 1]);
+        expectMatrix(Matrix4.scaling(2, 3, 4), [2, 0, 0, 0, 0, 3, 0, 0, 0, 0, 4, 0, 0, 0, 0, 1]);
+
+        expectVector3(Matrix4.translation(1, 2, 3).transformPoint(new Vector3(4, 5, 6)), 5, 7, 9);
+        expectVector3(Matrix4.scaling(2, 3, 4).transformPoint(new Vector3(1, 1, 1)), 2, 3, 4);
+
+        // Directions ignore the translation
+        expectVector3(Matrix4.translation(1, 2, 3).transformDirection(new Vector3(4, 5, 6)), 4, 5, 6);
+    },
+
+    "Matrix4.rotation": () => {
+        const quarter: number = Math.PI / 2;
+
+        // Counter-clockwise quarter turns: X → Y around Z, Y → Z around X, Z → X around Y
+        expectMatrix(Matrix4.rotationZ(quarter), [0, -1, 0, 0, 1, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1]);
+        expectMatrix(Matrix4.rotationX(quarter), [1, 0, 0, 0, 0, 0, -1, 0, 0, 1, 0, 0, 0, 0, 0, 1]);
+        expectMatrix(Matrix4.rotationY(quarter), [0, 0, 1, 0, 0, 1, 0, 0, -1, 0, 0, 0, 0, 0, 0, 1]);
+
+        expectVector3(Matrix4.rotationZ(quarter).transformPoint(new Vector3(1, 0, 0)), 0, 1, 0);
+        expectVector3(Matrix4.rotationX(quarter).transformPoint(new Vector3(0, 1, 0)), 0, 0, 1);
+        expectVector3(Matrix4.rotationY(quarter).transformPoint(new Vector3(0, 0, 1)), 1, 0, 0);
+
+        // Around an arbitrary (unnormalised) axis
+        expect(Matrix4.rotation(new Vector3(0, 0, 5), quarter).equals(Matrix4.rotationZ(quarter), EPSILON), "rotation around Z differs from rotationZ");
+
+        // A third of a turn around (1, 1, 1) cycles the axes
+        expectVector3(Matrix4.rotation(new Vector3(1, 1, 1), Math.PI * 2 / 3).transformPoint(new Vector3(1, 0, 0)), 0, 1, 0);
+    },
+
+    "Matrix4.lookAt": () => {
+        // Looking down -Z from (0, 0, 5) is a plain translation
+        expectMatrix(Matrix4.lookAt(new Vector3(0, 0, 5), new Vector3(0, 0, 0), new Vector3(0, 1, 0)), [
+            1, 0, 0,  0,
+            0, 1, 0,  0,
+            0, 0, 1, -5,
+            0, 0, 0,  1
+        ]);
+
+        // From +X towards the origin: forward is -X, so right is -Z and backward is +X
+        const view: Matrix4 = Matrix4.lookAt(new Vector3(5, 0, 0), new Vector3(0, 0, 0), new Vector3(0, 1, 0));
+
+        expectMatrix(view, [
+            0, 0, -1,  0,
+            0, 1,  0,  0,
+            1, 0,  0, -5,
+            0, 0,  0,  1
+        ]);
+
+        expectVector3(view.transformPoint(new Vector3(0, 0, 0)), 0, 0, -5);
+        expectVector3(view.transformPoint(new Vector3(5, 0, 0)), 0, 0, 0);
+    },
+
+    "Matrix4.perspective": () => {
+        // 90° vertical field of view gives f = 1
+        const projection: Matrix4 = Matrix4.perspective(Math.PI / 2, 2, 1, 3);
+
+        expectMatrix(projection, [
+            0.5, 0,  0,  0,
+            0,   1,  0,  0,
+            0,   0, -2, -3,
+            0,   0, -1,  0
+        ]);
+
+        // Near plane maps to z = -1, far plane to z = 1, w = -z_view
+        expectVector4(projection.transformVector4(new Vector4(0, 0, -1, 1)), 0, 0, -1, 1);
+        expectVector4(projection.transformVector4(new Vector4(0, 0, -3, 1)), 0, 0, 3, 3);
+        expectVector3(projection.transformPoint(new Vector3(2, 1, -1)), 1, 1, -1);
+    },
+
+    "Matrix4.orthographic": () => {
+        const projection: Matrix4 = Matrix4.orthographic(-2, 2, -1, 1, 1, 3);
+
+        expectMatrix(projection, [
+            0.5, 0,  0,  0,
+            0,   1,  0,  0,
+            0,   0, -1, -2,
+            0,   0,  0,  1
+        ]);
+
+        expectVector3(projection.transformPoint(new Vector3(-2, -1, -1)), -1, -1, -1);
+        expectVector3(projection.transformPoint(new Vector3(2, 1, -3)), 1, 1, 1);
+    },
+
+    "Vector3 dot, cross and normalize": () => {
+        const a: Vector3 = new Vector3(1, 2, 3);
+        const b: Vector3 = new Vector3(4, 5, 6);
+
+        expectNumber(a.dot(b), 32);
+
+        expectVector3(a.cross(b), -3, 6, -3);
+        expectVector3(new Vector3(1, 0, 0).cross(new Vector3(0, 1, 0)), 0, 0, 1);
+        expectVector3(new Vector3(0, 1, 0).cross(new Vector3(1, 0, 0)), 0, 0, -1);
+
+        // The cross product is perpendicular to both inputs
+        expectNumber(a.cross(b).dot(a), 0);
+        expectNumber(a.cross(b).dot(b), 0);
+
+        expectVector3(new Vector3(3, 0, 4).normalize(), 0.6, 0, 0.8);
+        expectVector3(new Vector3(0, 0, 0).normalize(), 0, 0, 0);
+
+        // In place
+        a.cross(b, a);
+        expectVector3(a, -3, 6, -3);
+    },
+
+    "Vector4 dot and normalize": () => {
+        const a: Vector4 = new Vector4(1, 2, 3, 4);
+
+        expectNumber(a.dot(new Vector4(5, 6, 7, 8)), 70);
+        expectNumber(new Vector4(1, 1, 1, 1).length(), 2);
+
+        expectVector4(new Vector4(1, 1, 1, 1).normalize(), 0.5, 0.5, 0.5, 0.5);
+        expectVector4(new Vector4(0, 3, 0, 4).normalize(), 0, 0.6, 0, 0.8);
+        expectVector4(new Vector4().normalize(), 0, 0, 0, 0);
+    }
+};
+
+/**
+ * Throws when the condition does not hold.
+ */
+function expect(condition: boolean, message: string): void {
+    if (!condition) throw new Error(message);
+}
+
+/**
+ * Throws when a number differs from the expected value by more than EPSILON.
+ */
+function expectNumber(actual: number, expected: number): void {
+    expect(Math.abs(actual - expected) <= EPSILON, `expected ${expected}, got ${actual}`);
+}
+
+/**
+ * Throws when a matrix differs from the expected elements, given row by row.
+ */
+function expectMatrix(actual: Matrix4, rows: number[]): void {
+    const expected: Matrix4 = new Matrix4();
+
+    expected.set.apply(expected, rows as Parameters<Matrix4["set"]>);
+
+    expect(actual.equals(expected, EPSILON), `expected ${expected.toString()}, got ${actual.toString()}`);
+}
+
+/**
+ * Throws when a Vector3 differs from (x, y, z).
+ */
+function expectVector3(actual: Vector3, x: number, y: number, z: number): void {
+    expect(actual.equals(new Vector3(x, y, z), EPSILON), `expected (${x}, ${y}, ${z}), got ${actual.toString()}`);
+}
+
+/**
+ * Throws when a Vector4 differs from (x, y, z, w).
+ */
+function expectVector4(actual: Vector4, x: number, y: number, z: number, w: number): void {
+    expect(actual.equals(new Vector4(x, y, z, w), EPSILON), `expected (${x}, ${y}, ${z}, ${w}), got ${actual.toString()}`);
+}
@@ -0,0 +1,483 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: matrix4.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Defines a 4×4 matrix class for affine and projective transformations.
+ *
+ *   Conventions:
+ *     - Column-major storage: element (row r, column c) lives at elements[c * 4 + r]
+ *     - Column vectors: a point is transformed as M * v, so A.multiply(B) applies B first
+ *     - Right-handed coordinate system, camera looks down -Z
+ *     - Projection matrices map the view volume to clip space with z in [-1, 1]
+ *
+ *   Follows the same "out parameter" convention as Vector3: every method that produces
+ *   a matrix or vector takes an optional destination which may alias an input.
+ */
+import { Vector3 } from "./vector3.js";
+import { Vector4 } from "./vector4.js";
+
+// Scratch elements for multiply(), so products need no allocation even when out aliases an input
+const product: Float64Array = new Float64Array(16);
+
+export class Matrix4 {
+    public elements: Float64Array;
+
+    /**
+     * Creates a new matrix, initialised to identity unless elements are given.
+     *
+     * @param elements - Optional 16 elements in column-major order
+     */
+    public constructor(elements?: ArrayLike<number>) {
+        this.elements = new Float64Array(16);
+
+        if (elements) {
+            this.elements.set(elements);
+        } else {
+            this.elements[0] = this.elements[5] = this.elements[10] = this.elements[15] = 1;
+        }
+    }
+
+    /**
+     * Sets all 16 elements in row-major reading order (as the matrix is written on paper)
+     * and returns this matrix. Storage remains column-major.
+     */
+    public set(
+        m00: number, m01: number, m02: number, m03: number,
+        m10: number, m11: number, m12: number, m13: number,
+        m20: number, m21: number, m22: number, m23: number,
+        m30: number, m31: number, m32: number, m33: number
+    ): Matrix4 {
+        const e: Float64Array = this.elements;
+        e[0] = m00; e[4] = m01; e[8]  = m02; e[12] = m03;
+        e[1] = m10; e[5] = m11; e[9]  = m12; e[13] = m13;
+        e[2] = m20; e[6] = m21; e[10] = m22; e[14] = m23;
+        e[3] = m30; e[7] = m31; e[11] = m32; e[15] = m33;
+        return this;
+    }
+
+    /**
+     * Returns the element at (row, column).
+     */
+    public get(row: number, column: number): number {
+        return this.elements[column * 4 + row];
+    }
+
+    /**
+     * Returns the matrix product this * m (m is applied first).
+     *
+     * @param m - Right-hand matrix
+     * @param out - Optional destination matrix
+     */
+    public multiply(m: Matrix4, out: Matrix4 = new Matrix4()): Matrix4 {
+        const a: Float64Array = this.elements;
+        const b: Float64Array = m.elements;
+
+        for (let column: number = 0; column < 4; column++) {
+            for (let row: number = 0; row < 4; row++) {
+                product[column * 4 + row] =
+                    a[row]      * b[column * 4] +
+                    a[4 + row]  * b[column * 4 + 1] +
+                    a[8 + row]  * b[column * 4 + 2] +
+                    a[12 + row] * b[column * 4 + 3];
+            }
+        }
+
+        // Copied last, so out may alias this or m
+        out.elements.set(product);
+        return out;
+    }
+
+    /**
+     * Returns the transposed matrix.
+     *
+     * @param out - Optional destination matrix
+     */
+    public transpose(out: Matrix4 = new Matrix4()): Matrix4 {
+        const e: Float64Array = this.elements;
+        return out.set(
+            e[0],  e[1],  e[2],  e[3],
+            e[4],  e[5],  e[6],  e[7],
+            e[8],  e[9],  e[10], e[11],
+            e[12], e[13], e[14], e[15]
+        );
+    }
+
+    /**
+     * Returns the determinant of the matrix.
+     */
+    public determinant(): number {
+        const e: Float64Array = this.elements;
+
+        const b00: number = e[0] * e[5] - e[1] * e[4];
+        const b01: number = e[0] * e[6] - e[2] * e[4];
+        const b02: number = e[0] * e[7] - e[3] * e[4];
+        const b03: number = e[1] * e[6] - e[2] * e[5];
+        const b04: number = e[1] * e[7] - e[3] * e[5];
+        const b05: number = e[2] * e[7] - e[3] * e[6];
+        const b06: number = e[8] * e[13] - e[9] * e[12];
+        const b07: number = e[8] * e[14] - e[10] * e[12];
+        const b08: number = e[8] * e[15] - e[11] * e[12];
+        const b09: number = e[9] * e[14] - e[10] * e[13];
+        const b10: number = e[9] * e[15] - e[11] * e[13];
+        const b11: number = e[10] * e[15] - e[11] * e[14];
+
+        return b00 * b11 - b01 * b10 + b02 * b09 + b03 * b08 - b04 * b07 + b05 * b06;
+    }
+
+    /**
+     * Returns the inverse matrix, or null if the matrix is singular.
+     *
+     * Uses the cofactor expansion via 2×2 sub-determinants.
+     *
+     * @param out - Optional destination matrix
+     */
+    public invert(out: Matrix4 = new Matrix4()): Matrix4 | null {
+        const e: Float64Array = this.elements;
+
+        const a00: number = e[0],  a01: number = e[1],  a02: number = e[2],  a03: number = e[3];
+        const a10: number = e[4],  a11: number = e[5],  a12: number = e[6],  a13: number = e[7];
+        const a20: number = e[8],  a21: number = e[9],  a22: number = e[10], a23: number = e[11];
+        const a30: number = e[12], a31: number = e[13], a32: number = e[14], a33: number = e[15];
+
+        const b00: number = a00 * a11 - a01 * a10;
+        const b01: number = a00 * a12 - a02 * a10;
+        const b02: number = a00 * a13 - a03 * a10;
+        const b03: number = a01 * a12 - a02 * a11;
+        const b04: number = a01 * a13 - a03 * a11;
+        const b05: number = a02 * a13 - a03 * a12;
+        const b06: number = a20 * a31 - a21 * a30;
+        const b07: number = a20 * a32 - a22 * a30;
+        const b08: number = a20 * a33 - a23 * a30;
+        const b09: number = a21 * a32 - a22 * a31;
+        const b10: number = a21 * a33 - a23 * a31;
+        const b11: number = a22 * a33 - a23 * a32;
+
+        const determinant: number = b00 * b11 - b01 * b10 + b02 * b09 + b03 * b08 - b04 * b07 + b05 * b06;
+
+        // Singular matrix – no inverse exists
+        if (determinant === 0) return null;
+
+        const inverse: number = 1 / determinant;
+        const o: Float64Array = out.elements;
+
+        o[0]  = (a11 * b11 - a12 * b10 + a13 * b09) * inverse;
+        o[1]  = (a02 * b10 - a01 * b11 - a03 * b09) * inverse;
+        o[2]  = (a31 * b05 - a32 * b04 + a33 * b03) * inverse;
+        o[3]  = (a22 * b04 - a21 * b05 - a23 * b03) * inverse;
+        o[4]  = (a12 * b08 - a10 * b11 - a13 * b07) * inverse;
+        o[5]  = (a00 * b11 - a02 * b08 + a03 * b07) * inverse;
+        o[6]  = (a32 * b02 - a30 * b05 - a33 * b01) * inverse;
+        o[7]  = (a20 * b05 - a22 * b02 + a23 * b01) * inverse;
+        o[8]  = (a10 * b10 - a11 * b08 + a13 * b06) * inverse;
+        o[9]  = (a01 * b08 - a00 * b10 - a03 * b06) * inverse;
+        o[10] = (a30 * b04 - a31 * b02 + a33 * b00) * inverse;
+        o[11] = (a21 * b02 - a20 * b04 - a23 * b00) * inverse;
+        o[12] = (a11 * b07 - a10 * b09 - a12 * b06) * inverse;
+        o[13] = (a00 * b09 - a01 * b07 + a02 * b06) * inverse;
+        o[14] = (a31 * b01 - a30 * b03 - a32 * b00) * inverse;
+        o[15] = (a20 * b03 - a21 * b01 + a22 * b00) * inverse;
+
+        return out;
+    }
+
+    /**
+     * Transforms a homogeneous vector: M * v.
+     *
+     * @param v - Vector to transform
+     * @param out - Optional destination vector
+     */
+    public transformVector4(v: Vector4, out: Vector4 = new Vector4()): Vector4 {
+        const e: Float64Array = this.elements;
+        return out.set(
+            e[0] * v.x + e[4] * v.y + e[8]  * v.z + e[12] * v.w,
+            e[1] * v.x + e[5] * v.y + e[9]  * v.z + e[13] * v.w,
+            e[2] * v.x + e[6] * v.y + e[10] * v.z + e[14] * v.w,
+            e[3] * v.x + e[7] * v.y + e[11] * v.z + e[15] * v.w
+        );
+    }
+
+    /**
+     * Transforms a point (w = 1), including the perspective divide.
+     *
+     * @param v - Point to transform
+     * @param out - Optional destination vector
+     */
+    public transformPoint(v: Vector3, out: Vector3 = new Vector3()): Vector3 {
+        const e: Float64Array = this.elements;
+        const w: number = e[3] * v.x + e[7] * v.y + e[11] * v.z + e[15];
+        const inverseW: number = w !== 0 ? 1 / w : 1;
+
+        return out.set(
+            (e[0] * v.x + e[4] * v.y + e[8]  * v.z + e[12]) * inverseW,
+            (e[1] * v.x + e[5] * v.y + e[9]  * v.z + e[13]) * inverseW,
+            (e[2] * v.x + e[6] * v.y + e[10] * v.z + e[14]) * inverseW
+        );
+    }
+
+    /**
+     * Transforms a direction (w = 0) – translation is ignored.
+     *
+     * @param v - Direction to transform
+     * @param out - Optional destination vector
+     */
+    public transformDirection(v: Vector3, out: Vector3 = new Vector3()): Vector3 {
+        const e: Float64Array = this.elements;
+        return out.set(
+            e[0] * v.x + e[4] * v.y + e[8]  * v.z,
+            e[1] * v.x + e[5] * v.y + e[9]  * v.z,
+            e[2] * v.x + e[6] * v.y + e[10] * v.z
+        );
+    }
+
+    /**
+     * Checks whether two matrices are equal within an epsilon.
+     *
+     * @param m - Other matrix
+     * @param epsilon - Allowed difference per element (default: 1e-6)
+     */
+    public equals(m: Matrix4, epsilon: number = 1e-6): boolean {
+        for (let i: number = 0; i < 16; i++) {
+            if (Math.abs(this.elements[i] - m.elements[i]) > epsilon) return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Creates and returns a copy of this matrix.
+     */
+    public clone(): Matrix4 {
+        return new Matrix4(this.elements);
+    }
+
+    /**
+     * Returns a string representation of the matrix, one row per line.
+     */
+    public toString(): string {
+        const rows: string[] = [];
+
+        for (let row: number = 0; row < 4; row++) {
+            const values: string[] = [];
+            for (let column: number = 0; column < 4; column++) {
+                values.push(this.get(row, column).toFixed(2));
+            }
+            rows.push(`[${values.join(", ")}]`);
+        }
+
+        return `Matrix4(\n  ${rows.join("\n  ")}\n)`;
+    }
+
+    /**
+     * Returns the identity matrix.
+     *
+     * @param out - Optional destination matrix
+     */
+    public static identity(out: Matrix4 = new Matrix4()): Matrix4 {
+        return out.set(
+            1, 0, 0, 0,
+            0, 1, 0, 0,
+            0, 0, 1, 0,
+            0, 0, 0, 1
+        );
+    }
+
+    /**
+     * Returns a translation matrix.
+     *
+     * @param x - Translation along X
+     * @param y - Translation along Y
+     * @param z - Translation along Z
+     * @param out - Optional destination matrix
+     */
+    public static translation(x: number, y: number, z: number, out: Matrix4 = new Matrix4()): Matrix4 {
+        return out.set(
+            1, 0, 0, x,
+            0, 1, 0, y,
+            0, 0, 1, z,
+            0, 0, 0, 1
+        );
+    }
+
+    /**
+     * Returns a (non-uniform) scaling matrix.
+     *
+     * @param x - Scale along X
+     * @param y - Scale along Y
+     * @param z - Scale along Z
+     * @param out - Optional destination matrix
+     */
+    public static scaling(x: number, y: number, z: number, out: Matrix4 = new Matrix4()): Matrix4 {
+        return out.set(
+            x, 0, 0, 0,
+            0, y, 0, 0,
+            0, 0, z, 0,
+            0, 0, 0, 1
+        );
+    }
+
+    /**
+     * Returns a counter-clockwise rotation around the X axis.
+     *
+     * @param angle - Rotation angle in radians
+     * @param out - Optional destination matrix
+     */
+    public static rotationX(angle: number, out: Matrix4 = new Matrix4()): Matrix4 {
+        const cos: number = Math.cos(angle);
+        const sin: number = Math.sin(angle);
+
+        return out.set(
+            1, 0,    0,   0,
+            0, cos, -sin, 0,
+            0, sin,  cos, 0,
+            0, 0,    0,   1
+        );
+    }
+
+    /**
+     * Returns a counter-clockwise rotation around the Y axis.
+     *
+     * @param angle - Rotation angle in radians
+     * @param out - Optional destination matrix
+     */
+    public static rotationY(angle: number, out: Matrix4 = new Matrix4()): Matrix4 {
+        const cos: number = Math.cos(angle);
+        const sin: number = Math.sin(angle);
+
+        return out.set(
+             cos, 0, sin, 0,
+             0,   1, 0,   0,
+            -sin, 0, cos, 0,
+             0,   0, 0,   1
+        );
+    }
+
+    /**
+     * Returns a counter-clockwise rotation around the Z axis.
+     *
+     * @param angle - Rotation angle in radians
+     * @param out - Optional destination matrix
+     */
+    public static rotationZ(angle: number, out: Matrix4 = new Matrix4()): Matrix4 {
+        const cos: number = Math.cos(angle);
+        const sin: number = Math.sin(angle);
+
+        return out.set(
+            cos, -sin, 0, 0,
+            sin,  cos, 0, 0,
+            0,    0,   1, 0,
+            0,    0,   0, 1
+        );
+    }
+
+    /**
+     * Returns a counter-clockwise rotation around an arbitrary axis (Rodrigues' formula).
+     *
+     * @param axis - Rotation axis (normalised internally)
+     * @param angle - Rotation angle in radians
+     * @param out - Optional destination matrix
+     */
+    public static rotation(axis: Vector3, angle: number, out: Matrix4 = new Matrix4()): Matrix4 {
+        const { x, y, z } = axis.normalize();
+        const cos: number = Math.cos(angle);
+        const sin: number = Math.sin(angle);
+        const t: number = 1 - cos;
+
+        return out.set(
+            t * x * x + cos,     t * x * y - sin * z, t * x * z + sin * y, 0,
+            t * x * y + sin * z, t * y * y + cos,     t * y * z - sin * x, 0,
+            t * x * z - sin * y, t * y * z + sin * x, t * z * z + cos,     0,
+            0,                   0,                   0,                   1
+        );
+    }
+
+    /**
+     * Returns a view matrix that places the camera at eye, looking at target.
+     *
+     * The camera's local axes are: right = +X, up = +Y, and forward = -Z.
+     *
+     * @param eye - Camera position
+     * @param target - Point the camera looks at
+     * @param up - Approximate up direction (e.g. (0, 1, 0))
+     * @param out - Optional destination matrix
+     */
+    public static lookAt(eye: Vector3, target: Vector3, up: Vector3, out: Matrix4 = new Matrix4()): Matrix4 {
+        // Backward axis (camera looks down -Z)
+        const zAxis: Vector3 = eye.subtract(target).normalize();
+        const xAxis: Vector3 = up.cross(zAxis).normalize();
+        const yAxis: Vector3 = zAxis.cross(xAxis);
+
+        return out.set(
+            xAxis.x, xAxis.y, xAxis.z, -xAxis.dot(eye),
+            yAxis.x, yAxis.y, yAxis.z, -yAxis.dot(eye),
+            zAxis.x, zAxis.y, zAxis.z, -zAxis.dot(eye),
+            0,       0,       0,        1
+        );
+    }
+
+    /**
+     * Returns a perspective projection matrix (z mapped to [-1, 1], w = -z_view).
+     *
+     * @param fovY - Vertical field of view in radians
+     * @param aspect - Aspect ratio (width / height)
+     * @param near - Distance to the near plane (> 0)
+     * @param far - Distance to the far plane (> near)
+     * @param out - Optional destination matrix
+     */
+    public static perspective(fovY: number, aspect: number, near: number, far: number, out: Matrix4 = new Matrix4()): Matrix4 {
+        const f: number = 1 / Math.tan(fovY / 2);
+        const rangeInverse: number = 1 / (near - far);
+
+        return out.set(
+            f / aspect, 0, 0,                            0,
+            0,          f, 0,                            0,
+            0,          0, (far + near) * rangeInverse,  2 * far * near * rangeInverse,
+            0,          0, -1,                           0
+        );
+    }
+
+    /**
+     * Returns an orthographic projection matrix (z mapped to [-1, 1], w = 1).
+     *
+     * @param left - Left plane
+     * @param right - Right plane
+     * @param bottom - Bottom plane
+     * @param top - Top plane
+     * @param near - Distance to the near plane
+     * @param far - Distance to the far plane
+     * @param out - Optional destination matrix
+     */
+    public static orthographic(left: number, right: number, bottom: number, top: number, near: number, far: number, out: Matrix4 = new Matrix4()): Matrix4 {
+        const width: number = 1 / (right - left);
+        const height: number = 1 / (top - bottom);
+        const depth: number = 1 / (far - near);
+
+        return out.set(
+            2 * width, 0,          0,          -(right + left) * width,
+            0,         2 * height, 0,          -(top + bottom) * height,
+            0,         0,          -2 * depth, -(far + near) * depth,
+            0,         0,          0,           1
+        );
+    }
+}
+
+/**
+ * Returns the matrix that transforms normals like the given model matrix transforms
+ * positions: the inverse transpose, which keeps normals perpendicular under non-uniform
+ * scaling. Falls back to the model matrix itself if it is singular.
+ *
+ * @param model - Model (object → world) matrix
+ * @param out - Optional destination matrix
+ */
+export function normalMatrixOf(model: Matrix4, out: Matrix4 = new Matrix4()): Matrix4 {
+    const inverse: Matrix4 | null = model.invert(out);
+
+    if (!inverse) {
+        out.elements.set(model.elements);
+        return out;
+    }
+
+    return inverse.transpose(out);
+}
@@ -0,0 +1,193 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: vector3.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Defines a 3D vector class used for positions, directions and normals.
+ *
+ *   Design Note:
+ *     Like Point2D, methods do not mutate the vector they are called on. Every method
+ *     that produces a vector takes an optional "out" parameter: when omitted a new
+ *     instance is returned, when given the result is written into it and returned.
+ *     This keeps casual code allocation-safe while hot loops can reuse scratch vectors.
+ *     The out vector may alias an input (e.g. a.add(b, a)).
+ */
+
+export class Vector3 {
+    public x: number;
+    public y: number;
+    public z: number;
+
+    /**
+     * Creates a new 3D vector.
+     *
+     * @param x - X component (default: 0)
+     * @param y - Y component (default: 0)
+     * @param z - Z component (default: 0)
+     */
+    public constructor(x: number = 0, y: number = 0, z: number = 0) {
+        this.x = x;
+        this.y = y;
+        this.z = z;
+    }
+
+    /**
+     * Sets all components and returns this vector.
+     *
+     * @param x - X component
+     * @param y - Y component
+     * @param z - Z component
+     * @returns This vector
+     */
+    public set(x: number, y: number, z: number): Vector3 {
+        this.x = x;
+        this.y = y;
+        this.z = z;
+        return this;
+    }
+
+    /**
+     * Returns the component-wise sum this + v.
+     *
+     * @param v - Vector to add
+     * @param out - Optional destination vector
+     */
+    public add(v: Vector3, out: Vector3 = new Vector3()): Vector3 {
+        return out.set(this.x + v.x, this.y + v.y, this.z + v.z);
+    }
+
+    /**
+     * Returns the component-wise difference this - v.
+     *
+     * @param v - Vector to subtract
+     * @param out - Optional destination vector
+     */
+    public subtract(v: Vector3, out: Vector3 = new Vector3()): Vector3 {
+        return out.set(this.x - v.x, this.y - v.y, this.z - v.z);
+    }
+
+    /**
+     * Returns this vector scaled uniformly by a factor.
+     *
+     * @param scale - Scaling factor
+     * @param out - Optional destination vector
+     */
+    public scale(scale: number, out: Vector3 = new Vector3()): Vector3 {
+        return out.set(this.x * scale, this.y * scale, this.z * scale);
+    }
+
+    /**
+     * Returns the component-wise product this * v.
+     *
+     * @param v - Vector to multiply with
+     * @param out - Optional destination vector
+     */
+    public multiply(v: Vector3, out: Vector3 = new Vector3()): Vector3 {
+        return out.set(this.x * v.x, this.y * v.y, this.z * v.z);
+    }
+
+    /**
+     * Returns the negated vector.
+     *
+     * @param out - Optional destination vector
+     */
+    public negate(out: Vector3 = new Vector3()): Vector3 {
+        return out.set(-this.x, -this.y, -this.z);
+    }
+
+    /**
+     * Returns the dot product of this and v.
+     *
+     * @param v - Other vector
+     */
+    public dot(v: Vector3): number {
+        return this.x * v.x + this.y * v.y + this.z * v.z;
+    }
+
+    /**
+     * Returns the cross product this × v (right-handed).
+     *
+     * @param v - Other vector
+     * @param out - Optional destination vector
+     */
+    public cross(v: Vector3, out: Vector3 = new Vector3()): Vector3 {
+        return out.set(
+            this.y * v.z - this.z * v.y,
+            this.z * v.x - this.x * v.z,
+            this.x * v.y - this.y * v.x
+        );
+    }
+
+    /**
+     * Returns the Euclidean length of the vector.
+     */
+    public length(): number {
+        return Math.sqrt(this.x * this.x + this.y * this.y + this.z * this.z);
+    }
+
+    /**
+     * Returns the squared length (avoids the square root when only comparing).
+     */
+    public lengthSquared(): number {
+        return this.x * this.x + this.y * this.y + this.z * this.z;
+    }
+
+    /**
+     * Returns the vector scaled to unit length.
+     * A zero vector is returned unchanged.
+     *
+     * @param out - Optional destination vector
+     */
+    public normalize(out: Vector3 = new Vector3()): Vector3 {
+        const length: number = this.length();
+
+        if (length === 0) return out.set(0, 0, 0);
+
+        return this.scale(1 / length, out);
+    }
+
+    /**
+     * Linearly interpolates between this vector and v.
+     *
+     * @param v - Target vector
+     * @param t - Interpolation factor (typically in [0, 1])
+     * @param out - Optional destination vector
+     */
+    public lerp(v: Vector3, t: number, out: Vector3 = new Vector3()): Vector3 {
+        return out.set(
+            this.x + (v.x - this.x) * t,
+            this.y + (v.y - this.y) * t,
+            this.z + (v.z - this.z) * t
+        );
+    }
+
+    /**
+     * Checks whether two vectors are equal within an epsilon.
+     *
+     * @param v - Other vector
+     * @param epsilon - Allowed difference per component (default: 1e-6)
+     */
+    public equals(v: Vector3, epsilon: number = 1e-6): boolean {
+        return (
+            Math.abs(this.x - v.x) <= epsilon &&
+            Math.abs(this.y - v.y) <= epsilon &&
+            Math.abs(this.z - v.z) <= epsilon
+        );
+    }
+
+    /**
+     * Creates and returns a copy of this vector.
+     */
+    public clone(): Vector3 {
+        return new Vector3(this.x, this.y, this.z);
+    }
+
+    /**
+     * Returns a string representation of the vector with 2 decimal precision.
+     */
+    public toString(): string {
+        return `(${this.x.toFixed(2)}, ${this.y.toFixed(2)}, ${this.z.toFixed(2)})`;
+    }
+}
@@ -0,0 +1,173 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: vector4.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Defines a 4D vector class, used mainly for homogeneous coordinates (x, y, z, w).
+ *   Points have w = 1, directions have w = 0; after projection w carries the depth
+ *   needed for the perspective divide.
+ *
+ *   Follows the same "out parameter" convention as Vector3.
+ */
+import { Vector3 } from "./vector3.js";
+
+export class Vector4 {
+    public x: number;
+    public y: number;
+    public z: number;
+    public w: number;
+
+    /**
+     * Creates a new 4D vector.
+     *
+     * @param x - X component (default: 0)
+     * @param y - Y component (default: 0)
+     * @param z - Z component (default: 0)
+     * @param w - W component (default: 0)
+     */
+    public constructor(x: number = 0, y: number = 0, z: number = 0, w: number = 0) {
+        this.x = x;
+        this.y = y;
+        this.z = z;
+        this.w = w;
+    }
+
+    /**
+     * Creates a homogeneous vector from a Vector3.
+     *
+     * @param v - Source vector
+     * @param w - W component (default: 1, i.e. a point)
+     * @param out - Optional destination vector
+     */
+    public static fromVector3(v: Vector3, w: number = 1, out: Vector4 = new Vector4()): Vector4 {
+        return out.set(v.x, v.y, v.z, w);
+    }
+
+    /**
+     * Sets all components and returns this vector.
+     */
+    public set(x: number, y: number, z: number, w: number): Vector4 {
+        this.x = x;
+        this.y = y;
+        this.z = z;
+        this.w = w;
+        return this;
+    }
+
+    /**
+     * Returns the component-wise sum this + v.
+     *
+     * @param v - Vector to add
+     * @param out - Optional destination vector
+     */
+    public add(v: Vector4, out: Vector4 = new Vector4()): Vector4 {
+        return out.set(this.x + v.x, this.y + v.y, this.z + v.z, this.w + v.w);
+    }
+
+    /**
+     * Returns the component-wise difference this - v.
+     *
+     * @param v - Vector to subtract
+     * @param out - Optional destination vector
+     */
+    public subtract(v: Vector4, out: Vector4 = new Vector4()): Vector4 {
+        return out.set(this.x - v.x, this.y - v.y, this.z - v.z, this.w - v.w);
+    }
+
+    /**
+     * Returns this vector scaled uniformly by a factor.
+     *
+     * @param scale - Scaling factor
+     * @param out - Optional destination vector
+     */
+    public scale(scale: number, out: Vector4 = new Vector4()): Vector4 {
+        return out.set(this.x * scale, this.y * scale, this.z * scale, this.w * scale);
+    }
+
+    /**
+     * Returns the dot product of this and v (all four components).
+     *
+     * @param v - Other vector
+     */
+    public dot(v: Vector4): number {
+        return this.x * v.x + this.y * v.y + this.z * v.z + this.w * v.w;
+    }
+
+    /**
+     * Returns the Euclidean length of the vector (all four components).
+     */
+    public length(): number {
+        return Math.sqrt(this.dot(this));
+    }
+
+    /**
+     * Returns the vector scaled to unit length.
+     * A zero vector is returned unchanged.
+     *
+     * @param out - Optional destination vector
+     */
+    public normalize(out: Vector4 = new Vector4()): Vector4 {
+        const length: number = this.length();
+
+        if (length === 0) return out.set(0, 0, 0, 0);
+
+        return this.scale(1 / length, out);
+    }
+
+    /**
+     * Linearly interpolates between this vector and v.
+     *
+     * @param v - Target vector
+     * @param t - Interpolation factor (typically in [0, 1])
+     * @param out - Optional destination vector
+     */
+    public lerp(v: Vector4, t: number, out: Vector4 = new Vector4()): Vector4 {
+        return out.set(
+            this.x + (v.x - this.x) * t,
+            this.y + (v.y - this.y) * t,
+            this.z + (v.z - this.z) * t,
+            this.w + (v.w - this.w) * t
+        );
+    }
+
+    /**
+     * Performs the perspective divide and returns (x/w, y/w, z/w).
+     *
+     * @param out - Optional destination vector
+     */
+    public toVector3(out: Vector3 = new Vector3()): Vector3 {
+        const inverseW: number = this.w !== 0 ? 1 / this.w : 1;
+        return out.set(this.x * inverseW, this.y * inverseW, this.z * inverseW);
+    }
+
+    /**
+     * Checks whether two vectors are equal within an epsilon.
+     *
+     * @param v - Other vector
+     * @param epsilon - Allowed difference per component (default: 1e-6)
+     */
+    public equals(v: Vector4, epsilon: number = 1e-6): boolean {
+        return (
+            Math.abs(this.x - v.x) <= epsilon &&
+            Math.abs(this.y - v.y) <= epsilon &&
+            Math.abs(this.z - v.z) <= epsilon &&
+            Math.abs(this.w - v.w) <= epsilon
+        );
+    }
+
+    /**
+     * Creates and returns a copy of this vector.
+     */
+    public clone(): Vector4 {
+        return new Vector4(this.x, this.y, this.z, this.w);
+    }
+
+    /**
+     * Returns a string representation of the vector with 2 decimal precision.
+     */
+    public toString(): string {
+        return `(${this.x.toFixed(2)}, ${this.y.toFixed(2)}, ${this.z.toFixed(2)}, ${this.w.toFixed(2)})`;
+    }
+}
@@ -0,0 +1,71 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: loader.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Asynchronous mesh loading for use in a demo's initialize():
+ *
+ *     const mesh: Mesh = await loadMesh("../../assets/crate.obj");
+ *
+ *   Loads the OBJ file, every material library it references (mtllib) and, optionally,
+ *   the diffuse texture maps (map_Kd). Library and texture paths are resolved relative
+ *   to the file that names them, as exporters write them.
+ */
+import { loadTexture } from "../texture/loader.js";
+import { WrapMode } from "../texture/texture.js";
+import { Material, Mesh } from "./mesh.js";
+import { parseMTL, parseOBJ, ParsedOBJ } from "./obj.js";
+
+interface MeshLoadParameters {
+    textures?: boolean;    // Whether to load map_Kd textures (default: true)
+    wrap?: WrapMode;       // Wrap mode of loaded textures (default: "repeat")
+}
+
+/**
+ * Fetches an OBJ file with its materials and textures.
+ *
+ * @param url - Location of the OBJ file
+ * @param params - Optional loading parameters
+ */
+export async function loadMesh(url: string, { textures = true, wrap = "repeat" }: MeshLoadParameters = {}): Promise<Mesh> {
+    const parsed: ParsedOBJ = parseOBJ(await fetchText(url));
+    const mesh: Mesh = parsed.mesh;
+
+    for (const library of parsed.libraries) {
+        const libraryUrl: string = resolvePath(url, library);
+        const materials: Map<string, Material> = parseMTL(await fetchText(libraryUrl));
+
+        for (const material of Array.from(materials.values())) {
+            if (textures && material.diffuseMap !== null) {
+                material.texture = await loadTexture(resolvePath(libraryUrl, material.diffuseMap), wrap);
+            }
+
+            mesh.materials.set(material.name, material);
+        }
+    }
+
+    return mesh;
+}
+
+/**
+ * Fetches a text file.
+ */
+async function fetchText(url: string): Promise<string> {
+    const response: Response = await fetch(url);
+
+    if (!response.ok) throw new Error(`Mesh: failed to load ${url} (${response.status})`);
+
+    return response.text();
+}
+
+/**
+ * Resolves a file name relative to the directory of another file.
+ */
+function resolvePath(base: string, name: string): string {
+    // Absolute paths and URLs are used as they are
+    if (/^([a-z][a-z0-9+.-]*:|\/)/i.test(name)) return name;
+
+    return base.substring(0, base.lastIndexOf("/") + 1) + name.replace(/\\/g, "/");
+}
@@ -0,0 +1,159 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: mesh.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Defines an indexed triangle mesh, as produced by the OBJ loader (see obj.ts).
+ *
+ *   Layout:
+ *     - positions, normals and uvs are separate attribute arrays
+ *     - Every face is a triangle that indexes each attribute array on its own
+ *       (as in OBJ, where a corner can combine position 3, uv 7 and normal 1)
+ *     - Faces are grouped by material: each group is a contiguous range of faces
+ *
+ *   toTriangles() expands the mesh into Triangle3D instances for the vertex pipeline.
+ */
+import { Color4 } from "../color/color4.js";
+import { Triangle3D } from "../geometry/triangle3d.js";
+import { Vertex3D } from "../geometry/vertex3d.js";
+import { Vector3 } from "../math/vector3.js";
+import { Texture, TextureCoordinate } from "../texture/texture.js";
+
+/**
+ * Surface material (the subset of MTL the engine uses).
+ */
+export interface Material {
+    name: string;
+    diffuse: Color4;              // Kd (and d for alpha)
+    diffuseMap: string | null;    // map_Kd file name, relative to the MTL file
+    texture: Texture | null;      // Loaded diffuse map (set by the loader)
+}
+
+/**
+ * A triangle of the mesh. Each corner has its own index into every attribute array.
+ */
+export interface Face {
+    positions: [number, number, number];
+    normals: [number, number, number] | null;    // null when the face has no normals
+    uvs: [number, number, number] | null;        // null when the face has no texture coordinates
+    smoothing: number;                           // Smoothing group (0 = flat)
+}
+
+/**
+ * A contiguous range of faces sharing one material.
+ */
+export interface MaterialGroup {
+    material: string | null;    // Material name, or null before the first usemtl
+    start: number;              // Index of the first face
+    count: number;              // Number of faces
+}
+
+export class Mesh {
+    public positions: Vector3[] = [];
+    public normals: Vector3[] = [];
+    public uvs: TextureCoordinate[] = [];
+
+    public faces: Face[] = [];
+    public groups: MaterialGroup[] = [];
+
+    public materials: Map<string, Material> = new Map();
+
+    /**
+     * Returns the material of a group, or null if it has none or it was not loaded.
+     *
+     * @param group - Material group
+     */
+    public materialOf(group: MaterialGroup): Material | null {
+        return group.material !== null ? this.materials.get(group.material) ?? null : null;
+    }
+
+    /**
+     * Generates normals for all faces without them.
+     *
+     * Faces in smoothing group 0 get their face normal. Faces in any other group get
+     * per-corner normals averaged over all faces of the same group that share the
+     * position, so curved surfaces shade smoothly while hard edges stay sharp.
+     * Face normals are area weighted and follow counter-clockwise winding.
+     */
+    public computeNormals(): void {
+        const faceNormals: Vector3[] = this.faces.map((face) => {
+            const a: Vector3 = this.positions[face.positions[0]];
+            const b: Vector3 = this.positions[face.positions[1]];
+            const c: Vector3 = this.positions[face.positions[2]];
+
+            return b.subtract(a).cross(c.subtract(a));
+        });
+
+        // Accumulated normal per (smoothing group, position)
+        const smooth: Map<string, number> = new Map();
+
+        for (let i: number = 0; i < this.faces.length; i++) {
+            const face: Face = this.faces[i];
+
+            if (face.normals !== null) continue;
+
+            if (face.smoothing === 0) {
+                const index: number = this.normals.push(faceNormals[i].normalize()) - 1;
+                face.normals = [index, index, index];
+                continue;
+            }
+
+            const normals: number[] = face.positions.map((position) => {
+                const key: string = `${face.smoothing}/${position}`;
+                let index: number | undefined = smooth.get(key);
+
+                if (index === undefined) {
+                    index = this.normals.push(new Vector3()) - 1;
+                    smooth.set(key, index);
+                }
+
+                this.normals[index].add(faceNormals[i], this.normals[index]);
+                return index;
+            });
+
+            face.normals = [normals[0], normals[1], normals[2]];
+        }
+
+        smooth.forEach((index) => this.normals[index].normalize(this.normals[index]));
+    }
+
+    /**
+     * Expands the mesh into triangles for the vertex pipeline.
+     *
+     * Vertex colours are taken from the material's diffuse colour (white without material).
+     * Missing texture coordinates default to (0, 0), missing normals to null.
+     *
+     * @param group - Optional material group to expand (default: all faces)
+     */
+    public toTriangles(group?: MaterialGroup): Triangle3D[] {
+        const triangles: Triangle3D[] = [];
+
+        const groups: MaterialGroup[] = group ? [group] : this.groups;
+
+        for (const current of groups) {
+            const material: Material | null = this.materialOf(current);
+            const color: Color4 = material ? material.diffuse : Color4.white;
+
+            for (let i: number = current.start; i < current.start + current.count; i++) {
+                const face: Face = this.faces[i];
+
+                const vertices: Vertex3D[] = [0, 1, 2].map((corner) => {
+                    const uv: TextureCoordinate | null = face.uvs ? this.uvs[face.uvs[corner]] : null;
+
+                    return new Vertex3D(this.positions[face.positions[corner]], {
+                        color: color,
+                        u: uv ? uv.u : 0,
+                        v: uv ? uv.v : 0,
+                        normal: face.normals ? this.normals[face.normals[corner]] : undefined
+                    });
+                });
+
+                triangles.push(new Triangle3D(vertices[0], vertices[1], vertices[2]));
+            }
+        }
+
+        return triangles;
+    }
+}
@@ -0,0 +1,113 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: obj.test.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Unit tests for the OBJ and MTL parsers.
+ *
+ *   Faces are checked by their 0-based position indices, so fan triangulation and index
+ *   resolution can be read off directly. Run with scripts/test.mjs after compiling.
+ */
+import { Material } from "./mesh.js";
+import { parseMTL, parseOBJ, ParsedOBJ } from "./obj.js";
+
+// A unit square in the z = 0 plane, shared by most tests
+const SQUARE: string = [
+    "v 0 0 0",
+    "v 1 0 0",
+    "v 1 1 0",
+    "v 0 1 0"
+].join("\n");
+
+/**
+ * Named test functions; each throws an Error on failure.
+ */
+export const tests: { [name: string]: () => void } = {
+    "OBJ fan triangulation": () => {
+        const { mesh } = parseOBJ(`${SQUARE}\nf 1 2 3 4`);
+
+        expect(mesh.faces.length === 2, `expected 2 faces, got ${mesh.faces.length}`);
+        expectPositions(mesh.faces[0].positions, [0, 1, 2]);
+        expectPositions(mesh.faces[1].positions, [0, 2, 3]);
+    },
+
+    "OBJ negative indices": () => {
+        // Relative to the positions read so far: -1 is the latest (index 3)
+        const { mesh } = parseOBJ(`${SQUARE}\nf -3 -2 -1`);
+
+        expectPositions(mesh.faces[0].positions, [1, 2, 3]);
+    },
+
+    "OBJ corners with uvs and normals": () => {
+        const { mesh } = parseOBJ(`${SQUARE}\nvt 0 0\nvt 1 0\nvt 1 1\nvn 0 0 1\nf 1/1/1 2/2/1 3/3/1\nf 1//1 3//1 4//1`);
+
+        expect(mesh.faces[0].uvs !== null && mesh.faces[0].uvs.join() === "0,1,2", "uvs not resolved");
+        expect(mesh.faces[0].normals !== null && mesh.faces[0].normals.join() === "0,0,0", "normals not resolved");
+        expect(mesh.faces[1].uvs === null, "face without uvs kept uvs");
+    },
+
+    "OBJ smoothing groups": () => {
+        const { mesh } = parseOBJ(`${SQUARE}\nf 1 2 3\ns 2\nf 1 3 4\ns off\nf 2 3 4`);
+
+        expect(mesh.faces.map((face) => face.smoothing).join() === "0,2,0", "wrong smoothing groups");
+    },
+
+    "OBJ materials": () => {
+        const { mesh, libraries }: ParsedOBJ = parseOBJ(`mtllib a.mtl b.mtl\n${SQUARE}\nf 1 2 3\nusemtl red\nf 1 2 3 4\nusemtl blue\nf 1 3 4\nusemtl red\nf 2 3 4`);
+
+        expect(libraries.join() === "a.mtl,b.mtl", `wrong libraries ${libraries.join()}`);
+
+        const groups: string = mesh.groups.map((group) => `${group.material}:${group.start}+${group.count}`).join(" ");
+        expect(groups === "null:0+1 red:1+2 blue:3+1 red:4+1", `wrong groups ${groups}`);
+    },
+
+    "OBJ errors": () => {
+        expectThrows(() => parseOBJ(`${SQUARE}\n\nf 1 2 5`), "OBJ: line 6: face index 5 out of range (4 positions)");
+        expectThrows(() => parseOBJ(`${SQUARE}\nf 1 -5 2`), "OBJ: line 5: face index -5 out of range (4 positions)");
+        expectThrows(() => parseOBJ(`${SQUARE}\nf 1 0 2`), "OBJ: line 5: invalid face index \"0\"");
+        expectThrows(() => parseOBJ(`# comment\nv 1 x 0`), "OBJ: line 2: invalid number \"x\"");
+        expectThrows(() => parseOBJ(`${SQUARE}\nf 1 2`), "OBJ: line 5: face needs at least 3 corners, got 2");
+    },
+
+    "MTL materials": () => {
+        const materials: Map<string, Material> = parseMTL("newmtl red\nKd 1 0 0\nd 0.2\nmap_Kd -s 2 2 1 red.png\n\nnewmtl plain");
+
+        const red: Material | undefined = materials.get("red");
+        expect(red !== undefined, "red missing");
+        expect(red!.diffuse.red === 255 && red!.diffuse.green === 0 && red!.diffuse.alpha === 51, "wrong Kd or d");
+        expect(red!.diffuseMap === "red.png", `wrong map_Kd ${red!.diffuseMap}`);
+        expect(materials.get("plain")!.diffuseMap === null, "plain has a map");
+
+        expectThrows(() => parseMTL("Kd 1 1 1"), "MTL: line 1: Kd before newmtl");
+    }
+};
+
+/**
+ * Throws unless the condition holds.
+ */
+function expect(condition: boolean, message: string): void {
+    if (!condition) throw new Error(message);
+}
+
+/**
+ * Throws when a face's position indices differ from the expected ones.
+ */
+function expectPositions(actual: number[], expected: number[]): void {
+    expect(actual.join() === expected.join(), `expected positions ${expected.join()}, got ${actual.join()}`);
+}
+
+/**
+ * Throws unless the function throws an Error with exactly the given message.
+ */
+function expectThrows(action: () => void, message: string): void {
+    try {
+        action();
+    } catch (error) {
+        expect((error as Error).message === message, `expected "${message}", got "${(error as Error).message}"`);
+        return;
+    }
+
+    throw new Error(`expected "${message}", but nothing was thrown`);
+}
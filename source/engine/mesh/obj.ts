@@ -0,0 +1,273 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: obj.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Parsers for Wavefront OBJ geometry and MTL material libraries.
+ *
+ *   OBJ statements:
+ *     - v x y z [w]               → position (w is ignored)
+ *     - vt u [v [w]]              → texture coordinate (v defaults to 0)
+ *     - vn x y z                  → normal
+ *     - f v v v ...               → face; corners as v, v/vt, v//vn or v/vt/vn
+ *     - s n | off                 → smoothing group for the following faces
+ *     - mtllib file ...           → material libraries (collected in libraries)
+ *     - usemtl name               → starts a new material group
+ *     - o, g, l, p and other statements are accepted and ignored
+ *
+ *   Faces:
+ *     - Indices are 1-based; negative indices count back from the latest element
+ *     - Polygons with more than three corners are fan triangulated (0, i, i + 1),
+ *       which is exact for the convex polygons exporters write
+ *
+ *   MTL statements:
+ *     - newmtl name, Kd r g b (0..1), d alpha (0..1), map_Kd [options] file
+ *     - Other statements are accepted and ignored
+ *
+ *   Malformed input throws an Error naming the format and line, e.g.
+ *     "OBJ: line 12: face index 9 out of range (8 positions)"
+ */
+import { Color4 } from "../color/color4.js";
+import { Vector3 } from "../math/vector3.js";
+import { Face, Material, MaterialGroup, Mesh } from "./mesh.js";
+
+// A parsed face corner: position, texture coordinate and normal index (0-based)
+type Corner = [number, number | null, number | null];
+
+/**
+ * Result of parsing an OBJ file: the mesh and the material libraries it references.
+ */
+export interface ParsedOBJ {
+    mesh: Mesh;
+    libraries: string[];
+}
+
+/**
+ * Parses OBJ source text into a mesh.
+ *
+ * Materials are not resolved here (they live in separate files): the mesh's groups name
+ * their materials and libraries lists the mtllib files to load, see loader.ts.
+ *
+ * @param source - OBJ file contents
+ */
+export function parseOBJ(source: string): ParsedOBJ {
+    const mesh: Mesh = new Mesh();
+    const libraries: string[] = [];
+
+    let smoothing: number = 0;
+    let material: string | null = null;
+
+    forEachStatement(source, (keyword, args, line) => {
+        const fail = (message: string): never => {
+            throw new Error(`OBJ: line ${line}: ${message}`);
+        };
+
+        switch (keyword) {
+            case "v": {
+                if (args.length < 3) fail("position needs x, y and z");
+                const [x, y, z] = parseNumbers(args.slice(0, 3), fail);
+                mesh.positions.push(new Vector3(x, y, z));
+                break;
+            }
+
+            case "vt": {
+                if (args.length < 1) fail("texture coordinate needs at least u");
+                const [u, v] = parseNumbers(args.slice(0, 2), fail);
+                mesh.uvs.push({ u: u, v: v ?? 0 });
+                break;
+            }
+
+            case "vn": {
+                if (args.length < 3) fail("normal needs x, y and z");
+                const [x, y, z] = parseNumbers(args.slice(0, 3), fail);
+                mesh.normals.push(new Vector3(x, y, z));
+                break;
+            }
+
+            case "f": {
+                if (args.length < 3) fail(`face needs at least 3 corners, got ${args.length}`);
+
+                const corners: Corner[] = args.map((arg) => parseCorner(arg, mesh, fail));
+
+                // Start a new group when the material changed since the last face
+                const last: MaterialGroup | undefined = mesh.groups[mesh.groups.length - 1];
+
+                if (!last || last.material !== material) {
+                    mesh.groups.push({ material: material, start: mesh.faces.length, count: 0 });
+                }
+
+                const group: MaterialGroup = mesh.groups[mesh.groups.length - 1];
+
+                // Fan triangulation around the first corner
+                for (let i: number = 1; i < corners.length - 1; i++) {
+                    mesh.faces.push(createFace(corners[0], corners[i], corners[i + 1], smoothing));
+                    group.count++;
+                }
+                break;
+            }
+
+            case "s": {
+                if (args.length < 1) fail("smoothing group needs a number or off");
+
+                if (args[0] === "off") {
+                    smoothing = 0;
+                } else {
+                    const group: number = Number(args[0]);
+                    if (!Number.isInteger(group) || group < 0) fail(`invalid smoothing group "${args[0]}"`);
+                    smoothing = group;
+                }
+                break;
+            }
+
+            case "mtllib":
+                if (args.length < 1) fail("mtllib needs a file name");
+                libraries.push(...args);
+                break;
+
+            case "usemtl":
+                if (args.length < 1) fail("usemtl needs a material name");
+                material = args.join(" ");
+                break;
+        }
+    });
+
+    return { mesh, libraries };
+}
+
+/**
+ * Parses MTL source text into materials, keyed by name.
+ *
+ * @param source - MTL file contents
+ */
+export function parseMTL(source: string): Map<string, Material> {
+    const materials: Map<string, Material> = new Map();
+
+    let current: Material | null = null;
+
+    forEachStatement(source, (keyword, args, line) => {
+        const fail = (message: string): never => {
+            throw new Error(`MTL: line ${line}: ${message}`);
+        };
+
+        if (keyword === "newmtl") {
+            if (args.length < 1) fail("newmtl needs a material name");
+
+            current = { name: args.join(" "), diffuse: Color4.white, diffuseMap: null, texture: null };
+            materials.set(current.name, current);
+            return;
+        }
+
+        if (keyword !== "Kd" && keyword !== "d" && keyword !== "map_Kd") return;
+
+        if (!current) return fail(`${keyword} before newmtl`);
+
+        switch (keyword) {
+            case "Kd": {
+                if (args.length < 3) fail("Kd needs r, g and b");
+                const [r, g, b] = parseNumbers(args.slice(0, 3), fail);
+                current.diffuse = new Color4({ alpha: current.diffuse.alpha, red: r * 255, green: g * 255, blue: b * 255 });
+                break;
+            }
+
+            case "d": {
+                if (args.length < 1) fail("d needs a value");
+                const [alpha] = parseNumbers(args.slice(0, 1), fail);
+                const diffuse: Color4 = current.diffuse;
+                current.diffuse = new Color4({ alpha: alpha * 255, red: diffuse.red, green: diffuse.green, blue: diffuse.blue });
+                break;
+            }
+
+            case "map_Kd":
+                // Options (-o, -s, -blendu, ...) precede the file name
+                if (args.length < 1) fail("map_Kd needs a file name");
+                current.diffuseMap = args[args.length - 1];
+                break;
+        }
+    });
+
+    return materials;
+}
+
+/**
+ * Splits source text into statements and calls back with keyword, arguments and line number.
+ * Strips comments and blank lines, and joins lines continued with a trailing backslash.
+ */
+function forEachStatement(source: string, statement: (keyword: string, args: string[], line: number) => void): void {
+    const lines: string[] = source.split(/\r?\n/);
+
+    for (let i: number = 0; i < lines.length; i++) {
+        const line: number = i + 1;
+        let text: string = lines[i];
+
+        while (/\\\s*$/.test(text) && i + 1 < lines.length) {
+            text = text.replace(/\\\s*$/, " ") + lines[++i];
+        }
+
+        const comment: number = text.indexOf("#");
+        if (comment >= 0) text = text.substring(0, comment);
+
+        const tokens: string[] = text.trim().split(/\s+/);
+
+        if (tokens[0] === "") continue;
+
+        statement(tokens[0], tokens.slice(1), line);
+    }
+}
+
+/**
+ * Parses numeric arguments, failing on anything that is not a finite number.
+ */
+function parseNumbers(args: string[], fail: (message: string) => never): number[] {
+    return args.map((arg) => {
+        const value: number = Number(arg);
+        if (!isFinite(value)) fail(`invalid number "${arg}"`);
+        return value;
+    });
+}
+
+/**
+ * Parses one face corner (v, v/vt, v//vn or v/vt/vn) into 0-based indices.
+ */
+function parseCorner(corner: string, mesh: Mesh, fail: (message: string) => never): Corner {
+    const parts: string[] = corner.split("/");
+
+    if (parts.length > 3 || parts[0] === "") fail(`invalid face corner "${corner}"`);
+
+    const position: number = resolveIndex(parts[0], mesh.positions.length, "positions", fail);
+    const uv: number | null = parts.length > 1 && parts[1] !== "" ? resolveIndex(parts[1], mesh.uvs.length, "texture coordinates", fail) : null;
+    const normal: number | null = parts.length > 2 && parts[2] !== "" ? resolveIndex(parts[2], mesh.normals.length, "normals", fail) : null;
+
+    return [position, uv, normal];
+}
+
+/**
+ * Converts a 1-based (or negative, relative) OBJ index into a 0-based array index.
+ */
+function resolveIndex(text: string, count: number, name: string, fail: (message: string) => never): number {
+    const index: number = Number(text);
+
+    if (!Number.isInteger(index) || index === 0) fail(`invalid face index "${text}"`);
+
+    const resolved: number = index > 0 ? index - 1 : count + index;
+
+    if (resolved < 0 || resolved >= count) fail(`face index ${index} out of range (${count} ${name})`);
+
+    return resolved;
+}
+
+/**
+ * Builds a triangle face. Normals and uvs are only kept if all three corners have them.
+ */
+function createFace(a: Corner, b: Corner, c: Corner, smoothing: number): Face {
+    const uvs: boolean = a[1] !== null && b[1] !== null && c[1] !== null;
+    const normals: boolean = a[2] !== null && b[2] !== null && c[2] !== null;
+
+    return {
+        positions: [a[0], b[0], c[0]],
+        uvs: uvs ? [a[1]!, b[1]!, c[1]!] : null,
+        normals: normals ? [a[2]!, b[2]!, c[2]!] : null,
+        smoothing: smoothing
+    };
+}
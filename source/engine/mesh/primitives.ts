@@ -0,0 +1,62 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: primitives.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Procedural meshes for demos and tests, built in the same layout the OBJ loader produces:
+ *   counter-clockwise front faces, one material group without material.
+ */
+import { Vector3 } from "../math/vector3.js";
+import { Mesh } from "./mesh.js";
+
+/**
+ * Creates a UV sphere centred on the origin, with smooth normals and texture coordinates.
+ *
+ * @param radius - Sphere radius (default: 1)
+ * @param segments - Subdivisions around the Y axis (default: 16)
+ * @param rings - Subdivisions from pole to pole (default: 8)
+ */
+export function createSphere(radius: number = 1, segments: number = 16, rings: number = 8): Mesh {
+    const mesh: Mesh = new Mesh();
+
+    // Grid of (segments + 1) × (rings + 1) vertices; the seam and poles are duplicated for the uvs
+    for (let ring: number = 0; ring <= rings; ring++) {
+        const theta: number = (ring / rings) * Math.PI;
+
+        for (let segment: number = 0; segment <= segments; segment++) {
+            const phi: number = (segment / segments) * Math.PI * 2;
+
+            const normal: Vector3 = new Vector3(Math.sin(theta) * Math.sin(phi), Math.cos(theta), Math.sin(theta) * Math.cos(phi));
+
+            mesh.positions.push(normal.scale(radius));
+            mesh.normals.push(normal);
+            mesh.uvs.push({ u: segment / segments, v: ring / rings });
+        }
+    }
+
+    const stride: number = segments + 1;
+
+    for (let ring: number = 0; ring < rings; ring++) {
+        for (let segment: number = 0; segment < segments; segment++) {
+            const topLeft: number = ring * stride + segment;
+            const topRight: number = topLeft + 1;
+            const bottomLeft: number = topLeft + stride;
+            const bottomRight: number = bottomLeft + 1;
+
+            // Skip the zero-area triangles at the poles
+            if (ring > 0) {
+                mesh.faces.push({ positions: [topLeft, bottomLeft, topRight], normals: [topLeft, bottomLeft, topRight], uvs: [topLeft, bottomLeft, topRight], smoothing: 1 });
+            }
+
+            if (ring < rings - 1) {
+                mesh.faces.push({ positions: [topRight, bottomLeft, bottomRight], normals: [topRight, bottomLeft, bottomRight], uvs: [topRight, bottomLeft, bottomRight], smoothing: 1 });
+            }
+        }
+    }
+
+    mesh.groups.push({ material: null, start: 0, count: mesh.faces.length });
+
+    return mesh;
+}
@@ -0,0 +1,108 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: clip.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Clips triangles against the view frustum in homogeneous clip space using the
+ *   Sutherland–Hodgman algorithm.
+ *
+ *   Clipping happens before the perspective divide, where the frustum is the box
+ *
+ *     -w ≤ x ≤ w,   -w ≤ y ≤ w,   -w ≤ z ≤ w
+ *
+ *   and every plane is linear in (x, y, z, w). Each plane is expressed as a signed
+ *   distance d(v); a vertex is inside when d(v) ≥ 0. An edge crossing the plane is cut
+ *   at t = d(a) / (d(a) - d(b)), and position, colour and UV are interpolated with t.
+ *
+ *   An extra plane w ≥ W_EPSILON runs first so no output vertex can end up with w = 0,
+ *   which would otherwise divide by zero for geometry passing through the camera.
+ *
+ *   The resulting convex polygon (up to 3 + 7 vertices) is re-triangulated as a fan.
+ */
+import { ClipVertex } from "./vertex.js";
+
+// Minimum w kept after clipping (guards the perspective divide)
+const W_EPSILON: number = 1e-5;
+
+// Signed distance functions, one per clipping plane (inside when ≥ 0)
+const planes: ((v: ClipVertex) => number)[] = [
+    (v) => v.position.w - W_EPSILON,            // Camera plane
+    (v) => v.position.w + v.position.z,         // Near
+    (v) => v.position.w - v.position.z,         // Far
+    (v) => v.position.w + v.position.x,         // Left
+    (v) => v.position.w - v.position.x,         // Right
+    (v) => v.position.w + v.position.y,         // Bottom
+    (v) => v.position.w - v.position.y          // Top
+];
+
+/**
+ * Clips a clip-space triangle against the view frustum.
+ *
+ * @param a - First vertex
+ * @param b - Second vertex
+ * @param c - Third vertex
+ * @returns The visible part as a list of triangles (empty if fully outside)
+ */
+export function clipTriangleFrustum(a: ClipVertex, b: ClipVertex, c: ClipVertex): [ClipVertex, ClipVertex, ClipVertex][] {
+    let polygon: ClipVertex[] = [a, b, c];
+
+    for (const distance of planes) {
+        const da: number = distance(a);
+        const db: number = distance(b);
+        const dc: number = distance(c);
+
+        // Trivial reject: the whole triangle is outside this plane
+        if (da < 0 && db < 0 && dc < 0) return [];
+    }
+
+    for (const distance of planes) {
+        polygon = clipPolygon(polygon, distance);
+
+        if (polygon.length < 3) return [];
+    }
+
+    // Fan triangulation (the clipped polygon is always convex)
+    const triangles: [ClipVertex, ClipVertex, ClipVertex][] = [];
+
+    for (let i: number = 1; i < polygon.length - 1; i++) {
+        triangles.push([polygon[0], polygon[i], polygon[i + 1]]);
+    }
+
+    return triangles;
+}
+
+/**
+ * Clips a convex polygon against a single plane (one Sutherland–Hodgman pass).
+ *
+ * @param polygon - Input vertices in order
+ * @param distance - Signed distance function of the plane
+ * @returns The clipped polygon
+ */
+function clipPolygon(polygon: ClipVertex[], distance: (v: ClipVertex) => number): ClipVertex[] {
+    const output: ClipVertex[] = [];
+
+    let previous: ClipVertex = polygon[polygon.length - 1];
+    let previousDistance: number = distance(previous);
+
+    for (const current of polygon) {
+        const currentDistance: number = distance(current);
+
+        if (currentDistance >= 0) {
+            // Entering: emit the intersection before the inside vertex
+            if (previousDistance < 0) {
+                output.push(previous.lerp(current, previousDistance / (previousDistance - currentDistance)));
+            }
+            output.push(current);
+        } else if (previousDistance >= 0) {
+            // Leaving: emit only the intersection
+            output.push(previous.lerp(current, previousDistance / (previousDistance - currentDistance)));
+        }
+
+        previous = current;
+        previousDistance = currentDistance;
+    }
+
+    return output;
+}
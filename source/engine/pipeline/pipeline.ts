@@ -0,0 +1,150 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: pipeline.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   The vertex pipeline takes model-space triangles to screen space:
+ *
+ *     model → world → view → clip → (perspective divide) → NDC → (viewport) → screen
+ *
+ *   The model, view and projection matrices are combined once per transformTriangle() call,
+ *   so each vertex costs a single matrix-vector multiplication. Recombining every call means
+ *   the matrices may be replaced or updated in place (out parameters) at any time.
+ *
+ *   World attributes (opt-in with worldAttributes):
+ *     - Per-pixel lighting (fillPhongScanline) needs the world-space position and normal
+ *       of every vertex; the other rasterisers do not
+ *     - When enabled, each vertex additionally pays for the model transform of its position
+ *       and the normal matrix transform of its normal; otherwise both stay null
+ *
+ *   Conventions:
+ *     - NDC x and y are in [-1, 1], with +Y pointing up
+ *     - Screen y grows downwards, matching the backbuffer layout
+ *     - Screen z is mapped from NDC [-1, 1] to [0, 1]
+ *     - Triangles are clipped against the six frustum planes in clip space (see clip.ts),
+ *       so geometry crossing the camera never reaches the perspective divide with w ≤ 0
+ */
+import { Triangle2D } from "../geometry/triangle2d.js";
+import { Triangle3D } from "../geometry/triangle3d.js";
+import { Vertex3D } from "../geometry/vertex3d.js";
+import { Matrix4, normalMatrixOf } from "../math/matrix4.js";
+import { Vector3 } from "../math/vector3.js";
+import { Vector4 } from "../math/vector4.js";
+import { clipTriangleFrustum } from "./clip.js";
+import { ClipVertex, ScreenVertex } from "./vertex.js";
+
+interface Viewport {
+    x: number,
+    y: number,
+    width: number,
+    height: number
+}
+
+export class Pipeline {
+    public viewport: Viewport;
+
+    // Whether vertices carry their world-space position and normal (for fillPhongScanline)
+    public worldAttributes: boolean = false;
+
+    public model: Matrix4 = new Matrix4();          // Model (object → world) matrix
+    public view: Matrix4 = new Matrix4();           // View (world → camera) matrix
+    public projection: Matrix4 = new Matrix4();     // Projection (camera → clip) matrix
+
+    // Combined projection * view * model, rebuilt by every transformTriangle() call
+    private modelViewProjection: Matrix4 = new Matrix4();
+
+    // Inverse transpose of the model matrix for normals, rebuilt by transformTriangle() with worldAttributes
+    private normalMatrix: Matrix4 = new Matrix4();
+
+    // Scratch vector to avoid allocations per vertex
+    private scratch: Vector4 = new Vector4();
+
+    /**
+     * Creates a new pipeline rendering into the given viewport.
+     *
+     * @param viewport - Target rectangle in pixels (typically 0, 0, blitter.width, blitter.height)
+     */
+    public constructor(viewport: Viewport) {
+        this.viewport = viewport;
+    }
+
+    /**
+     * Returns the combined projection * view * model matrix of the current matrices.
+     *
+     * @param out - Optional destination matrix
+     */
+    public combined(out: Matrix4 = new Matrix4()): Matrix4 {
+        this.projection.multiply(this.view, out);
+        return out.multiply(this.model, out);
+    }
+
+    /**
+     * Transforms a model-space vertex to homogeneous clip space.
+     *
+     * @param vertex - Model-space vertex
+     * @param matrix - Combined projection * view * model matrix (default: combined())
+     * @param normalMatrix - Normal matrix of the model matrix, or null to skip the world attributes
+     *                       (default: normalMatrixOf(model) if worldAttributes is set, else null)
+     * @returns The clip-space vertex with its attributes carried over
+     */
+    public toClip(vertex: Vertex3D, matrix: Matrix4 = this.combined(), normalMatrix: Matrix4 | null = this.worldAttributes ? normalMatrixOf(this.model) : null): ClipVertex {
+        const position: Vector4 = matrix.transformVector4(Vector4.fromVector3(vertex.position, 1, this.scratch));
+
+        if (!normalMatrix) return new ClipVertex(position, vertex.color, vertex.u, vertex.v);
+
+        const world: Vector3 = this.model.transformPoint(vertex.position);
+        const normal: Vector3 | null = vertex.normal ? normalMatrix.transformDirection(vertex.normal).normalize() : null;
+
+        return new ClipVertex(position, vertex.color, vertex.u, vertex.v, world, normal);
+    }
+
+    /**
+     * Performs the perspective divide and viewport transform.
+     * Expects w > 0 (i.e. a vertex in front of the camera).
+     *
+     * @param vertex - Clip-space vertex
+     * @returns The screen-space vertex
+     */
+    public toScreen(vertex: ClipVertex): ScreenVertex {
+        const inverseW: number = 1 / vertex.position.w;
+
+        // Normalised device coordinates
+        const x: number = vertex.position.x * inverseW;
+        const y: number = vertex.position.y * inverseW;
+        const z: number = vertex.position.z * inverseW;
+
+        return new ScreenVertex(
+            this.viewport.x + (x + 1) * 0.5 * this.viewport.width,
+            this.viewport.y + (1 - y) * 0.5 * this.viewport.height,
+            (z + 1) * 0.5,
+            inverseW,
+            vertex.color,
+            vertex.u,
+            vertex.v,
+            vertex.world,
+            vertex.normal
+        );
+    }
+
+    /**
+     * Transforms a model-space triangle to screen space, clipping it against the view frustum.
+     * The result consists of Triangle2D instances whose points are ScreenVertex.
+     *
+     * @param triangle - Model-space triangle
+     * @returns The visible screen-space triangles (empty if the triangle is outside the frustum)
+     */
+    public transformTriangle(triangle: Triangle3D): Triangle2D[] {
+        const matrix: Matrix4 = this.combined(this.modelViewProjection);
+        const normalMatrix: Matrix4 | null = this.worldAttributes ? normalMatrixOf(this.model, this.normalMatrix) : null;
+
+        const clipped: [ClipVertex, ClipVertex, ClipVertex][] = clipTriangleFrustum(
+            this.toClip(triangle.a, matrix, normalMatrix),
+            this.toClip(triangle.b, matrix, normalMatrix),
+            this.toClip(triangle.c, matrix, normalMatrix)
+        );
+
+        return clipped.map(([a, b, c]) => new Triangle2D(this.toScreen(a), this.toScreen(b), this.toScreen(c)));
+    }
+}
@@ -0,0 +1,132 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: vertex.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Vertex types produced by the stages of the vertex pipeline.
+ *
+ *     - ClipVertex:   homogeneous clip-space position plus attributes
+ *     - ScreenVertex: screen-space position after perspective divide and viewport transform
+ *
+ *   Both carry the world-space position and normal of the vertex, for rasterisers that
+ *   evaluate lighting per pixel. They are null unless Pipeline.worldAttributes is enabled.
+ *
+ *   ScreenVertex extends Point2D, so a Triangle2D built from screen vertices can be passed
+ *   straight to fillFlatScanline() and the line drawers, while rasterisers that know about
+ *   depth and attributes can read the extra fields.
+ */
+import { Color4 } from "../color/color4.js";
+import { Point2D } from "../geometry/point2d.js";
+import { Triangle2D } from "../geometry/triangle2d.js";
+import { Vector3 } from "../math/vector3.js";
+import { Vector4 } from "../math/vector4.js";
+import { lerp } from "../utils/helper.js";
+
+export class ClipVertex {
+    public position: Vector4;
+    public color: Color4;
+    public u: number;
+    public v: number;
+    public world: Vector3 | null;
+    public normal: Vector3 | null;
+
+    /**
+     * Creates a new clip-space vertex.
+     *
+     * @param position - Homogeneous clip-space position
+     * @param color - Vertex colour
+     * @param u - Texture coordinate U
+     * @param v - Texture coordinate V
+     * @param world - World-space position (default: null)
+     * @param normal - World-space unit normal (default: null)
+     */
+    public constructor(position: Vector4, color: Color4, u: number, v: number, world: Vector3 | null = null, normal: Vector3 | null = null) {
+        this.position = position;
+        this.color = color;
+        this.u = u;
+        this.v = v;
+        this.world = world;
+        this.normal = normal;
+    }
+
+    /**
+     * Linearly interpolates position and all attributes towards another vertex.
+     * Used by the clipper to create new vertices where edges cross a frustum plane.
+     *
+     * @param other - Target vertex
+     * @param t - Interpolation factor in [0, 1]
+     * @returns A new interpolated vertex
+     */
+    public lerp(other: ClipVertex, t: number): ClipVertex {
+        const color: Color4 = new Color4({
+            alpha: Math.round(lerp(this.color.alpha, other.color.alpha, t)),
+            red: Math.round(lerp(this.color.red, other.color.red, t)),
+            green: Math.round(lerp(this.color.green, other.color.green, t)),
+            blue: Math.round(lerp(this.color.blue, other.color.blue, t))
+        });
+
+        return new ClipVertex(
+            this.position.lerp(other.position, t),
+            color,
+            lerp(this.u, other.u, t),
+            lerp(this.v, other.v, t),
+            this.world && other.world ? this.world.lerp(other.world, t) : null,
+            this.normal && other.normal ? this.normal.lerp(other.normal, t).normalize() : null
+        );
+    }
+}
+
+export class ScreenVertex extends Point2D {
+    public z: number;
+    public w: number;
+    public color: Color4;
+    public u: number;
+    public v: number;
+    public world: Vector3 | null;
+    public normal: Vector3 | null;
+
+    /**
+     * Creates a new screen-space vertex.
+     *
+     * @param x - X coordinate in pixels
+     * @param y - Y coordinate in pixels
+     * @param z - Depth in [0, 1] (0 = near plane, 1 = far plane)
+     * @param w - Reciprocal of the clip-space w (1/w), used for perspective-correct interpolation
+     * @param color - Vertex colour
+     * @param u - Texture coordinate U
+     * @param v - Texture coordinate V
+     * @param world - World-space position (default: null)
+     * @param normal - World-space unit normal (default: null)
+     */
+    public constructor(x: number, y: number, z: number, w: number, color: Color4, u: number, v: number, world: Vector3 | null = null, normal: Vector3 | null = null) {
+        super(x, y);
+        this.z = z;
+        this.w = w;
+        this.color = color;
+        this.u = u;
+        this.v = v;
+        this.world = world;
+        this.normal = normal;
+    }
+
+    /**
+     * Returns a string representation of the vertex with 2 decimal precision.
+     */
+    public toString(): string {
+        return `(${this.x.toFixed(2)}, ${this.y.toFixed(2)}, ${this.z.toFixed(2)})`;
+    }
+}
+
+/**
+ * Returns the vertex colours of a screen-space triangle, in the order a, b, c
+ * (e.g. for fillGouraudScanline()). Plain Point2D vertices count as white.
+ *
+ * @param triangle - Triangle from Pipeline.transformTriangle()
+ */
+export function colorsOf(triangle: Triangle2D): [Color4, Color4, Color4] {
+    const colorOf = (point: Point2D): Color4 => point instanceof ScreenVertex ? point.color : Color4.white;
+
+    return [colorOf(triangle.a), colorOf(triangle.b), colorOf(triangle.c)];
+}
@@ -0,0 +1,162 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: flat-edge.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ * 
+ * Description:
+ *   Provides a flat-fill triangle rasteriser based on edge functions (half-space tests).
+ *   It is the alternative to the scanline rasteriser in flat-scanline.ts.
+ * 
+ *   For an edge from a to b, the edge function
+ * 
+ *     E(p) = (b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x)
+ * 
+ *   is positive on one side of the edge, negative on the other and zero on it. A pixel is
+ *   inside the triangle when it is on the inner side of all three edges.
+ * 
+ *   The approach:
+ *     - Orients the triangle so that "inside" means E > 0 for all edges
+ *     - Traverses the bounding box (clamped to canvas / clipping region)
+ *     - Evaluates the three edge functions incrementally: one addition per pixel and edge
+ * 
+ *   Watertightness:
+ *     - Vertices are snapped to a 1/256 sub-pixel grid, so every edge function value is an
+ *       exact integer in double precision; an edge shared by two triangles gives exactly
+ *       opposite values in both, with no rounding in between
+ *     - Pixels exactly on an edge (E = 0) are only drawn for top and left edges
+ *       (strict top-left fill rule), so shared edges are never drawn twice or skipped
+ * 
+ *   Sample points are the integer pixel coordinates, the same convention as
+ *   fillFlatScanline(), so the two rasterisers can be compared pixel for pixel.
+ *   Clipping, depth testing and blending behave exactly as in fillFlatScanline().
+ */
+import { Blitter } from "../blitter.js";
+import { BlendFunction, blendFunctionOf } from "../blitter/blend.js";
+import { DepthBuffer } from "../blitter/depth.js";
+import { Color4 } from "../color/color4.js";
+import { Point2D } from "../geometry/point2d.js";
+import { Triangle2D } from "../geometry/triangle2d.js";
+import { computeGradient, depthOf, Gradient, gradientAt } from "./gradient.js";
+
+// Sub-pixel precision: 8 fractional bits
+const SUBPIXEL_BITS: number = 8;
+const SUBPIXEL_SCALE: number = 1 << SUBPIXEL_BITS;
+
+/**
+ * Rasterises a filled triangle with a flat colour using edge functions and the top-left rule.
+ * 
+ * @param blitter - The active Blitter instance
+ * @param triangle - Triangle to rasterise (any winding)
+ * @param color - Fill colour
+ * @param clip - Whether to apply clipping using the blitter's clip region
+ * @param backbuffer - The 32-bit backbuffer to write to
+ */
+export function fillFlatEdge(blitter: Blitter, triangle: Triangle2D, color: Color4, clip: boolean, backbuffer: Uint32Array): void {
+    // Snap to the sub-pixel grid (integers in units of 1/256 pixel)
+    const ax: number = Math.round(triangle.a.x * SUBPIXEL_SCALE);
+    const ay: number = Math.round(triangle.a.y * SUBPIXEL_SCALE);
+    let bx: number = Math.round(triangle.b.x * SUBPIXEL_SCALE);
+    let by: number = Math.round(triangle.b.y * SUBPIXEL_SCALE);
+    let cx: number = Math.round(triangle.c.x * SUBPIXEL_SCALE);
+    let cy: number = Math.round(triangle.c.y * SUBPIXEL_SCALE);
+
+    let b: Point2D = triangle.b;
+    let c: Point2D = triangle.c;
+
+    // Twice the signed area; orient so that the inside of every edge is positive
+    const area: number = (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+
+    if (area === 0) return;
+
+    if (area < 0) {
+        [bx, by, cx, cy] = [cx, cy, bx, by];
+        [b, c] = [c, b];
+    }
+
+    // Visible region: the canvas, optionally narrowed by the clipping region
+    const minClipX: number = clip ? Math.max(0, blitter.clipping.minX) : 0;
+    const minClipY: number = clip ? Math.max(0, blitter.clipping.minY) : 0;
+    const maxClipX: number = clip ? Math.min(blitter.width, blitter.clipping.maxX) : blitter.width;
+    const maxClipY: number = clip ? Math.min(blitter.height, blitter.clipping.maxY) : blitter.height;
+
+    // Bounding box in whole pixels (sample points are integer coordinates)
+    const minX: number = Math.max(minClipX, Math.ceil(Math.min(ax, bx, cx) / SUBPIXEL_SCALE));
+    const minY: number = Math.max(minClipY, Math.ceil(Math.min(ay, by, cy) / SUBPIXEL_SCALE));
+    const maxX: number = Math.min(maxClipX - 1, Math.floor(Math.max(ax, bx, cx) / SUBPIXEL_SCALE));
+    const maxY: number = Math.min(maxClipY - 1, Math.floor(Math.max(ay, by, cy) / SUBPIXEL_SCALE));
+
+    if (minX > maxX || minY > maxY) return;
+
+    // Top-left rule: pixels on an edge belong to it only if it is a top or left edge.
+    // Non top-left edges need E ≥ 1 instead of E ≥ 0 (exact, as all values are integers).
+    const biasAB: number = isTopLeft(ax, ay, bx, by) ? 0 : -1;
+    const biasBC: number = isTopLeft(bx, by, cx, cy) ? 0 : -1;
+    const biasCA: number = isTopLeft(cx, cy, ax, ay) ? 0 : -1;
+
+    // Per-pixel increments of each edge function (x step and y step, in sub-pixel units)
+    const stepXAB: number = -(by - ay) * SUBPIXEL_SCALE, stepYAB: number = (bx - ax) * SUBPIXEL_SCALE;
+    const stepXBC: number = -(cy - by) * SUBPIXEL_SCALE, stepYBC: number = (cx - bx) * SUBPIXEL_SCALE;
+    const stepXCA: number = -(ay - cy) * SUBPIXEL_SCALE, stepYCA: number = (ax - cx) * SUBPIXEL_SCALE;
+
+    // Edge functions at the top-left corner of the bounding box
+    const px: number = minX * SUBPIXEL_SCALE;
+    const py: number = minY * SUBPIXEL_SCALE;
+
+    let rowAB: number = edge(ax, ay, bx, by, px, py) + biasAB;
+    let rowBC: number = edge(bx, by, cx, cy, px, py) + biasBC;
+    let rowCA: number = edge(cx, cy, ax, ay, px, py) + biasCA;
+
+    const colorUnpacked: number = color.toAABBGGRR();
+    const width: number = blitter.width;
+    const blend: BlendFunction | null = blendFunctionOf(blitter.blend);
+
+    // Depth plane (same gradient setup as the scanline rasterisers)
+    const depth: Gradient | null = blitter.depth.enabled ? computeGradient(triangle.a, b, c, depthOf(triangle.a), depthOf(b), depthOf(c)) : null;
+    const depthbuffer: DepthBuffer = blitter.depth;
+
+    for (let y: number = minY; y <= maxY; y++) {
+        let wAB: number = rowAB;
+        let wBC: number = rowBC;
+        let wCA: number = rowCA;
+
+        const position: number = y * width;
+        let z: number = depth ? gradientAt(depth, minX, y) : 0;
+
+        for (let x: number = minX; x <= maxX; x++) {
+            // Inside when all three (biased) edge functions are non-negative
+            if (wAB >= 0 && wBC >= 0 && wCA >= 0) {
+                if (!depth || depthbuffer.test(position + x, z)) {
+                    backbuffer[position + x] = blend ? blend(colorUnpacked, backbuffer[position + x]) : colorUnpacked;
+                }
+            }
+
+            wAB += stepXAB;
+            wBC += stepXBC;
+            wCA += stepXCA;
+
+            if (depth) z += depth.dx;
+        }
+
+        rowAB += stepYAB;
+        rowBC += stepYBC;
+        rowCA += stepYCA;
+    }
+}
+
+/**
+ * Evaluates the edge function of edge a → b at point p.
+ */
+function edge(ax: number, ay: number, bx: number, by: number, px: number, py: number): number {
+    return (bx - ax) * (py - ay) - (by - ay) * (px - ax);
+}
+
+/**
+ * Checks whether an edge is a top or left edge of a triangle oriented with positive area.
+ * 
+ * With y pointing down and this orientation, a top edge is horizontal and runs to the
+ * right (the triangle lies below it), and a left edge runs upwards.
+ */
+function isTopLeft(ax: number, ay: number, bx: number, by: number): boolean {
+    return (ay === by && bx > ax) || by < ay;
+}
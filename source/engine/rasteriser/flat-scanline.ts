@@ -11,154 +11,83 @@
  * 
  *   The approach:
  *     - Sorts triangle vertices using rasterOrder()
- *     - Identifies flat-top, flat-bottom, or general triangle
- *     - General triangles are split at the middle Y into two sub-triangles
- *     - Each triangle is filled using horizontal scanlines between interpolated left/right edges
+ *     - Walks the scanlines with the shared traversal in scanline.ts
+ *       (flat-top / flat-bottom split, top-left convention, clipping)
+ *     - Fills each span with a single packed colour
+ * 
+ *   Clipping:
+ *     - Spans are always clamped to the canvas (0..width, 0..height)
+ *     - With clip enabled they are additionally clamped to the blitter's clipping region,
+ *       so scissor rectangles smaller than the canvas (split-screen, insets) are honoured
+ * 
+ *   Blending:
+ *     - Pixels are combined with the backbuffer according to blitter.blend, see blitter/blend.ts
+ * 
+ *   Depth:
+ *     - With blitter.depth.enabled, z is taken from ScreenVertex inputs (0 for plain points)
+ *     - z is evaluated from a per-triangle plane gradient and tested per pixel
  * 
  *   Optimisations:
- *     - Writes directly to backbuffer with one multiplication per scanline
- *     - Uses top-left fill convention (via Math.ceil) for raster consistency
- *     - Slopes are computed once, only additions used per scanline
+ *     - Writes directly to backbuffer, colour is packed once per triangle
+ *     - Without depth testing or blending each span is a single native fill()
  */
 import { Blitter } from "../blitter.js";
+import { BlendFunction, blendFunctionOf } from "../blitter/blend.js";
+import { Clipping } from "../blitter/clipping.js";
+import { DepthBuffer } from "../blitter/depth.js";
 import { Color4 } from "../color/color4.js";
-import { Point2D } from "../geometry/point2d.js";
 import { Triangle2D } from "../geometry/triangle2d.js";
+import { computeGradient, depthOf, Gradient, gradientAt } from "./gradient.js";
+import { scanTriangle } from "./scanline.js";
 
 /**
  * Rasterises a filled triangle using horizontal scanlines and a flat colour.
- * Handles flat-top, flat-bottom, or splits a general triangle into both.
  * 
  * @param blitter - The active Blitter instance 
  * @param triangle - Triangle to rasterise
  * @param color - Fill colour
+ * @param clip - Whether to apply clipping using the blitter's clip region
  * @param backbuffer - The 32-bit backbuffer to write to
  */
-export function fillFlatScanline(blitter: Blitter, triangle: Triangle2D, color: Color4, backbuffer: Uint32Array): void {
+export function fillFlatScanline(blitter: Blitter, triangle: Triangle2D, color: Color4, clip: boolean, backbuffer: Uint32Array): void {
     // Sort the vertices for scanline rasterisation
     const [v0, v1, v2] = triangle.rasterOrder();
 
-    const width: number = blitter.width;
-    const height: number = blitter.height;
-
+    const clipping: Clipping | null = clip ? blitter.clipping : null;
     const colorUnpacked: number = color.toAABBGGRR();
-
-    if (v1.y === v2.y) {
-        // Case 1: Flat-bottom triangle (v1 and v2 share the same Y)
-        fillFlatBottom(width, height, v0, v1, v2, colorUnpacked, backbuffer);
-    } else if (v0.y === v1.y) {
-        // Case 2: Flat-top triangle (v0 and v1 share the same Y)
-        fillFlatTop(width, height, v0, v1, v2, colorUnpacked, backbuffer);
-    } else {
-        // Case 3: General triangle – split into one flat-bottom and one flat-top
-        const t: number = (v1.y - v0.y) / (v2.y - v0.y);
-
-        const v3: Point2D = new Point2D(
-            v0.x + t * (v2.x - v0.x),   // linear interpolation of X
-            v1.y                        // shared Y with the middle vertex
-        );
-
-        // Determine left and right at the split
-        const [left, right] = v1.x < v3.x ? [v1, v3] : [v3, v1];
-
-        fillFlatBottom(width, height, v0, left, right, colorUnpacked, backbuffer);
-        fillFlatTop(width, height, left, right, v2, colorUnpacked, backbuffer);
+    const blend: BlendFunction | null = blendFunctionOf(blitter.blend);
+
+    if (!blitter.depth.enabled) {
+        scanTriangle(blitter.width, blitter.height, clipping, blitter.precision, v0, v1, v2, (y, xStart, xEnd, position) => {
+            if (!blend) {
+                backbuffer.fill(colorUnpacked, position + xStart, position + xEnd);
+                return;
+            }
+
+            for (let x: number = xStart; x < xEnd; x++) {
+                backbuffer[position + x] = blend(colorUnpacked, backbuffer[position + x]);
+            }
+        });
+        return;
     }
-}
 
-/**
- * Fills a flat-top triangle (two top vertices share Y, one bottom vertex).
- * 
- * @param width - Canvas width
- * @param height - Canvas height
- * @param v0 - Left-top vertex
- * @param v1 - Right-top vertex
- * @param v2 - Bottom vertex
- * @param color - AABBGGRR
- * @param backbuffer - Backbuffer to write pixels into
- */
-function fillFlatTop(width: number, height: number, v0: Point2D, v1: Point2D, v2: Point2D, color: number, backbuffer: Uint32Array): void {
-    // Vertical span of each edge (for slope calculation)
-    const dyLeft: number = v2.y - v0.y;
-    const dyRight: number = v2.y - v1.y;
-
-    // Avoid divide-by-zero
-    if (dyLeft === 0 || dyRight === 0) return;
+    // Depth plane over the whole triangle
+    const depth: Gradient | null = computeGradient(v0, v1, v2, depthOf(v0), depthOf(v1), depthOf(v2));
 
-    // Compute slope of each edge (dx / dy)
-    let slopeLeft: number = (v2.x - v0.x) / dyLeft;
-    let slopeRight: number = (v2.x - v1.x) / dyRight;
+    // Degenerate triangle – nothing to draw
+    if (!depth) return;
 
-    let xLeft: number = v0.x;
-    let xRight: number = v1.x;
+    const depthbuffer: DepthBuffer = blitter.depth;
 
-    const yStart = Math.ceil(v0.y);
-    const yEnd = Math.ceil(v2.y);
-
-    rasterScanlines(width, height, yStart, yEnd, v0.x, v1.x, slopeLeft, slopeRight, color, backbuffer); 
-}
-
-/**
- * Fills a flat-bottom triangle (one top vertex, two bottom vertices share Y).
- * 
- * @param width - Canvas width
- * @param height - Canvas height
- * @param v0 - Top vertex
- * @param v1 - Left-bottom vertex
- * @param v2 - Right-bottom vertex
- * @param color - AABBGGRR
- * @param backbuffer - Backbuffer to write pixels into
- */
-function fillFlatBottom(width: number, height: number, v0: Point2D, v1: Point2D, v2: Point2D, color: number, backbuffer: Uint32Array): void {
-    // Vertical span of each edge (for slope calculation)
-    const dyLeft: number = v1.y - v0.y;
-    const dyRight: number = v2.y - v0.y;
-
-    // Avoid divide-by-zero
-    if (dyLeft === 0 || dyRight === 0) return;
-
-    // Compute slope of each edge (dx / dy)
-    let slopeLeft: number = (v1.x - v0.x) / dyLeft;
-    let slopeRight: number = (v2.x - v0.x) / dyRight;
-
-    let xLeft: number = v0.x;
-    let xRight: number = v0.x;
-
-    const yStart: number = Math.ceil(v0.y);
-    const yEnd: number = Math.ceil(v1.y);
-
-    rasterScanlines(width, height, yStart, yEnd, v0.x, v0.x, slopeLeft, slopeRight, color, backbuffer); 
-}
-
-/**
- * Writes horizontal spans between xLeft and xRight for each scanline.
- * 
- * @param width - Width of the screen / canvas
- * @param yStart - Starting Y coordinate (inclusive)
- * @param yEnd - Ending Y coordinate (exclusive)
- * @param xLeft - Initial X on the left edge
- * @param xRight - Initial X on the right edge
- * @param slopeLeft - Increment per Y step on the left edge
- * @param slopeRight - Increment per Y step on the right edge
- * @param color - AABBGGRR
- * @param backbuffer - The 32-bit linear pixel buffer
- */
-function rasterScanlines(width: number, height: number, yStart: number, yEnd: number, xLeft: number, xRight: number, slopeLeft: number, slopeRight: number, color: number, backbuffer: Uint32Array): void {
-    const clampedYStart: number = Math.max(0, yStart);
-    const clampedYEnd: number = Math.min(height, yEnd);
-    
-    let position: number = clampedYStart * width;
-
-    for (let y: number = clampedYStart; y < clampedYEnd; y++) {
-        const xStart: number = Math.max(0, Math.ceil(xLeft));
-        const xEnd: number = Math.min(width, Math.ceil(xRight));
+    scanTriangle(blitter.width, blitter.height, clipping, blitter.precision, v0, v1, v2, (y, xStart, xEnd, position) => {
+        // Depth at the first pixel of the span, then one addition per pixel
+        let z: number = gradientAt(depth, xStart, y);
 
         for (let x: number = xStart; x < xEnd; x++) {
-            backbuffer[position + x] = color;
+            if (depthbuffer.test(position + x, z)) {
+                backbuffer[position + x] = blend ? blend(colorUnpacked, backbuffer[position + x]) : colorUnpacked;
+            }
+            z += depth.dx;
         }
-
-        position += width;
-        xLeft += slopeLeft;
-        xRight += slopeRight;
-    }
- }
\ No newline at end of file
+    });
+}
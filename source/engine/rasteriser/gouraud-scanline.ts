@@ -0,0 +1,94 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: gouraud-scanline.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ * 
+ * Description:
+ *   Provides a Gouraud-shaded triangle rasteriser using scanline rendering.
+ *   Each vertex has its own colour, and red, green, blue and alpha are interpolated
+ *   smoothly across the triangle.
+ * 
+ *   The approach:
+ *     - Sorts triangle vertices using rasterOrder() and keeps each colour with its vertex
+ *     - Computes one plane gradient per channel (see gradient.ts)
+ *     - Walks the scanlines with the shared traversal in scanline.ts
+ *     - Per span: evaluates the channels at the first pixel, then adds dx per pixel
+ * 
+ *   Clipping, depth testing and blending behave exactly as in fillFlatScanline().
+ */
+import { Blitter } from "../blitter.js";
+import { BlendFunction, blendFunctionOf } from "../blitter/blend.js";
+import { Clipping } from "../blitter/clipping.js";
+import { DepthBuffer } from "../blitter/depth.js";
+import { Color4 } from "../color/color4.js";
+import { Triangle2D } from "../geometry/triangle2d.js";
+import { computeGradient, depthOf, Gradient, gradientAt } from "./gradient.js";
+import { attributeOf, scanTriangle } from "./scanline.js";
+
+/**
+ * Rasterises a filled triangle with per-vertex colours (Gouraud shading).
+ * 
+ * @param blitter - The active Blitter instance 
+ * @param triangle - Triangle to rasterise
+ * @param colors - Vertex colours, in the order of triangle.a, triangle.b and triangle.c
+ * @param clip - Whether to apply clipping using the blitter's clip region
+ * @param backbuffer - The 32-bit backbuffer to write to
+ */
+export function fillGouraudScanline(blitter: Blitter, triangle: Triangle2D, colors: [Color4, Color4, Color4], clip: boolean, backbuffer: Uint32Array): void {
+    // Sort the vertices for scanline rasterisation
+    const [v0, v1, v2] = triangle.rasterOrder();
+
+    // Colours follow their vertices through the sort
+    const c0: Color4 = attributeOf(triangle, colors, v0);
+    const c1: Color4 = attributeOf(triangle, colors, v1);
+    const c2: Color4 = attributeOf(triangle, colors, v2);
+
+    const red: Gradient | null = computeGradient(v0, v1, v2, c0.red, c1.red, c2.red);
+    const green: Gradient | null = computeGradient(v0, v1, v2, c0.green, c1.green, c2.green);
+    const blue: Gradient | null = computeGradient(v0, v1, v2, c0.blue, c1.blue, c2.blue);
+    const alpha: Gradient | null = computeGradient(v0, v1, v2, c0.alpha, c1.alpha, c2.alpha);
+
+    // Degenerate triangle – nothing to draw
+    if (!red || !green || !blue || !alpha) return;
+
+    const depth: Gradient | null = blitter.depth.enabled ? computeGradient(v0, v1, v2, depthOf(v0), depthOf(v1), depthOf(v2)) : null;
+    const depthbuffer: DepthBuffer = blitter.depth;
+
+    const clipping: Clipping | null = clip ? blitter.clipping : null;
+    const blend: BlendFunction | null = blendFunctionOf(blitter.blend);
+
+    scanTriangle(blitter.width, blitter.height, clipping, blitter.precision, v0, v1, v2, (y, xStart, xEnd, position) => {
+        let r: number = gradientAt(red, xStart, y);
+        let g: number = gradientAt(green, xStart, y);
+        let b: number = gradientAt(blue, xStart, y);
+        let a: number = gradientAt(alpha, xStart, y);
+        let z: number = depth ? gradientAt(depth, xStart, y) : 0;
+
+        for (let x: number = xStart; x < xEnd; x++) {
+            if (!depth || depthbuffer.test(position + x, z)) {
+                const value: number = (toByte(a) << 24) | (toByte(b) << 16) | (toByte(g) << 8) | toByte(r);
+                backbuffer[position + x] = blend ? blend(value, backbuffer[position + x]) : value;
+            }
+
+            r += red.dx;
+            g += green.dx;
+            b += blue.dx;
+            a += alpha.dx;
+
+            if (depth) z += depth.dx;
+        }
+    });
+}
+
+/**
+ * Rounds and clamps an interpolated channel to 0–255.
+ * Samples are taken at integer pixel coordinates (as in scanline.ts), so at span edges
+ * the interpolation can extrapolate slightly beyond the vertex values; the clamp covers that.
+ * 
+ * @param value - Interpolated channel value
+ */
+function toByte(value: number): number {
+    const rounded: number = (value + 0.5) | 0;
+    return rounded < 0 ? 0 : rounded > 255 ? 255 : rounded;
+}
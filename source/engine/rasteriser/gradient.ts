@@ -0,0 +1,107 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: gradient.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Screen-space attribute gradients shared by the triangle rasterisers.
+ *
+ *   Any attribute that is linear in screen space (depth, or anything pre-divided by w)
+ *   lies on a plane over the triangle:
+ *
+ *     value(x, y) = value0 + (x - x0) * dx + (y - y0) * dy
+ *
+ *   The gradients dx and dy are computed once per triangle from its three vertices,
+ *   so a rasteriser evaluates the plane at the start of a span and then only adds dx
+ *   per pixel. Using one plane per triangle (instead of interpolating along the edges)
+ *   keeps values consistent between the two halves of a split triangle.
+ */
+import { Point2D } from "../geometry/point2d.js";
+import { Vector3 } from "../math/vector3.js";
+import { ScreenVertex } from "../pipeline/vertex.js";
+
+export interface Gradient {
+    x0: number;       // Reference point X
+    y0: number;       // Reference point Y
+    value0: number;   // Value at the reference point
+    dx: number;       // Change per pixel in X
+    dy: number;       // Change per pixel in Y
+}
+
+/**
+ * Computes the plane gradient of an attribute over a triangle.
+ *
+ * @param v0 - First vertex
+ * @param v1 - Second vertex
+ * @param v2 - Third vertex
+ * @param a0 - Attribute value at v0
+ * @param a1 - Attribute value at v1
+ * @param a2 - Attribute value at v2
+ * @returns The gradient, or null for a degenerate (zero-area) triangle
+ */
+export function computeGradient(v0: Point2D, v1: Point2D, v2: Point2D, a0: number, a1: number, a2: number): Gradient | null {
+    // Twice the signed area of the triangle
+    const area: number = (v1.x - v0.x) * (v2.y - v0.y) - (v2.x - v0.x) * (v1.y - v0.y);
+
+    if (area === 0) return null;
+
+    const inverseArea: number = 1 / area;
+
+    return {
+        x0: v0.x,
+        y0: v0.y,
+        value0: a0,
+        dx: ((a1 - a0) * (v2.y - v0.y) - (a2 - a0) * (v1.y - v0.y)) * inverseArea,
+        dy: ((a2 - a0) * (v1.x - v0.x) - (a1 - a0) * (v2.x - v0.x)) * inverseArea
+    };
+}
+
+/**
+ * Evaluates a gradient at a screen position.
+ *
+ * @param gradient - The attribute gradient
+ * @param x - X coordinate
+ * @param y - Y coordinate
+ * @returns The interpolated attribute value
+ */
+export function gradientAt(gradient: Gradient, x: number, y: number): number {
+    return gradient.value0 + (x - gradient.x0) * gradient.dx + (y - gradient.y0) * gradient.dy;
+}
+
+/**
+ * Returns the screen-space depth of a point, or 0 for plain 2D points.
+ *
+ * @param point - A Point2D, possibly a ScreenVertex from the vertex pipeline
+ */
+export function depthOf(point: Point2D): number {
+    return point instanceof ScreenVertex ? point.z : 0;
+}
+
+
+/**
+ * Returns the reciprocal clip-space w of a point, or 1 for plain 2D points.
+ *
+ * @param point - A Point2D, possibly a ScreenVertex from the vertex pipeline
+ */
+export function inverseWOf(point: Point2D): number {
+    return point instanceof ScreenVertex ? point.w : 1;
+}
+
+/**
+ * Returns the world-space position of a point, or null for plain 2D points.
+ *
+ * @param point - A Point2D, possibly a ScreenVertex from the vertex pipeline
+ */
+export function worldOf(point: Point2D): Vector3 | null {
+    return point instanceof ScreenVertex ? point.world : null;
+}
+
+/**
+ * Returns the world-space normal of a point, or null if it has none.
+ *
+ * @param point - A Point2D, possibly a ScreenVertex from the vertex pipeline
+ */
+export function normalOf(point: Point2D): Vector3 | null {
+    return point instanceof ScreenVertex ? point.normal : null;
+}
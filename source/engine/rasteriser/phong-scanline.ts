@@ -0,0 +1,128 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: phong-scanline.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ * 
+ * Description:
+ *   Provides a per-pixel (Phong) shading rasteriser using scanline rendering.
+ * 
+ *   Gouraud shading lights the vertices and interpolates colours, so a highlight that falls
+ *   between vertices is lost or smeared across the triangle. Phong shading interpolates the
+ *   world-space position and normal instead and evaluates the lighting equation per pixel.
+ * 
+ *   The approach:
+ *     - Walks the scanlines with the shared traversal in scanline.ts
+ *     - Position and normal come from ScreenVertex.world / ScreenVertex.normal (set by the
+ *       vertex pipeline when pipeline.worldAttributes is enabled); vertices without a normal
+ *       use the face normal
+ *     - Both are interpolated perspective-correctly (attribute / w and 1 / w per pixel)
+ *     - The normal is renormalised per pixel, then shaded with Lighting.shadePacked()
+ * 
+ *   Triangles without world positions (plain Point2D vertices) cannot be lit and are skipped.
+ *   Clipping, depth testing and blending behave exactly as in fillFlatScanline().
+ */
+import { Blitter } from "../blitter.js";
+import { BlendFunction, blendFunctionOf } from "../blitter/blend.js";
+import { Clipping } from "../blitter/clipping.js";
+import { DepthBuffer } from "../blitter/depth.js";
+import { Triangle2D } from "../geometry/triangle2d.js";
+import { Lighting, LitMaterial } from "../lighting/lighting.js";
+import { Vector3 } from "../math/vector3.js";
+import { computeGradient, depthOf, Gradient, gradientAt, inverseWOf, normalOf, worldOf } from "./gradient.js";
+import { scanTriangle } from "./scanline.js";
+
+/**
+ * Rasterises a triangle with per-pixel lighting.
+ * 
+ * @param blitter - The active Blitter instance 
+ * @param triangle - Triangle from the vertex pipeline (ScreenVertex points)
+ * @param lighting - Lights and eye position
+ * @param material - Surface reflectance
+ * @param clip - Whether to apply clipping using the blitter's clip region
+ * @param backbuffer - The 32-bit backbuffer to write to
+ */
+export function fillPhongScanline(blitter: Blitter, triangle: Triangle2D, lighting: Lighting, material: LitMaterial, clip: boolean, backbuffer: Uint32Array): void {
+    // Sort the vertices for scanline rasterisation
+    const [v0, v1, v2] = triangle.rasterOrder();
+
+    const a: Vector3 | null = worldOf(triangle.a);
+    const b: Vector3 | null = worldOf(triangle.b);
+    const c: Vector3 | null = worldOf(triangle.c);
+
+    // Nothing to light without world positions
+    if (!a || !b || !c) return;
+
+    // Face normal for vertices without one (counter-clockwise winding is the front)
+    const face: Vector3 = b.subtract(a).cross(c.subtract(a)).normalize();
+
+    const p0: Vector3 = worldOf(v0)!;
+    const p1: Vector3 = worldOf(v1)!;
+    const p2: Vector3 = worldOf(v2)!;
+
+    const n0: Vector3 = normalOf(v0) ?? face;
+    const n1: Vector3 = normalOf(v1) ?? face;
+    const n2: Vector3 = normalOf(v2) ?? face;
+
+    const w0: number = inverseWOf(v0);
+    const w1: number = inverseWOf(v1);
+    const w2: number = inverseWOf(v2);
+
+    // Attribute / w gradients: position x, y, z and normal x, y, z
+    const gradients: (Gradient | null)[] = [
+        computeGradient(v0, v1, v2, p0.x * w0, p1.x * w1, p2.x * w2),
+        computeGradient(v0, v1, v2, p0.y * w0, p1.y * w1, p2.y * w2),
+        computeGradient(v0, v1, v2, p0.z * w0, p1.z * w1, p2.z * w2),
+        computeGradient(v0, v1, v2, n0.x * w0, n1.x * w1, n2.x * w2),
+        computeGradient(v0, v1, v2, n0.y * w0, n1.y * w1, n2.y * w2),
+        computeGradient(v0, v1, v2, n0.z * w0, n1.z * w1, n2.z * w2)
+    ];
+    const oneOverW: Gradient | null = computeGradient(v0, v1, v2, w0, w1, w2);
+
+    // Degenerate triangle – nothing to draw
+    if (!oneOverW || gradients.some((gradient) => !gradient)) return;
+
+    const [pxOverW, pyOverW, pzOverW, nxOverW, nyOverW, nzOverW] = gradients as Gradient[];
+
+    const depth: Gradient | null = blitter.depth.enabled ? computeGradient(v0, v1, v2, depthOf(v0), depthOf(v1), depthOf(v2)) : null;
+    const depthbuffer: DepthBuffer = blitter.depth;
+
+    const clipping: Clipping | null = clip ? blitter.clipping : null;
+    const blend: BlendFunction | null = blendFunctionOf(blitter.blend);
+
+    // Scratch vectors reused for every pixel
+    const position: Vector3 = new Vector3();
+    const normal: Vector3 = new Vector3();
+
+    scanTriangle(blitter.width, blitter.height, clipping, blitter.precision, v0, v1, v2, (y, xStart, xEnd, offset) => {
+        let px: number = gradientAt(pxOverW, xStart, y);
+        let py: number = gradientAt(pyOverW, xStart, y);
+        let pz: number = gradientAt(pzOverW, xStart, y);
+        let nx: number = gradientAt(nxOverW, xStart, y);
+        let ny: number = gradientAt(nyOverW, xStart, y);
+        let nz: number = gradientAt(nzOverW, xStart, y);
+        let w: number = gradientAt(oneOverW, xStart, y);
+        let z: number = depth ? gradientAt(depth, xStart, y) : 0;
+
+        for (let x: number = xStart; x < xEnd; x++) {
+            if (!depth || depthbuffer.test(offset + x, z)) {
+                position.set(px / w, py / w, pz / w);
+                normal.set(nx, ny, nz).normalize(normal);   // 1 / w cancels out
+
+                const shaded: number = lighting.shadePacked(position, normal, material);
+                backbuffer[offset + x] = blend ? blend(shaded, backbuffer[offset + x]) : shaded;
+            }
+
+            px += pxOverW.dx;
+            py += pyOverW.dx;
+            pz += pzOverW.dx;
+            nx += nxOverW.dx;
+            ny += nyOverW.dx;
+            nz += nzOverW.dx;
+            w += oneOverW.dx;
+
+            if (depth) z += depth.dx;
+        }
+    });
+}
+
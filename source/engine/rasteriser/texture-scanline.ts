@@ -0,0 +1,93 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: texture-scanline.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ * 
+ * Description:
+ *   Provides a texture-mapped triangle rasteriser using scanline rendering.
+ * 
+ *   Two mapping modes, selectable per call:
+ *     - affine:      u and v are interpolated linearly in screen space. Cheap, but textures
+ *                    "swim" and bend on triangles that are not parallel to the screen.
+ *     - perspective: u/w, v/w and 1/w are interpolated linearly in screen space (they are
+ *                    linear after projection) and divided per pixel to recover u and v.
+ * 
+ *   The 1/w values come from ScreenVertex inputs; plain 2D points use 1/w = 1, where both
+ *   modes give the same result.
+ * 
+ *   Sampling is nearest-neighbour and uses the texture's wrap mode (repeat, clamp, mirror).
+ *   Clipping, depth testing and blending behave exactly as in fillFlatScanline().
+ */
+import { Blitter } from "../blitter.js";
+import { BlendFunction, blendFunctionOf } from "../blitter/blend.js";
+import { Clipping } from "../blitter/clipping.js";
+import { DepthBuffer } from "../blitter/depth.js";
+import { Triangle2D } from "../geometry/triangle2d.js";
+import { Texture, TextureCoordinate } from "../texture/texture.js";
+import { computeGradient, depthOf, Gradient, gradientAt, inverseWOf } from "./gradient.js";
+import { attributeOf, scanTriangle } from "./scanline.js";
+
+/**
+ * Texture mapping modes.
+ */
+export type TextureMapping = "affine" | "perspective";
+
+/**
+ * Rasterises a texture-mapped triangle.
+ * 
+ * @param blitter - The active Blitter instance 
+ * @param triangle - Triangle to rasterise
+ * @param texture - Texture to sample
+ * @param uvs - Texture coordinates, in the order of triangle.a, triangle.b and triangle.c
+ * @param mapping - Affine or perspective-correct mapping
+ * @param clip - Whether to apply clipping using the blitter's clip region
+ * @param backbuffer - The 32-bit backbuffer to write to
+ */
+export function fillTextureScanline(blitter: Blitter, triangle: Triangle2D, texture: Texture, uvs: [TextureCoordinate, TextureCoordinate, TextureCoordinate], mapping: TextureMapping, clip: boolean, backbuffer: Uint32Array): void {
+    // Sort the vertices for scanline rasterisation
+    const [v0, v1, v2] = triangle.rasterOrder();
+
+    const uv0: TextureCoordinate = attributeOf(triangle, uvs, v0);
+    const uv1: TextureCoordinate = attributeOf(triangle, uvs, v1);
+    const uv2: TextureCoordinate = attributeOf(triangle, uvs, v2);
+
+    // Affine mapping interpolates u and v directly, which equals perspective mapping with 1/w = 1
+    const perspective: boolean = mapping === "perspective";
+    const w0: number = perspective ? inverseWOf(v0) : 1;
+    const w1: number = perspective ? inverseWOf(v1) : 1;
+    const w2: number = perspective ? inverseWOf(v2) : 1;
+
+    const uOverW: Gradient | null = computeGradient(v0, v1, v2, uv0.u * w0, uv1.u * w1, uv2.u * w2);
+    const vOverW: Gradient | null = computeGradient(v0, v1, v2, uv0.v * w0, uv1.v * w1, uv2.v * w2);
+    const oneOverW: Gradient | null = computeGradient(v0, v1, v2, w0, w1, w2);
+
+    // Degenerate triangle – nothing to draw
+    if (!uOverW || !vOverW || !oneOverW) return;
+
+    const depth: Gradient | null = blitter.depth.enabled ? computeGradient(v0, v1, v2, depthOf(v0), depthOf(v1), depthOf(v2)) : null;
+    const depthbuffer: DepthBuffer = blitter.depth;
+
+    const clipping: Clipping | null = clip ? blitter.clipping : null;
+    const blend: BlendFunction | null = blendFunctionOf(blitter.blend);
+
+    scanTriangle(blitter.width, blitter.height, clipping, blitter.precision, v0, v1, v2, (y, xStart, xEnd, position) => {
+        let u: number = gradientAt(uOverW, xStart, y);
+        let v: number = gradientAt(vOverW, xStart, y);
+        let w: number = gradientAt(oneOverW, xStart, y);
+        let z: number = depth ? gradientAt(depth, xStart, y) : 0;
+
+        for (let x: number = xStart; x < xEnd; x++) {
+            if (!depth || depthbuffer.test(position + x, z)) {
+                const texel: number = perspective ? texture.sample(u / w, v / w) : texture.sample(u, v);
+                backbuffer[position + x] = blend ? blend(texel, backbuffer[position + x]) : texel;
+            }
+
+            u += uOverW.dx;
+            v += vOverW.dx;
+            w += oneOverW.dx;
+
+            if (depth) z += depth.dx;
+        }
+    });
+}
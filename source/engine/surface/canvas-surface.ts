@@ -0,0 +1,70 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: canvas-surface.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Surface backed by an HTMLCanvasElement. This is the default target in the browser.
+ *
+ *   Uses two views of the same memory:
+ *     - backbuffer8: ImageData for browser rendering
+ *     - backbuffer32: Uint32Array for fast 32-bit AABBGGRR colour writes
+ */
+import { Surface } from "./surface.interface.js";
+
+export class CanvasSurface implements Surface {
+    public readonly width: number;
+    public readonly height: number;
+
+    public readonly canvas: HTMLCanvasElement;
+
+    private context: CanvasRenderingContext2D;
+
+    private backbuffer8: ImageData;
+    private backbuffer32: Uint32Array;
+
+    /**
+     * Creates the canvas element and its backbuffer.
+     *
+     * @param width - Canvas width in pixels
+     * @param height - Canvas height in pixels
+     */
+    public constructor(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+
+        // Create and configure the canvas element
+        this.canvas = document.createElement('canvas');
+        this.canvas.width = this.width;
+        this.canvas.height = this.height;
+
+        // Retrieve the 2D rendering context
+        this.context = this.canvas.getContext('2d')!;
+
+        // Initialize the backbuffer for rendering
+        this.backbuffer8 = this.context.getImageData(0, 0, this.width, this.height);
+        this.backbuffer32 = new Uint32Array(this.backbuffer8.data.buffer);
+    }
+
+    /**
+     * Returns the 32-bit backbuffer.
+     */
+    public get backbuffer(): Uint32Array {
+        return this.backbuffer32;
+    }
+
+    /**
+     * Appends the canvas element to the DOM.
+     */
+    public present(): void {
+        document.body.appendChild(this.canvas);
+    }
+
+    /**
+     * Copies the contents of the backbuffer to the visible canvas.
+     */
+    public blit(): void {
+        this.context.putImageData(this.backbuffer8, 0, 0);
+    }
+}
@@ -0,0 +1,42 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: memory-surface.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Pure in-memory surface. The backbuffer is a plain Uint32Array and there is no
+ *   presentation step, which makes it usable in Node, workers and automated tests.
+ */
+import { Surface } from "./surface.interface.js";
+
+export class MemorySurface implements Surface {
+    public readonly width: number;
+    public readonly height: number;
+
+    private backbuffer32: Uint32Array;
+
+    /**
+     * Allocates the backbuffer.
+     *
+     * @param width - Surface width in pixels
+     * @param height - Surface height in pixels
+     */
+    public constructor(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+
+        this.backbuffer32 = new Uint32Array(this.width * this.height);
+    }
+
+    /**
+     * Returns the 32-bit backbuffer.
+     */
+    public get backbuffer(): Uint32Array {
+        return this.backbuffer32;
+    }
+
+    // Nothing to present or copy – the backbuffer is the final result
+    public present(): void {}
+    public blit(): void {}
+}
@@ -0,0 +1,60 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: offscreen-surface.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Surface backed by an OffscreenCanvas. Works on the main thread and inside workers,
+ *   since it never touches the DOM. The canvas is exposed so the caller can transfer
+ *   the result (e.g. transferToImageBitmap()) to wherever it needs to go.
+ */
+import { Surface } from "./surface.interface.js";
+
+export class OffscreenSurface implements Surface {
+    public readonly width: number;
+    public readonly height: number;
+
+    public readonly canvas: OffscreenCanvas;
+
+    private context: OffscreenCanvasRenderingContext2D;
+
+    private backbuffer8: ImageData;
+    private backbuffer32: Uint32Array;
+
+    /**
+     * Creates the offscreen canvas and its backbuffer.
+     *
+     * @param width - Canvas width in pixels
+     * @param height - Canvas height in pixels
+     */
+    public constructor(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+
+        this.canvas = new OffscreenCanvas(this.width, this.height);
+        this.context = this.canvas.getContext('2d')!;
+
+        this.backbuffer8 = this.context.getImageData(0, 0, this.width, this.height);
+        this.backbuffer32 = new Uint32Array(this.backbuffer8.data.buffer);
+    }
+
+    /**
+     * Returns the 32-bit backbuffer.
+     */
+    public get backbuffer(): Uint32Array {
+        return this.backbuffer32;
+    }
+
+    /**
+     * Offscreen canvases are not attached to anything, so there is nothing to present.
+     */
+    public present(): void {}
+
+    /**
+     * Copies the contents of the backbuffer to the offscreen canvas.
+     */
+    public blit(): void {
+        this.context.putImageData(this.backbuffer8, 0, 0);
+    }
+}
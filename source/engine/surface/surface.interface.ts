@@ -0,0 +1,55 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: surface.interface.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Defines the Surface interface that decouples the Blitter from the presentation target.
+ *   A surface owns the 32-bit AABBGGRR backbuffer and knows how to show it, if at all.
+ *
+ *   Available targets:
+ *     - canvas:    HTMLCanvasElement appended to the DOM (browser)
+ *     - offscreen: OffscreenCanvas (browser main thread or worker)
+ *     - memory:    Plain Uint32Array without any presentation (Node, tests, tooling)
+ *
+ *   The rasterisers only ever see the Uint32Array, so a demo renders identically
+ *   regardless of which surface is active.
+ */
+
+/**
+ * Names of the built-in surface targets.
+ */
+export type SurfaceTarget = "canvas" | "offscreen" | "memory";
+
+/**
+ * Interface for all presentation targets used by the Blitter.
+ */
+export interface Surface {
+    /**
+     * Width of the surface in pixels.
+     */
+    readonly width: number;
+
+    /**
+     * Height of the surface in pixels.
+     */
+    readonly height: number;
+
+    /**
+     * The 32-bit backbuffer in AABBGGRR format (width * height entries).
+     */
+    readonly backbuffer: Uint32Array;
+
+    /**
+     * Makes the surface visible to the user (e.g. appends a canvas to the DOM).
+     * Called once during setup. Headless surfaces ignore it.
+     */
+    present(): void;
+
+    /**
+     * Copies the contents of the backbuffer to the presentation target.
+     * Called once per frame. Headless surfaces ignore it.
+     */
+    blit(): void;
+}
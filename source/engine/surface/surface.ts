@@ -0,0 +1,32 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: surface.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Factory for the built-in surface targets.
+ */
+import { CanvasSurface } from "./canvas-surface.js";
+import { MemorySurface } from "./memory-surface.js";
+import { OffscreenSurface } from "./offscreen-surface.js";
+import { Surface, SurfaceTarget } from "./surface.interface.js";
+
+/**
+ * Creates a surface for the given target.
+ *
+ * @param target - Which presentation target to use
+ * @param width - Width in pixels
+ * @param height - Height in pixels
+ * @returns A new Surface instance
+ */
+export function createSurface(target: SurfaceTarget, width: number, height: number): Surface {
+    switch (target) {
+        case "canvas":
+            return new CanvasSurface(width, height);
+        case "offscreen":
+            return new OffscreenSurface(width, height);
+        case "memory":
+            return new MemorySurface(width, height);
+    }
+}
@@ -0,0 +1,190 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: bitmap-font.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Defines the BitmapFont class: glyph metrics plus one or more coverage atlases.
+ *
+ *   A glyph is a rectangle in an atlas page, placed relative to the pen position
+ *   (offsetX / offsetY from the top of the line) and followed by an advance to the next
+ *   glyph. Pages store coverage only (0–255 per pixel), so text is tinted with any colour
+ *   when it is drawn, see drawText() in blitter/text.ts.
+ *
+ *   Fonts come from:
+ *     - builtinFont() in builtin-font.ts: an 8×8 font for printable ASCII
+ *     - fromGrid(): fixed-width atlases, one cell per character, left to right, top to bottom
+ *     - fromBMFont(): BMFont descriptors (parseBMFont() in bmfont.ts) with their page images
+ *
+ *   Coverage is read from the atlas alpha channel. Fully opaque atlases (e.g. white glyphs
+ *   on black in a BMP) use the brightness instead.
+ */
+import { Texture } from "../texture/texture.js";
+import { ParsedBMFont } from "./bmfont.js";
+
+// Printable ASCII (space to tilde), the default character order of grid atlases
+export const PRINTABLE_ASCII: string = Array.from({ length: 95 }, (_, i) => String.fromCharCode(32 + i)).join("");
+
+/**
+ * Placement of one character in an atlas page.
+ */
+export interface Glyph {
+    page: number;       // Atlas page index
+    x: number;          // Left edge in the page
+    y: number;          // Top edge in the page
+    width: number;      // Width in pixels (0 for blank glyphs such as space)
+    height: number;     // Height in pixels
+    offsetX: number;    // Horizontal offset from the pen position
+    offsetY: number;    // Vertical offset from the top of the line
+    advance: number;    // Pen movement to the next glyph
+}
+
+/**
+ * One atlas page as coverage values.
+ */
+export interface FontPage {
+    width: number;
+    height: number;
+    coverage: Uint8Array;   // 0 (empty) to 255 (covered), top row first
+}
+
+export class BitmapFont {
+    public readonly lineHeight: number;
+    public readonly base: number;
+    public readonly pages: FontPage[];
+    public readonly glyphs: Map<number, Glyph>;
+
+    // Character drawn for code points the font does not have (default: "?")
+    public fallback: number = 63;
+
+    // Kerning amounts keyed by kerningKey(first, second)
+    private kernings: Map<number, number>;
+
+    /**
+     * Creates a font from pages and glyph metrics.
+     *
+     * @param lineHeight - Distance between the tops of two lines in pixels
+     * @param base - Distance from the top of a line to the baseline in pixels
+     * @param pages - Coverage atlases
+     * @param glyphs - Glyphs keyed by code point
+     * @param kernings - Optional kerning pairs: first code point → second code point → amount
+     */
+    public constructor(lineHeight: number, base: number, pages: FontPage[], glyphs: Map<number, Glyph>, kernings: Map<number, Map<number, number>> = new Map()) {
+        for (const [code, glyph] of Array.from(glyphs.entries())) {
+            const page: FontPage | undefined = pages[glyph.page];
+
+            if (!page) throw new Error(`BitmapFont: glyph ${code} refers to missing page ${glyph.page}`);
+
+            if (glyph.x < 0 || glyph.y < 0 || glyph.x + glyph.width > page.width || glyph.y + glyph.height > page.height) {
+                throw new Error(`BitmapFont: glyph ${code} lies outside page ${glyph.page}`);
+            }
+        }
+
+        this.lineHeight = lineHeight;
+        this.base = base;
+        this.pages = pages;
+        this.glyphs = glyphs;
+        this.kernings = new Map();
+
+        for (const [first, seconds] of Array.from(kernings.entries())) {
+            for (const [second, amount] of Array.from(seconds.entries())) {
+                this.kernings.set(kerningKey(first, second), amount);
+            }
+        }
+    }
+
+    /**
+     * Creates a fixed-width font from an atlas of equally sized cells.
+     *
+     * @param texture - Atlas image
+     * @param cellWidth - Cell width in pixels (also the advance)
+     * @param cellHeight - Cell height in pixels (also the line height)
+     * @param characters - Characters in cell order (default: printable ASCII)
+     */
+    public static fromGrid(texture: Texture, cellWidth: number, cellHeight: number, characters: string = PRINTABLE_ASCII): BitmapFont {
+        const columns: number = Math.floor(texture.width / cellWidth);
+        const cells: number = columns * Math.floor(texture.height / cellHeight);
+        const codes: number[] = Array.from(characters, (character) => character.codePointAt(0) as number);
+
+        if (codes.length > cells) throw new Error(`BitmapFont: ${codes.length} characters need more than the ${cells} cells of the atlas`);
+
+        const glyphs: Map<number, Glyph> = new Map();
+
+        codes.forEach((code, i) => {
+            glyphs.set(code, {
+                page: 0,
+                x: (i % columns) * cellWidth,
+                y: Math.floor(i / columns) * cellHeight,
+                width: cellWidth,
+                height: cellHeight,
+                offsetX: 0,
+                offsetY: 0,
+                advance: cellWidth
+            });
+        });
+
+        return new BitmapFont(cellHeight, cellHeight, [pageFromTexture(texture)], glyphs);
+    }
+
+    /**
+     * Creates a font from a parsed BMFont descriptor and its page images.
+     *
+     * @param font - Descriptor from parseBMFont()
+     * @param textures - Page images in page id order (font.files lists their file names)
+     */
+    public static fromBMFont(font: ParsedBMFont, textures: Texture[]): BitmapFont {
+        if (textures.length < font.files.length) throw new Error(`BitmapFont: ${font.files.length} pages expected, got ${textures.length}`);
+
+        return new BitmapFont(font.lineHeight, font.base, textures.map(pageFromTexture), font.glyphs, font.kernings);
+    }
+
+    /**
+     * Returns the glyph of a code point, the fallback glyph, or null if neither exists.
+     *
+     * @param code - Unicode code point
+     */
+    public glyph(code: number): Glyph | null {
+        return this.glyphs.get(code) ?? this.glyphs.get(this.fallback) ?? null;
+    }
+
+    /**
+     * Returns the kerning adjustment between two consecutive code points (0 if none).
+     *
+     * @param first - Code point on the left
+     * @param second - Code point on the right
+     */
+    public kerning(first: number, second: number): number {
+        return this.kernings.get(kerningKey(first, second)) ?? 0;
+    }
+}
+
+/**
+ * Combines two code points (up to 0x10FFFF) into one exact map key.
+ */
+function kerningKey(first: number, second: number): number {
+    return first * 0x110000 + second;
+}
+
+/**
+ * Converts an atlas image into coverage: alpha, or brightness for fully opaque images.
+ */
+function pageFromTexture(texture: Texture): FontPage {
+    const texels: Uint32Array = texture.texels;
+    const coverage: Uint8Array = new Uint8Array(texels.length);
+
+    const opaque: boolean = texels.every((texel) => (texel >>> 24) === 255);
+
+    for (let i: number = 0; i < texels.length; i++) {
+        const texel: number = texels[i];
+
+        if (opaque) {
+            // Rec. 601 luma weights, scaled to 256
+            coverage[i] = ((texel & 0xff) * 77 + ((texel >>> 8) & 0xff) * 150 + ((texel >>> 16) & 0xff) * 29) >> 8;
+        } else {
+            coverage[i] = texel >>> 24;
+        }
+    }
+
+    return { width: texture.width, height: texture.height, coverage: coverage };
+}
@@ -0,0 +1,141 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: bmfont.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Parser for AngelCode BMFont descriptors in the text format (.fnt).
+ *
+ *   Every line is a tag followed by key=value pairs (values with spaces are quoted):
+ *     - common lineHeight=n base=n ...          → line metrics
+ *     - page id=n file="name.png"               → atlas page file names
+ *     - char id=n x=n y=n width=n height=n xoffset=n yoffset=n xadvance=n page=n ...
+ *     - kerning first=n second=n amount=n
+ *     - info, chars, kernings and unknown keys are accepted and ignored
+ *
+ *   The XML and binary variants of the format are not supported.
+ *
+ *   Malformed input throws an Error naming the format and line, e.g.
+ *     "BMFont: line 7: char needs id"
+ */
+import { Glyph } from "./bitmap-font.js";
+
+/**
+ * Result of parsing a BMFont descriptor. Pages are loaded separately, see loader.ts.
+ */
+export interface ParsedBMFont {
+    lineHeight: number;
+    base: number;
+    files: string[];                                // Page file names by page id
+    glyphs: Map<number, Glyph>;                     // Glyphs keyed by code point
+    kernings: Map<number, Map<number, number>>;     // first → second → amount
+}
+
+/**
+ * Parses BMFont descriptor text.
+ *
+ * @param source - .fnt file contents (text format)
+ */
+export function parseBMFont(source: string): ParsedBMFont {
+    const font: ParsedBMFont = { lineHeight: 0, base: 0, files: [], glyphs: new Map(), kernings: new Map() };
+
+    let common: boolean = false;
+
+    const lines: string[] = source.split(/\r?\n/);
+
+    for (let i: number = 0; i < lines.length; i++) {
+        const text: string = lines[i].trim();
+
+        if (text.length === 0) continue;
+
+        const fail = (message: string): never => {
+            throw new Error(`BMFont: line ${i + 1}: ${message}`);
+        };
+
+        if (text.charAt(0) === "<") fail("XML descriptors are not supported");
+
+        const tag: string = text.split(/\s/, 1)[0];
+        const values: Map<string, string> = parseValues(text.substring(tag.length));
+
+        // Reads a required (or defaulted) integer value
+        const integer = (key: string, fallback?: number): number => {
+            const value: string | undefined = values.get(key);
+
+            if (value === undefined) {
+                if (fallback === undefined) fail(`${tag} needs ${key}`);
+                return fallback as number;
+            }
+
+            const number: number = Number(value);
+
+            if (!Number.isInteger(number)) fail(`invalid ${key} "${value}"`);
+
+            return number;
+        };
+
+        switch (tag) {
+            case "common":
+                font.lineHeight = integer("lineHeight");
+                font.base = integer("base");
+                common = true;
+                break;
+
+            case "page": {
+                const file: string | undefined = values.get("file");
+
+                if (file === undefined) fail("page needs file");
+
+                font.files[integer("id")] = file as string;
+                break;
+            }
+
+            case "char":
+                font.glyphs.set(integer("id"), {
+                    page: integer("page", 0),
+                    x: integer("x"),
+                    y: integer("y"),
+                    width: integer("width"),
+                    height: integer("height"),
+                    offsetX: integer("xoffset", 0),
+                    offsetY: integer("yoffset", 0),
+                    advance: integer("xadvance")
+                });
+                break;
+
+            case "kerning": {
+                const first: number = integer("first");
+
+                if (!font.kernings.has(first)) font.kernings.set(first, new Map());
+
+                (font.kernings.get(first) as Map<number, number>).set(integer("second"), integer("amount"));
+                break;
+            }
+        }
+    }
+
+    if (!common) throw new Error("BMFont: missing common line");
+
+    for (let id: number = 0; id < font.files.length; id++) {
+        if (font.files[id] === undefined) throw new Error(`BMFont: missing page ${id}`);
+    }
+
+    return font;
+}
+
+/**
+ * Splits the rest of a line into key=value pairs, removing quotes around values.
+ */
+function parseValues(text: string): Map<string, string> {
+    const values: Map<string, string> = new Map();
+    const pattern: RegExp = /(\w+)=("[^"]*"|\S*)/g;
+
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+        const value: string = match[2];
+        values.set(match[1], value.charAt(0) === "\"" ? value.substring(1, value.length - 1) : value);
+    }
+
+    return values;
+}
@@ -0,0 +1,61 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: loader.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Asynchronous font loading for use in a demo's initialize():
+ *
+ *     const font: BitmapFont = await loadBMFont("../../assets/fonts/arial.fnt");
+ *     const grid: BitmapFont = await loadGridFont("../../assets/fonts/c64.png", 8, 8);
+ *
+ *   BMFont pages are resolved relative to the descriptor and decoded with the engine's
+ *   image decoders, like every other texture.
+ */
+import { loadTexture } from "../texture/loader.js";
+import { Texture } from "../texture/texture.js";
+import { BitmapFont, PRINTABLE_ASCII } from "./bitmap-font.js";
+import { parseBMFont, ParsedBMFont } from "./bmfont.js";
+
+/**
+ * Fetches a BMFont descriptor (text format) with its page images.
+ *
+ * @param url - Location of the .fnt file
+ */
+export async function loadBMFont(url: string): Promise<BitmapFont> {
+    const response: Response = await fetch(url);
+
+    if (!response.ok) throw new Error(`BitmapFont: failed to load ${url} (${response.status})`);
+
+    const parsed: ParsedBMFont = parseBMFont(await response.text());
+    const textures: Texture[] = [];
+
+    for (const file of parsed.files) {
+        textures.push(await loadTexture(resolvePath(url, file), "clamp"));
+    }
+
+    return BitmapFont.fromBMFont(parsed, textures);
+}
+
+/**
+ * Fetches a fixed-width grid atlas.
+ *
+ * @param url - Location of the atlas image
+ * @param cellWidth - Cell width in pixels
+ * @param cellHeight - Cell height in pixels
+ * @param characters - Characters in cell order (default: printable ASCII)
+ */
+export async function loadGridFont(url: string, cellWidth: number, cellHeight: number, characters: string = PRINTABLE_ASCII): Promise<BitmapFont> {
+    return BitmapFont.fromGrid(await loadTexture(url, "clamp"), cellWidth, cellHeight, characters);
+}
+
+/**
+ * Resolves a file name relative to the directory of another file.
+ */
+function resolvePath(base: string, name: string): string {
+    // Absolute paths and URLs are used as they are
+    if (/^([a-z][a-z0-9+.-]*:|\/)/i.test(name)) return name;
+
+    return base.substring(0, base.lastIndexOf("/") + 1) + name.replace(/\\/g, "/");
+}
@@ -0,0 +1,53 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: loader.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Asynchronous texture loading for use in a demo's initialize():
+ *
+ *     const texture: Texture = await loadTexture("../../assets/crate.png");
+ *
+ *   Files are fetched as raw bytes and decoded by the engine's own decoders,
+ *   so no <img> element, canvas or getImageData is involved. This works the same
+ *   in the browser, in workers and in Node (which provides fetch()).
+ */
+import { decodeImage } from "../image/decoder.js";
+import { DecodedImage } from "../image/image.interface.js";
+import { Texture, WrapMode } from "./texture.js";
+
+/**
+ * Creates a texture from a decoded image.
+ *
+ * @param image - Decoded image
+ * @param wrap - Wrap mode (default: "repeat")
+ */
+export function textureFromImage(image: DecodedImage, wrap: WrapMode = "repeat"): Texture {
+    return new Texture(image.width, image.height, image.pixels, wrap);
+}
+
+/**
+ * Decodes an image file (PNG, BMP, TGA or PCX) into a texture.
+ *
+ * @param bytes - File contents
+ * @param wrap - Wrap mode (default: "repeat")
+ */
+export async function decodeTexture(bytes: Uint8Array | ArrayBuffer, wrap: WrapMode = "repeat"): Promise<Texture> {
+    const data: Uint8Array = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+    return textureFromImage(decodeImage(data), wrap);
+}
+
+/**
+ * Fetches and decodes an image file into a texture.
+ *
+ * @param url - Location of the image file
+ * @param wrap - Wrap mode (default: "repeat")
+ */
+export async function loadTexture(url: string, wrap: WrapMode = "repeat"): Promise<Texture> {
+    const response: Response = await fetch(url);
+
+    if (!response.ok) throw new Error(`Texture: failed to load ${url} (${response.status})`);
+
+    return decodeTexture(await response.arrayBuffer(), wrap);
+}
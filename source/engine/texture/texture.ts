@@ -0,0 +1,114 @@
+/**
+ * Project: html5-typescript-3d-software-engine
+ * File: texture.ts
+ * Author: Patrik Sporre
+ * License: MIT
+ *
+ * Description:
+ *   Defines the Texture class: a 2D image used by the textured rasterisers.
+ *
+ *   Texels are stored in a Uint32Array in the same AABBGGRR layout as the backbuffer,
+ *   so sampling is a single array read that can be written straight to the screen.
+ *
+ *   Sampling uses nearest-neighbour filtering with UV coordinates in [0, 1]
+ *   (u grows to the right, v grows downwards). Coordinates outside [0, 1] are
+ *   resolved with the texture's wrap mode:
+ *     - repeat: tiles the texture
+ *     - clamp:  extends the edge texels
+ *     - mirror: tiles the texture, flipping every other tile
+ */
+
+/**
+ * Texture coordinate wrap modes.
+ */
+export type WrapMode = "repeat" | "clamp" | "mirror";
+
+/**
+ * A pair of texture coordinates. ScreenVertex satisfies this interface as well.
+ */
+export interface TextureCoordinate {
+    u: number;
+    v: number;
+}
+
+export class Texture {
+    public readonly width: number;
+    public readonly height: number;
+    public readonly texels: Uint32Array;
+
+    public wrap: WrapMode;
+
+    /**
+     * Creates a new texture.
+     *
+     * @param width - Width in texels
+     * @param height - Height in texels
+     * @param texels - Optional texel data in AABBGGRR format (default: transparent black)
+     * @param wrap - Wrap mode (default: "repeat")
+     */
+    public constructor(width: number, height: number, texels: Uint32Array = new Uint32Array(width * height), wrap: WrapMode = "repeat") {
+        if (texels.length !== width * height) {
+            throw new Error(`Texture: expected ${width * height} texels, got ${texels.length}`);
+        }
+
+        this.width = width;
+        this.height = height;
+        this.texels = texels;
+        this.wrap = wrap;
+    }
+
+    /**
+     * Returns the packed AABBGGRR texel at the given UV coordinates.
+     *
+     * @param u - Horizontal texture coordinate
+     * @param v - Vertical texture coordinate
+     */
+    public sample(u: number, v: number): number {
+        const x: number = wrapCoordinate(Math.floor(u * this.width), this.width, this.wrap);
+        const y: number = wrapCoordinate(Math.floor(v * this.height), this.height, this.wrap);
+
+        return this.texels[y * this.width + x];
+    }
+
+    /**
+     * Creates a checkerboard texture – handy for checking perspective correctness.
+     *
+     * @param size - Width and height in texels
+     * @param cells - Number of cells along each axis
+     * @param even - Colour of the even cells (AABBGGRR)
+     * @param odd - Colour of the odd cells (AABBGGRR)
+     */
+    public static checkerboard(size: number, cells: number, even: number, odd: number): Texture {
+        const texels: Uint32Array = new Uint32Array(size * size);
+        const cell: number = size / cells;
+
+        for (let y: number = 0; y < size; y++) {
+            for (let x: number = 0; x < size; x++) {
+                texels[y * size + x] = ((Math.floor(x / cell) + Math.floor(y / cell)) & 1) ? odd : even;
+            }
+        }
+
+        return new Texture(size, size, texels);
+    }
+}
+
+/**
+ * Maps an integer texel coordinate into [0, size) using the wrap mode.
+ *
+ * @param coordinate - Texel coordinate (may be outside the texture)
+ * @param size - Texture size along this axis
+ * @param wrap - Wrap mode
+ */
+function wrapCoordinate(coordinate: number, size: number, wrap: WrapMode): number {
+    switch (wrap) {
+        case "repeat":
+            return ((coordinate % size) + size) % size;
+        case "clamp":
+            return coordinate < 0 ? 0 : coordinate >= size ? size - 1 : coordinate;
+        case "mirror": {
+            const period: number = size * 2;
+            const wrapped: number = ((coordinate % period) + period) % period;
+            return wrapped < size ? wrapped : period - 1 - wrapped;
+        }
+    }
+}